@@ -1,7 +1,8 @@
 'use client'
 
-import { format } from 'date-fns'
+import { format, parseISO } from 'date-fns'
 import {
+  AlertTriangle,
   ArrowLeft,
   Calendar,
   Download,
@@ -10,6 +11,7 @@ import {
   HardDrive,
   Image as ImageIcon,
   Loader2,
+  RefreshCw,
   Save,
   Trash2,
   X,
@@ -19,6 +21,7 @@ import Link from 'next/link'
 import { useParams, useRouter } from 'next/navigation'
 import { useCallback, useEffect, useState } from 'react'
 import { toast } from 'sonner'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -46,6 +49,14 @@ import type { Asset } from '@/db/schema/assets'
 import { DEFAULT_SOURCES } from '@/db/schema/sources'
 import type { Tag } from '@/db/schema/tags'
 
+const CAPTURE_METHOD_LABELS: Record<Asset['captureMethod'], string> = {
+  web_upload: 'Web upload',
+  extension_capture: 'Extension',
+  extension_screenshot: 'Extension screenshot',
+  archive_import: 'Archive import',
+  url_import: 'URL import',
+}
+
 interface AssetWithUrls extends Asset {
   assetUrl: string | null
   previewUrl: string | null
@@ -62,6 +73,7 @@ export default function AssetDetailPage() {
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [deleting, setDeleting] = useState(false)
+  const [fetchingOriginal, setFetchingOriginal] = useState(false)
 
   // Editable fields
   const [notes, setNotes] = useState('')
@@ -175,6 +187,28 @@ export default function AssetDetailPage() {
     }
   }
 
+  const handleFetchOriginal = async () => {
+    setFetchingOriginal(true)
+    try {
+      const response = await fetch(`/api/assets/${assetId}/fetch-original`, {
+        method: 'POST',
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to fetch original')
+      }
+
+      await fetchAsset()
+      toast.success('Original file saved')
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to fetch original',
+      )
+    } finally {
+      setFetchingOriginal(false)
+    }
+  }
+
   const toggleTag = (tagId: string) => {
     setSelectedTagIds((prev) =>
       prev.includes(tagId)
@@ -211,8 +245,10 @@ export default function AssetDetailPage() {
       <div className="grid gap-6 lg:grid-cols-3">
         <AssetPreview
           asset={asset}
+          fetchingOriginal={fetchingOriginal}
           isVideo={isVideo}
           notes={notes}
+          onFetchOriginal={handleFetchOriginal}
           setNotes={setNotes}
         />
 
@@ -328,14 +364,31 @@ function AssetHeader({
 
 interface AssetPreviewProps {
   asset: AssetWithUrls
+  fetchingOriginal: boolean
   isVideo: boolean
   notes: string
+  onFetchOriginal: () => void
   setNotes: (notes: string) => void
 }
 
-function AssetPreview({ asset, isVideo, notes, setNotes }: AssetPreviewProps) {
+function AssetPreview({
+  asset,
+  fetchingOriginal,
+  isVideo,
+  notes,
+  onFetchOriginal,
+  setNotes,
+}: AssetPreviewProps) {
   return (
     <div className="space-y-6 lg:col-span-2">
+      {!asset.assetUrl && asset.status === 'ready' && (
+        <MissingOriginalAlert
+          canFetch={!!asset.mediaUrl}
+          fetching={fetchingOriginal}
+          onFetch={onFetchOriginal}
+        />
+      )}
+
       <Card>
         <CardContent className="p-4">
           <div className="relative aspect-video overflow-hidden rounded-lg bg-muted">
@@ -383,10 +436,131 @@ function AssetPreview({ asset, isVideo, notes, setNotes }: AssetPreviewProps) {
           />
         </CardContent>
       </Card>
+
+      <SimilarAssets assetId={asset.id} />
     </div>
   )
 }
 
+function MissingOriginalAlert({
+  canFetch,
+  fetching,
+  onFetch,
+}: {
+  canFetch: boolean
+  fetching: boolean
+  onFetch: () => void
+}) {
+  return (
+    <Alert className="border-amber-500/50 bg-amber-500/10">
+      <AlertTriangle className="h-4 w-4 text-amber-500" />
+      <AlertTitle className="text-amber-600">Original file missing</AlertTitle>
+      <AlertDescription className="space-y-3 text-amber-600/80">
+        <p>
+          {canFetch
+            ? 'Only the source URL was saved when this was captured. Fetch it now, before the link expires.'
+            : 'The original file was never uploaded and there is no source URL to fetch it from.'}
+        </p>
+        {canFetch && (
+          <Button
+            disabled={fetching}
+            onClick={onFetch}
+            size="sm"
+            variant="outline"
+          >
+            {fetching ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Fetch from source URL
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
+
+interface SimilarAsset extends Asset {
+  previewUrl: string | null
+  distance: number
+}
+
+function SimilarAssets({ assetId }: { assetId: string }) {
+  const [similar, setSimilar] = useState<SimilarAsset[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchSimilar = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/assets/${assetId}/similar`)
+        if (response.ok) {
+          const data = await response.json()
+          setSimilar(data.assets)
+        }
+      } catch (error) {
+        console.error('Failed to fetch similar assets:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchSimilar()
+  }, [assetId])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Similar assets</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {!loading && similar.length === 0 && (
+          <p className="text-muted-foreground text-sm">
+            No visually similar assets found
+          </p>
+        )}
+        {!loading && similar.length > 0 && (
+          <div className="grid grid-cols-3 gap-3 sm:grid-cols-4">
+            {similar.map((item) => (
+              <Link
+                className="group space-y-1"
+                href={`/assets/${item.id}`}
+                key={item.id}
+              >
+                <div className="relative aspect-square overflow-hidden rounded-md bg-muted">
+                  {item.previewUrl ? (
+                    <Image
+                      alt={item.originalFilename}
+                      className="object-cover transition-transform group-hover:scale-105"
+                      fill
+                      sizes="150px"
+                      src={item.previewUrl}
+                    />
+                  ) : (
+                    <div className="flex h-full w-full items-center justify-center">
+                      <ImageIcon className="h-6 w-6 text-muted-foreground" />
+                    </div>
+                  )}
+                </div>
+                <p className="truncate text-muted-foreground text-xs">
+                  {item.distance === 0
+                    ? 'Identical'
+                    : `${Math.round((1 - item.distance / 64) * 100)}% match`}
+                </p>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 interface AssetSidebarProps {
   allTags: Tag[]
   asset: AssetWithUrls
@@ -445,6 +619,8 @@ function AssetSidebar({
         </CardContent>
       </Card>
 
+      <AdContext asset={asset} />
+
       <Card>
         <CardHeader>
           <CardTitle className="text-base">Tags</CardTitle>
@@ -490,6 +666,102 @@ function AssetSidebar({
   )
 }
 
+// Post copy, advertiser, CTA and landing page captured by the extension
+function AdContext({ asset }: { asset: AssetWithUrls }) {
+  const advertiser = [asset.advertiserName, asset.advertiserHandle]
+    .filter((value, index, values) => value && values.indexOf(value) === index)
+    .join(' · ')
+
+  const hasContext = [
+    advertiser,
+    asset.postText,
+    asset.ctaText,
+    asset.landingPageUrl,
+    asset.pageDescription,
+    asset.adLibraryId,
+    asset.adStartDate,
+    asset.adPlatforms?.length,
+  ].some(Boolean)
+  if (!hasContext) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Ad context</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {advertiser && (
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-muted-foreground">Advertiser</span>
+            <span className="truncate">{advertiser}</span>
+          </div>
+        )}
+
+        {asset.adLibraryId && (
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-muted-foreground">Library ID</span>
+            <span className="truncate font-mono text-xs">
+              {asset.adLibraryId}
+            </span>
+          </div>
+        )}
+
+        {asset.adStartDate && (
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-muted-foreground">Started running</span>
+            <span>{format(parseISO(asset.adStartDate), 'PP')}</span>
+          </div>
+        )}
+
+        {asset.adPlatforms && asset.adPlatforms.length > 0 && (
+          <div className="flex items-start justify-between gap-4">
+            <span className="text-muted-foreground">Platforms</span>
+            <div className="flex flex-wrap justify-end gap-1">
+              {asset.adPlatforms.map((platform) => (
+                <Badge className="capitalize" key={platform} variant="outline">
+                  {platform.replaceAll('_', ' ')}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {asset.ctaText && (
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-muted-foreground">Call to action</span>
+            <Badge variant="outline">{asset.ctaText}</Badge>
+          </div>
+        )}
+
+        {asset.landingPageUrl && (
+          <a
+            className="flex items-center gap-1 text-primary hover:underline"
+            href={asset.landingPageUrl}
+            rel="noopener noreferrer"
+            target="_blank"
+          >
+            <ExternalLink className="h-3 w-3 shrink-0" />
+            <span className="truncate">
+              {new URL(asset.landingPageUrl).hostname}
+            </span>
+          </a>
+        )}
+
+        {(asset.postText || asset.pageDescription) && (
+          <>
+            <Separator />
+            <p className="whitespace-pre-wrap text-muted-foreground">
+              {asset.postText || asset.pageDescription}
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
 interface AssetDetailsProps {
   asset: AssetWithUrls
   isVideo: boolean
@@ -553,9 +825,7 @@ function AssetDetails({ asset, isVideo }: AssetDetailsProps) {
         <div className="flex items-center justify-between">
           <span className="text-muted-foreground">Capture method</span>
           <Badge variant="outline">
-            {asset.captureMethod === 'extension_capture'
-              ? 'Extension'
-              : 'Web upload'}
+            {CAPTURE_METHOD_LABELS[asset.captureMethod]}
           </Badge>
         </div>
 
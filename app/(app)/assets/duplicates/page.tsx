@@ -0,0 +1,181 @@
+'use client'
+
+import { AlertTriangle, ArrowLeft, Copy, Loader2 } from 'lucide-react'
+import Link from 'next/link'
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { AssetCard, type AssetWithDetails } from '@/components/asset-card'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from '@/components/ui/empty'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+
+interface DuplicateGroup {
+  assets: AssetWithDetails[]
+}
+
+// Maximum Hamming distance between perceptual hashes (out of 64 bits)
+const SENSITIVITY_OPTIONS = [
+  { value: '4', label: 'Strict' },
+  { value: '10', label: 'Normal' },
+  { value: '16', label: 'Loose' },
+]
+
+export default function DuplicatesPage() {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const [maxDistance, setMaxDistance] = useState('10')
+  const [page, setPage] = useState(1)
+  const [hasMore, setHasMore] = useState(false)
+  const [totalCount, setTotalCount] = useState(0)
+  const [truncated, setTruncated] = useState(false)
+
+  const fetchGroups = useCallback(
+    async (pageToLoad = 1) => {
+      const isFirstPage = pageToLoad === 1
+      if (isFirstPage) {
+        setLoading(true)
+      } else {
+        setLoadingMore(true)
+      }
+      try {
+        const response = await fetch(
+          `/api/assets/duplicates?maxDistance=${maxDistance}&page=${pageToLoad}`,
+        )
+        if (!response.ok) {
+          throw new Error('Failed to find duplicates')
+        }
+        const data = await response.json()
+        setGroups((prev) =>
+          isFirstPage ? data.groups : [...prev, ...data.groups],
+        )
+        setPage(pageToLoad)
+        setHasMore(data.pagination.hasMore)
+        setTotalCount(data.pagination.totalCount)
+        setTruncated(data.truncated)
+      } catch (error) {
+        console.error('Failed to find duplicates:', error)
+        toast.error('Failed to find duplicates')
+      } finally {
+        setLoading(false)
+        setLoadingMore(false)
+      }
+    },
+    [maxDistance],
+  )
+
+  useEffect(() => {
+    fetchGroups()
+  }, [fetchGroups])
+
+  return (
+    <div className="container space-y-6 px-4 py-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <Button render={<Link href="/assets" />} size="icon" variant="ghost">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="font-bold text-3xl tracking-tight">Duplicates</h1>
+            <p className="text-muted-foreground">
+              Assets that look the same, even at different sizes or encodings
+            </p>
+          </div>
+        </div>
+        <Select
+          onValueChange={(value) => setMaxDistance(value ?? '10')}
+          value={maxDistance}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue>
+              {
+                SENSITIVITY_OPTIONS.find(
+                  (option) => option.value === maxDistance,
+                )?.label
+              }
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            {SENSITIVITY_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {!loading && truncated && (
+        <Alert className="border-amber-500/50 bg-amber-500/10">
+          <AlertTriangle className="h-4 w-4 text-amber-500" />
+          <AlertTitle className="text-amber-600">
+            Showing the closest matches only
+          </AlertTitle>
+          <AlertDescription className="text-amber-600/80">
+            Too many assets look alike to compare them all at this sensitivity.
+            Try a stricter setting to see complete groups.
+          </AlertDescription>
+        </Alert>
+      )}
+      {!loading && groups.length === 0 && (
+        <Empty className="py-20">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <Copy className="h-6 w-6" />
+            </EmptyMedia>
+            <EmptyTitle>No duplicates found</EmptyTitle>
+            <EmptyDescription>
+              None of your assets look alike at this sensitivity
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      )}
+      {!loading &&
+        groups.map((group) => (
+          <section className="space-y-3" key={group.assets[0]?.id}>
+            <h2 className="font-medium text-muted-foreground text-sm">
+              {group.assets.length} similar assets
+            </h2>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+              {group.assets.map((asset) => (
+                <AssetCard asset={asset} key={asset.id} />
+              ))}
+            </div>
+          </section>
+        ))}
+      {hasMore && !loading && (
+        <div className="flex flex-col items-center gap-2 py-4">
+          <Button
+            disabled={loadingMore}
+            onClick={() => fetchGroups(page + 1)}
+            variant="outline"
+          >
+            {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Load more
+          </Button>
+          <p className="text-muted-foreground text-sm">
+            Showing {groups.length} of {totalCount} groups
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,15 +1,20 @@
 'use client'
 
-import { Images, Loader2, Plus } from 'lucide-react'
+import { Copy, Images, Loader2, Plus, RefreshCw } from 'lucide-react'
 import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
-import { Suspense, useCallback, useEffect, useState } from 'react'
+import { Suspense, useCallback, useEffect, useRef, useState } from 'react'
+import { AddToCollectionDialog } from '@/components/add-to-collection-dialog'
 import {
   AssetCard,
   AssetListItem,
   type AssetWithDetails,
 } from '@/components/asset-card'
 import { AssetFilters } from '@/components/asset-filters'
+import {
+  BulkActionsBar,
+  type BulkSelection,
+} from '@/components/bulk-actions-bar'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -38,23 +43,39 @@ function AssetsContent() {
   const [loading, setLoading] = useState(true)
   const [loadingMore, setLoadingMore] = useState(false)
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
-  const [page, setPage] = useState(1)
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [hasMore, setHasMore] = useState(false)
+  // Stops infinite scroll after a failed page until the user retries
+  const [loadMoreFailed, setLoadMoreFailed] = useState(false)
   const [totalCount, setTotalCount] = useState(0)
   const [selectedAssets, setSelectedAssets] = useState<Set<string>>(new Set())
+  const [selectAllMatching, setSelectAllMatching] = useState(false)
+  const lastSelectedIndexRef = useRef<number | null>(null)
+  const requestIdRef = useRef(0)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  const clearSelection = useCallback(() => {
+    setSelectedAssets(new Set())
+    setSelectAllMatching(false)
+    lastSelectedIndexRef.current = null
+  }, [])
 
   const fetchAssets = useCallback(
-    async (pageNum: number, append = false) => {
-      const isFirstPage = pageNum === 1
+    async (cursor: string | null) => {
+      const isFirstPage = cursor === null
+      const requestId = ++requestIdRef.current
       if (isFirstPage) {
         setLoading(true)
+        // Selection only makes sense for the current filters
+        clearSelection()
       } else {
         setLoadingMore(true)
       }
+      setLoadMoreFailed(false)
 
       try {
         const params = new URLSearchParams(searchParams.toString())
-        params.set('page', pageNum.toString())
+        params.set('cursor', cursor ?? '')
         params.set('limit', '24')
 
         const response = await fetch(`/api/assets?${params}`)
@@ -64,22 +85,33 @@ function AssetsContent() {
 
         const data = await response.json()
 
-        if (append) {
-          setAssets((prev) => [...prev, ...data.assets])
-        } else {
+        // Ignore responses for filters that are no longer current
+        if (requestId !== requestIdRef.current) {
+          return
+        }
+
+        if (isFirstPage) {
           setAssets(data.assets)
+          setTotalCount(data.pagination.totalCount)
+        } else {
+          setAssets((prev) => [...prev, ...data.assets])
         }
 
+        setNextCursor(data.pagination.nextCursor)
         setHasMore(data.pagination.hasMore)
-        setTotalCount(data.pagination.totalCount)
       } catch (error) {
         console.error('Failed to fetch assets:', error)
+        if (!isFirstPage && requestId === requestIdRef.current) {
+          setLoadMoreFailed(true)
+        }
       } finally {
-        setLoading(false)
-        setLoadingMore(false)
+        if (requestId === requestIdRef.current) {
+          setLoading(false)
+          setLoadingMore(false)
+        }
       }
     },
-    [searchParams],
+    [searchParams, clearSelection],
   )
 
   const fetchTags = useCallback(async () => {
@@ -95,30 +127,76 @@ function AssetsContent() {
   }, [])
 
   useEffect(() => {
-    setPage(1)
-    fetchAssets(1)
+    fetchAssets(null)
   }, [fetchAssets])
 
   useEffect(() => {
     fetchTags()
   }, [fetchTags])
 
-  const loadMore = () => {
-    const nextPage = page + 1
-    setPage(nextPage)
-    fetchAssets(nextPage, true)
-  }
+  // Infinite scroll: load the next page when the sentinel comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (
+      !(sentinel && hasMore && nextCursor) ||
+      loading ||
+      loadingMore ||
+      loadMoreFailed
+    ) {
+      return
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) {
+          fetchAssets(nextCursor)
+        }
+      },
+      { rootMargin: '400px' },
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [hasMore, nextCursor, loading, loadingMore, loadMoreFailed, fetchAssets])
+
+  // Shift-click applies the new state to every asset since the last click
+  const toggleSelection = (
+    index: number,
+    selected: boolean,
+    extendRange: boolean,
+  ) => {
+    const lastIndex = lastSelectedIndexRef.current
+    const [start, end] =
+      extendRange && lastIndex !== null
+        ? [Math.min(lastIndex, index), Math.max(lastIndex, index)]
+        : [index, index]
+    lastSelectedIndexRef.current = index
 
-  const toggleSelection = (assetId: string, selected: boolean) => {
     setSelectedAssets((prev) => {
-      const next = new Set(prev)
-      if (selected) {
-        next.add(assetId)
-      } else {
-        next.delete(assetId)
+      // Leaving "all matching" mode keeps everything loaded selected
+      const next = selectAllMatching
+        ? new Set(assets.map((a) => a.id))
+        : new Set(prev)
+      for (const asset of assets.slice(start, end + 1)) {
+        if (selected) {
+          next.add(asset.id)
+        } else {
+          next.delete(asset.id)
+        }
       }
       return next
     })
+    setSelectAllMatching(false)
+  }
+
+  const isSelected = (assetId: string) =>
+    selectAllMatching || selectedAssets.has(assetId)
+
+  const bulkSelection: BulkSelection = selectAllMatching
+    ? { filter: searchParams.toString() }
+    : { assetIds: [...selectedAssets] }
+
+  const handleBulkComplete = () => {
+    fetchAssets(null)
   }
 
   const handleTagClick = (tagId: string) => {
@@ -134,6 +212,16 @@ function AssetsContent() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [assetToDelete, setAssetToDelete] = useState<string | null>(null)
 
+  const [collectionDialogOpen, setCollectionDialogOpen] = useState(false)
+  const [assetForCollection, setAssetForCollection] = useState<string | null>(
+    null,
+  )
+
+  const handleAddToCollectionClick = (assetId: string) => {
+    setAssetForCollection(assetId)
+    setCollectionDialogOpen(true)
+  }
+
   const handleDeleteClick = (assetId: string) => {
     setAssetToDelete(assetId)
     setDeleteDialogOpen(true)
@@ -169,10 +257,20 @@ function AssetsContent() {
             Manage your creative ads library
           </p>
         </div>
-        <Button nativeButton={false} render={<Link href="/upload" />}>
-          <Plus className="mr-2 h-4 w-4" />
-          Upload
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button
+            nativeButton={false}
+            render={<Link href="/assets/duplicates" />}
+            variant="outline"
+          >
+            <Copy className="mr-2 h-4 w-4" />
+            Find duplicates
+          </Button>
+          <Button nativeButton={false} render={<Link href="/upload" />}>
+            <Plus className="mr-2 h-4 w-4" />
+            Upload
+          </Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -183,6 +281,20 @@ function AssetsContent() {
         viewMode={viewMode}
       />
 
+      {(selectAllMatching || selectedAssets.size > 0) && (
+        <BulkActionsBar
+          canSelectAllMatching={
+            !selectAllMatching && selectedAssets.size < totalCount
+          }
+          count={selectAllMatching ? totalCount : selectedAssets.size}
+          onClear={clearSelection}
+          onComplete={handleBulkComplete}
+          onSelectAllMatching={() => setSelectAllMatching(true)}
+          selection={bulkSelection}
+          tags={tags}
+        />
+      )}
+
       {/* Content */}
       {loading && (
         <div className="flex items-center justify-center py-20">
@@ -214,49 +326,71 @@ function AssetsContent() {
       )}
       {!loading && assets.length > 0 && viewMode === 'grid' && (
         <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-          {assets.map((asset) => (
+          {assets.map((asset, index) => (
             <AssetCard
               asset={asset}
               key={asset.id}
+              onAddToCollection={() => handleAddToCollectionClick(asset.id)}
               onDelete={() => handleDeleteClick(asset.id)}
-              onSelect={(selected) => toggleSelection(asset.id, selected)}
+              onSelect={(selected, extendRange) =>
+                toggleSelection(index, selected, extendRange)
+              }
               onTagClick={handleTagClick}
-              selected={selectedAssets.has(asset.id)}
+              selected={isSelected(asset.id)}
+              showSelection
             />
           ))}
         </div>
       )}
       {!loading && assets.length > 0 && viewMode === 'list' && (
         <div className="space-y-2">
-          {assets.map((asset) => (
+          {assets.map((asset, index) => (
             <AssetListItem
               asset={asset}
               key={asset.id}
+              onAddToCollection={() => handleAddToCollectionClick(asset.id)}
               onDelete={() => handleDeleteClick(asset.id)}
-              onSelect={(selected) => toggleSelection(asset.id, selected)}
+              onSelect={(selected, extendRange) =>
+                toggleSelection(index, selected, extendRange)
+              }
               onTagClick={handleTagClick}
-              selected={selectedAssets.has(asset.id)}
+              selected={isSelected(asset.id)}
+              showSelection
             />
           ))}
         </div>
       )}
 
-      {/* Load more */}
+      {/* Infinite scroll sentinel */}
       {hasMore && !loading && (
-        <div className="flex justify-center py-4">
-          <Button disabled={loadingMore} onClick={loadMore} variant="outline">
-            {loadingMore ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Loading...
-              </>
-            ) : (
-              'Load more'
-            )}
-          </Button>
+        <div className="flex justify-center py-4" ref={sentinelRef}>
+          {loadingMore && (
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          )}
+          {loadMoreFailed && !loadingMore && (
+            <div className="flex flex-col items-center gap-2">
+              <p className="text-muted-foreground text-sm">
+                Failed to load more assets
+              </p>
+              <Button
+                onClick={() => fetchAssets(nextCursor)}
+                size="sm"
+                variant="outline"
+              >
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Retry
+              </Button>
+            </div>
+          )}
         </div>
       )}
 
+      <AddToCollectionDialog
+        assetIds={assetForCollection ? [assetForCollection] : []}
+        onOpenChange={setCollectionDialogOpen}
+        open={collectionDialogOpen}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog onOpenChange={setDeleteDialogOpen} open={deleteDialogOpen}>
         <AlertDialogContent>
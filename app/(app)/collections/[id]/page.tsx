@@ -0,0 +1,251 @@
+'use client'
+
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  ImageIcon,
+  Layers,
+  Loader2,
+  Plus,
+  Star,
+  X,
+} from 'lucide-react'
+import Link from 'next/link'
+import { useParams, useRouter } from 'next/navigation'
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { AssetCard, type AssetWithDetails } from '@/components/asset-card'
+import { Button } from '@/components/ui/button'
+import {
+  Empty,
+  EmptyContent,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from '@/components/ui/empty'
+import type { Collection } from '@/db/schema/collections'
+
+interface CollectionWithAssets extends Collection {
+  assets: AssetWithDetails[]
+}
+
+export default function CollectionDetailPage() {
+  const params = useParams()
+  const router = useRouter()
+  const collectionId = params.id as string
+
+  const [collection, setCollection] = useState<CollectionWithAssets | null>(
+    null,
+  )
+  const [loading, setLoading] = useState(true)
+
+  const fetchCollection = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/collections/${collectionId}`)
+      if (!response.ok) {
+        if (response.status === 404) {
+          router.push('/collections')
+          return
+        }
+        throw new Error('Failed to fetch collection')
+      }
+      const data = await response.json()
+      setCollection(data.collection)
+    } catch (error) {
+      console.error('Failed to fetch collection:', error)
+      toast.error('Failed to load collection')
+    } finally {
+      setLoading(false)
+    }
+  }, [collectionId, router])
+
+  useEffect(() => {
+    fetchCollection()
+  }, [fetchCollection])
+
+  const moveAsset = async (index: number, direction: -1 | 1) => {
+    if (!collection) {
+      return
+    }
+    const target = index + direction
+    if (target < 0 || target >= collection.assets.length) {
+      return
+    }
+
+    const reordered = [...collection.assets]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(target, 0, moved)
+    setCollection({ ...collection, assets: reordered })
+
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/assets`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assetIds: reordered.map((a) => a.id) }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to reorder')
+      }
+    } catch (_error) {
+      toast.error('Failed to reorder collection')
+      await fetchCollection()
+    }
+  }
+
+  const setCover = async (assetId: string) => {
+    try {
+      const response = await fetch(`/api/collections/${collectionId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ coverAssetId: assetId }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to set cover')
+      }
+      setCollection((prev) =>
+        prev ? { ...prev, coverAssetId: assetId } : prev,
+      )
+      toast.success('Cover updated')
+    } catch (_error) {
+      toast.error('Failed to set cover')
+    }
+  }
+
+  const removeAsset = async (assetId: string) => {
+    try {
+      const response = await fetch(`/api/collections/${collectionId}/assets`, {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assetIds: [assetId] }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to remove')
+      }
+      setCollection((prev) =>
+        prev
+          ? {
+              ...prev,
+              coverAssetId:
+                prev.coverAssetId === assetId ? null : prev.coverAssetId,
+              assets: prev.assets.filter((a) => a.id !== assetId),
+            }
+          : prev,
+      )
+      toast.success('Removed from collection')
+    } catch (_error) {
+      toast.error('Failed to remove asset')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  if (!collection) {
+    return null
+  }
+
+  return (
+    <div className="container space-y-6 px-4 py-6">
+      <div className="flex items-center gap-4">
+        <Button
+          render={<Link href="/collections" />}
+          size="icon"
+          variant="ghost"
+        >
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="flex items-center gap-2 font-bold text-3xl tracking-tight">
+            <Layers className="h-6 w-6 text-muted-foreground" />
+            {collection.name}
+          </h1>
+          {collection.description && (
+            <p className="text-muted-foreground">{collection.description}</p>
+          )}
+        </div>
+      </div>
+
+      {collection.assets.length === 0 ? (
+        <Empty className="py-20">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <ImageIcon className="h-6 w-6" />
+            </EmptyMedia>
+            <EmptyTitle>This collection is empty</EmptyTitle>
+            <EmptyDescription>
+              Use "Add to Collection" on any asset to add it here
+            </EmptyDescription>
+          </EmptyHeader>
+          <EmptyContent>
+            <Button nativeButton={false} render={<Link href="/assets" />}>
+              <Plus className="mr-2 h-4 w-4" />
+              Browse assets
+            </Button>
+          </EmptyContent>
+        </Empty>
+      ) : (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+          {collection.assets.map((asset, index) => (
+            <div className="space-y-2" key={asset.id}>
+              <AssetCard asset={asset} />
+              <div className="flex items-center justify-between">
+                <div className="flex gap-1">
+                  <Button
+                    aria-label="Move earlier"
+                    className="h-8 w-8"
+                    disabled={index === 0}
+                    onClick={() => moveAsset(index, -1)}
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    aria-label="Move later"
+                    className="h-8 w-8"
+                    disabled={index === collection.assets.length - 1}
+                    onClick={() => moveAsset(index, 1)}
+                    size="icon"
+                    variant="ghost"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    className="h-8"
+                    disabled={collection.coverAssetId === asset.id}
+                    onClick={() => setCover(asset.id)}
+                    size="sm"
+                    variant="ghost"
+                  >
+                    <Star className="mr-1 h-4 w-4" />
+                    {collection.coverAssetId === asset.id
+                      ? 'Cover'
+                      : 'Set cover'}
+                  </Button>
+                  <Button
+                    className="h-8"
+                    onClick={() => removeAsset(asset.id)}
+                    size="sm"
+                    variant="ghost"
+                  >
+                    <X className="mr-1 h-4 w-4" />
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,364 @@
+'use client'
+
+import { formatDistanceToNow } from 'date-fns'
+import {
+  Layers,
+  Loader2,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+} from 'lucide-react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+  Empty,
+  EmptyContent,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from '@/components/ui/empty'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import type { Collection } from '@/db/schema/collections'
+
+interface CollectionWithDetails extends Collection {
+  coverUrl: string | null
+  assetCount: number
+}
+
+export default function CollectionsPage() {
+  const [collections, setCollections] = useState<CollectionWithDetails[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingCollection, setEditingCollection] =
+    useState<CollectionWithDetails | null>(null)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [collectionToDelete, setCollectionToDelete] = useState<string | null>(
+    null,
+  )
+
+  const fetchCollections = useCallback(async () => {
+    try {
+      const response = await fetch('/api/collections')
+      if (response.ok) {
+        const data = await response.json()
+        setCollections(data.collections)
+      }
+    } catch (error) {
+      console.error('Failed to fetch collections:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCollections()
+  }, [fetchCollections])
+
+  const openCreateDialog = () => {
+    setEditingCollection(null)
+    setName('')
+    setDescription('')
+    setDialogOpen(true)
+  }
+
+  const openEditDialog = (collection: CollectionWithDetails) => {
+    setEditingCollection(collection)
+    setName(collection.name)
+    setDescription(collection.description || '')
+    setDialogOpen(true)
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Collection name is required')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(
+        editingCollection
+          ? `/api/collections/${editingCollection.id}`
+          : '/api/collections',
+        {
+          method: editingCollection ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: name.trim(), description }),
+        },
+      )
+      if (!response.ok) {
+        throw new Error('Failed to save collection')
+      }
+      await fetchCollections()
+      toast.success(
+        editingCollection ? 'Collection updated' : 'Collection created',
+      )
+      setDialogOpen(false)
+    } catch (_error) {
+      toast.error(
+        editingCollection
+          ? 'Failed to update collection'
+          : 'Failed to create collection',
+      )
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteClick = (collectionId: string) => {
+    setCollectionToDelete(collectionId)
+    setDeleteDialogOpen(true)
+  }
+
+  const handleDelete = async () => {
+    if (!collectionToDelete) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/collections/${collectionToDelete}`, {
+        method: 'DELETE',
+      })
+      if (response.ok) {
+        setCollections((prev) =>
+          prev.filter((c) => c.id !== collectionToDelete),
+        )
+        toast.success('Collection deleted')
+        setDeleteDialogOpen(false)
+        setCollectionToDelete(null)
+      } else {
+        throw new Error('Failed to delete collection')
+      }
+    } catch (_error) {
+      toast.error('Failed to delete collection')
+    }
+  }
+
+  return (
+    <div className="container space-y-6 px-4 py-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="font-bold text-3xl tracking-tight">Collections</h1>
+          <p className="text-muted-foreground">
+            Curate ordered boards of assets for pitches and swipe files
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Collection
+        </Button>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {!loading && collections.length === 0 && (
+        <Empty className="py-20">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <Layers className="h-6 w-6" />
+            </EmptyMedia>
+            <EmptyTitle>No collections yet</EmptyTitle>
+            <EmptyDescription>
+              Group assets into boards with their own order, cover and
+              description
+            </EmptyDescription>
+          </EmptyHeader>
+          <EmptyContent>
+            <Button onClick={openCreateDialog}>
+              <Plus className="mr-2 h-4 w-4" />
+              Create your first collection
+            </Button>
+          </EmptyContent>
+        </Empty>
+      )}
+      {!loading && collections.length > 0 && (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+          {collections.map((collection) => (
+            <Card
+              className="group overflow-hidden transition-all hover:border-primary/50 hover:shadow-lg"
+              key={collection.id}
+            >
+              <Link
+                className="relative block aspect-video bg-muted"
+                href={`/collections/${collection.id}`}
+              >
+                {collection.coverUrl ? (
+                  <Image
+                    alt={collection.name}
+                    className="object-cover"
+                    fill
+                    sizes="(max-width: 640px) 100vw, (max-width: 1024px) 50vw, 33vw"
+                    src={collection.coverUrl}
+                  />
+                ) : (
+                  <div className="flex h-full w-full items-center justify-center text-muted-foreground">
+                    <Layers className="h-12 w-12" />
+                  </div>
+                )}
+              </Link>
+              <CardContent className="space-y-1 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <Link
+                    className="min-w-0"
+                    href={`/collections/${collection.id}`}
+                  >
+                    <p className="truncate font-medium text-sm hover:underline">
+                      {collection.name}
+                    </p>
+                  </Link>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger
+                      render={(props) => (
+                        <Button
+                          {...props}
+                          className="h-8 w-8 opacity-0 transition-opacity group-hover:opacity-100"
+                          size="icon"
+                          variant="ghost"
+                        >
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      )}
+                    />
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem
+                        onClick={() => openEditDialog(collection)}
+                      >
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit
+                      </DropdownMenuItem>
+                      <DropdownMenuItem
+                        className="text-destructive"
+                        onClick={() => handleDeleteClick(collection.id)}
+                      >
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+                {collection.description && (
+                  <p className="line-clamp-2 text-muted-foreground text-xs">
+                    {collection.description}
+                  </p>
+                )}
+                <p className="text-muted-foreground text-xs">
+                  {collection.assetCount} asset
+                  {collection.assetCount !== 1 ? 's' : ''} · Updated{' '}
+                  {formatDistanceToNow(new Date(collection.updatedAt), {
+                    addSuffix: true,
+                  })}
+                </p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog onOpenChange={setDialogOpen} open={dialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingCollection ? 'Edit Collection' : 'Create Collection'}
+            </DialogTitle>
+            <DialogDescription>
+              {editingCollection
+                ? 'Update the collection name and description.'
+                : 'Start a new board to group assets.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Name</Label>
+              <Input
+                id="name"
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Q4 client pitch"
+                value={name}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="What is this collection for?"
+                rows={3}
+                value={description}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setDialogOpen(false)} variant="outline">
+              Cancel
+            </Button>
+            <Button disabled={saving} onClick={handleSave}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editingCollection ? 'Save Changes' : 'Create Collection'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog onOpenChange={setDeleteDialogOpen} open={deleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Collection</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete this collection? The assets in it
+              will not be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive hover:bg-destructive/90"
+              onClick={handleDelete}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,267 @@
+'use client'
+
+import { formatDistanceToNow } from 'date-fns'
+import {
+  Activity,
+  FileArchive,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+} from 'lucide-react'
+import Link from 'next/link'
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from '@/components/ui/empty'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import type { Job, JobType } from '@/db/schema/jobs'
+
+type JobListItem = Omit<Job, 'ownerId' | 'lockedAt' | 'completedAt'> & {
+  asset: { originalFilename: string; mimeType: string } | null
+}
+
+type StatusFilter = 'all' | 'queued' | 'dead'
+
+const JOB_TYPE_LABELS: Record<JobType, string> = {
+  process_asset: 'Preview & metadata',
+  process_import: 'Archive import',
+}
+
+// Group jobs by asset; jobs without an asset (imports) each get their own group
+function groupByAsset(jobs: JobListItem[]) {
+  const groups = new Map<string, JobListItem[]>()
+  for (const job of jobs) {
+    const key = job.assetId ?? job.id
+    groups.set(key, [...(groups.get(key) ?? []), job])
+  }
+  return [...groups.values()]
+}
+
+export default function JobsPage() {
+  const [jobs, setJobs] = useState<JobListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState<StatusFilter>('all')
+  const [retrying, setRetrying] = useState<string | null>(null)
+
+  const fetchJobs = useCallback(async () => {
+    setLoading(true)
+    try {
+      const query = filter === 'all' ? '' : `?status=${filter}`
+      const response = await fetch(`/api/jobs${query}`)
+      if (response.ok) {
+        const data = await response.json()
+        setJobs(data.jobs)
+      }
+    } catch (error) {
+      console.error('Failed to fetch jobs:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [filter])
+
+  useEffect(() => {
+    fetchJobs()
+  }, [fetchJobs])
+
+  const handleRetry = async (jobId: string) => {
+    setRetrying(jobId)
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/retry`, {
+        method: 'POST',
+      })
+      if (!response.ok) {
+        throw new Error('Failed to retry job')
+      }
+      toast.success('Job queued for retry')
+      fetchJobs()
+    } catch (_error) {
+      toast.error('Failed to retry job')
+    } finally {
+      setRetrying(null)
+    }
+  }
+
+  const groups = groupByAsset(jobs)
+
+  return (
+    <div className="container max-w-4xl space-y-6 py-8">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="font-bold text-3xl tracking-tight">Processing Jobs</h1>
+          <p className="text-muted-foreground">
+            Background work that is waiting, retrying or has failed
+          </p>
+        </div>
+        <Button disabled={loading} onClick={fetchJobs} variant="outline">
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">About Processing Jobs</CardTitle>
+          <CardDescription>
+            Previews, metadata and archive imports are processed in the
+            background. Failed jobs are retried with increasing delays and
+            marked as failed after their last attempt.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+
+      <Tabs
+        onValueChange={(value) => setFilter(value as StatusFilter)}
+        value={filter}
+      >
+        <TabsList>
+          <TabsTrigger value="all">All open</TabsTrigger>
+          <TabsTrigger value="queued">Queued</TabsTrigger>
+          <TabsTrigger value="dead">Failed</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {loading && (
+        <div className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+      {!loading && jobs.length === 0 && (
+        <Empty className="py-20">
+          <EmptyHeader>
+            <EmptyMedia variant="icon">
+              <Activity className="h-6 w-6" />
+            </EmptyMedia>
+            <EmptyTitle>No open jobs</EmptyTitle>
+            <EmptyDescription>Everything has been processed</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      )}
+      {!loading && jobs.length > 0 && (
+        <div className="space-y-3">
+          {groups.map((group) => (
+            <Card key={group[0].assetId ?? group[0].id}>
+              <CardContent className="space-y-3 p-4">
+                <JobGroupHeader job={group[0]} />
+                <div className="divide-y rounded-md border">
+                  {group.map((job) => (
+                    <JobRow
+                      job={job}
+                      key={job.id}
+                      onRetry={() => handleRetry(job.id)}
+                      retrying={retrying === job.id}
+                    />
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function JobGroupHeader({ job }: { job: JobListItem }) {
+  if (job.assetId) {
+    return (
+      <Link
+        className="block truncate font-medium hover:underline"
+        href={`/assets/${job.assetId}`}
+      >
+        {job.asset?.originalFilename ?? 'Deleted asset'}
+      </Link>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-2 font-medium">
+      <FileArchive className="h-4 w-4 text-muted-foreground" />
+      <Link className="hover:underline" href="/upload">
+        {JOB_TYPE_LABELS[job.type]}
+      </Link>
+    </div>
+  )
+}
+
+function JobStatusBadge({ job }: { job: JobListItem }) {
+  if (job.status === 'dead') {
+    return <Badge variant="destructive">Failed</Badge>
+  }
+  if (job.status === 'running') {
+    return <Badge>Running</Badge>
+  }
+  return (
+    <Badge variant="secondary">
+      {job.attempts > 0 ? 'Retrying' : 'Queued'}
+    </Badge>
+  )
+}
+
+function JobRow({
+  job,
+  retrying,
+  onRetry,
+}: {
+  job: JobListItem
+  retrying: boolean
+  onRetry: () => void
+}) {
+  const canRetry =
+    job.status === 'dead' || (job.status === 'queued' && job.attempts > 0)
+
+  return (
+    <div className="flex items-start justify-between gap-4 px-3 py-2 text-sm">
+      <div className="min-w-0 space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{JOB_TYPE_LABELS[job.type]}</span>
+          <JobStatusBadge job={job} />
+        </div>
+        <p className="text-muted-foreground text-xs">
+          Attempt {job.attempts} of {job.maxAttempts}
+          {job.status === 'queued' &&
+            ` • Runs ${formatDistanceToNow(new Date(job.runAt), {
+              addSuffix: true,
+            })}`}
+          {job.status !== 'queued' &&
+            ` • Updated ${formatDistanceToNow(new Date(job.updatedAt), {
+              addSuffix: true,
+            })}`}
+        </p>
+        {job.lastError && (
+          <p className="break-words text-destructive text-xs">
+            {job.lastError}
+          </p>
+        )}
+      </div>
+      {canRetry && (
+        <Button
+          disabled={retrying}
+          onClick={onRetry}
+          size="sm"
+          variant="outline"
+        >
+          {retrying ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <RotateCcw className="mr-2 h-4 w-4" />
+          )}
+          Retry now
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,9 @@
 
 import { useRouter } from 'next/navigation'
 import { toast } from 'sonner'
+import { ImportArchive } from '@/components/import-archive'
+import { ImportFromUrl } from '@/components/import-from-url'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { UploadDropzone } from '@/components/upload-dropzone'
 
 export default function UploadPage() {
@@ -14,17 +17,39 @@ export default function UploadPage() {
     router.push('/assets')
   }
 
+  function handleImportComplete(assetId: string, duplicate: boolean) {
+    if (duplicate) {
+      toast.info('Already in your library')
+    } else {
+      toast.success('Asset imported successfully')
+    }
+    router.push(`/assets/${assetId}`)
+  }
+
   return (
     <div className="container max-w-4xl space-y-8 py-8">
       <div className="space-y-2">
         <h1 className="font-bold text-3xl tracking-tight">Upload Assets</h1>
         <p className="text-muted-foreground">
-          Upload images and videos to your creative ads library. Select the
-          source platform for each file to keep your assets organized.
+          Upload images and videos to your creative ads library, paste a
+          screenshot or import a media URL. Select the source platform for each
+          file to keep your assets organized.
         </p>
       </div>
 
-      <UploadDropzone onUploadComplete={handleUploadComplete} />
+      <Tabs defaultValue="upload">
+        <TabsList>
+          <TabsTrigger value="upload">Upload files</TabsTrigger>
+          <TabsTrigger value="import">Import archive</TabsTrigger>
+        </TabsList>
+        <TabsContent className="space-y-6 pt-4" value="upload">
+          <ImportFromUrl onImportComplete={handleImportComplete} />
+          <UploadDropzone onUploadComplete={handleUploadComplete} />
+        </TabsContent>
+        <TabsContent className="pt-4" value="import">
+          <ImportArchive />
+        </TabsContent>
+      </Tabs>
     </div>
   )
 }
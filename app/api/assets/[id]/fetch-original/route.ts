@@ -0,0 +1,88 @@
+import { createHash } from 'node:crypto'
+import { and, eq } from 'drizzle-orm'
+import { after, NextResponse } from 'next/server'
+import { db } from '@/db'
+import { assets } from '@/db/schema/assets'
+import { enqueueJob, runJobs } from '@/lib/jobs'
+import { storeRemoteOriginal } from '@/lib/processing'
+import { RemoteMediaError } from '@/lib/remote-media'
+import { createClient } from '@/lib/supabase/server'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export const maxDuration = 120
+
+// Download a URL-only capture's media into storage, then reprocess it
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [asset] = await db
+      .select()
+      .from(assets)
+      .where(and(eq(assets.id, id), eq(assets.ownerId, user.id)))
+
+    if (!asset) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    const { mediaUrl } = asset
+    if (!mediaUrl) {
+      return NextResponse.json(
+        { error: 'Asset has no media URL to fetch from' },
+        { status: 400 },
+      )
+    }
+
+    // Never replace an original that was stored
+    const { data: hasOriginal } = await supabase.storage
+      .from(asset.storageBucket)
+      .exists(asset.storagePath)
+    if (hasOriginal) {
+      return NextResponse.json(
+        { error: 'Asset already has its original file' },
+        { status: 409 },
+      )
+    }
+
+    const media = await storeRemoteOriginal(supabase, { ...asset, mediaUrl })
+
+    const [updatedAsset] = await db
+      .update(assets)
+      .set({
+        status: 'ready',
+        mimeType: media.mimeType,
+        sizeBytes: media.data.byteLength,
+        sha256: createHash('sha256').update(media.data).digest('hex'),
+        updatedAt: new Date(),
+      })
+      .where(eq(assets.id, id))
+      .returning()
+
+    // Regenerate previews and metadata from the stored original
+    await enqueueJob('process_asset', { ownerId: user.id, assetId: id })
+    after(() => runJobs())
+
+    return NextResponse.json({ asset: updatedAsset })
+  } catch (error) {
+    if (error instanceof RemoteMediaError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+    console.error('Fetch original error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch original' },
+      { status: 500 },
+    )
+  }
+}
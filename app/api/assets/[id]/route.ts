@@ -2,9 +2,15 @@ import { and, eq } from 'drizzle-orm'
 import { NextResponse } from 'next/server'
 import { db } from '@/db'
 import { assets, assetTags } from '@/db/schema/assets'
+import { collectionAssets } from '@/db/schema/collections'
 import { tags } from '@/db/schema/tags'
+import { refreshAssetSearchVectors } from '@/lib/search'
 import { createClient } from '@/lib/supabase/server'
-import { createSignedDownloadUrl, deleteFile } from '@/lib/supabase/storage'
+import {
+  createSignedDownloadUrl,
+  deleteFile,
+  PREVIEWS_BUCKET,
+} from '@/lib/supabase/storage'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -135,6 +141,8 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       }
     }
 
+    await refreshAssetSearchVectors([id])
+
     return NextResponse.json({ asset: updatedAsset })
   } catch (error) {
     console.error('Update asset error:', error)
@@ -183,9 +191,20 @@ export async function DELETE(_request: Request, { params }: RouteParams) {
       }
     }
 
+    if (asset.spritePath) {
+      try {
+        await deleteFile(supabase, PREVIEWS_BUCKET, asset.spritePath)
+      } catch {
+        console.warn('Failed to delete sprite sheet')
+      }
+    }
+
     // Delete asset tags
     await db.delete(assetTags).where(eq(assetTags.assetId, id))
 
+    // Remove asset from collections
+    await db.delete(collectionAssets).where(eq(collectionAssets.assetId, id))
+
     // Delete asset
     await db.delete(assets).where(eq(assets.id, id))
 
@@ -0,0 +1,62 @@
+import { and, eq } from 'drizzle-orm'
+import { NextResponse } from 'next/server'
+import { db } from '@/db'
+import { assets } from '@/db/schema/assets'
+import { addPreviewUrls, getAssetsWithTags } from '@/lib/assets'
+import { findSimilarAssets, parseMaxDistance } from '@/lib/similarity'
+import { createClient } from '@/lib/supabase/server'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [asset] = await db
+      .select()
+      .from(assets)
+      .where(and(eq(assets.id, id), eq(assets.ownerId, user.id)))
+
+    if (!asset) {
+      return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const similar = await findSimilarAssets(asset, {
+      maxDistance: parseMaxDistance(searchParams.get('maxDistance')),
+    })
+
+    const similarAssets = similar.map((row) => row.asset)
+    const tagsByAsset = await getAssetsWithTags(similarAssets.map((a) => a.id))
+    const withDetails = await addPreviewUrls(
+      supabase,
+      similarAssets,
+      tagsByAsset,
+    )
+
+    return NextResponse.json({
+      assets: withDetails.map((a, index) => ({
+        ...a,
+        distance: similar[index].distance,
+      })),
+      hasHash: asset.phash !== null,
+    })
+  } catch (error) {
+    console.error('Get similar assets error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch similar assets' },
+      { status: 500 },
+    )
+  }
+}
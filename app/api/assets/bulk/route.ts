@@ -0,0 +1,304 @@
+import { and, eq, inArray, max, type SQL, sql } from 'drizzle-orm'
+import { NextResponse } from 'next/server'
+import { db } from '@/db'
+import { type Asset, assets, assetTags } from '@/db/schema/assets'
+import { collectionAssets, collections } from '@/db/schema/collections'
+import { tags } from '@/db/schema/tags'
+import { buildWhereConditions, parseQueryParams } from '@/lib/assets'
+import { refreshAssetSearchVectors } from '@/lib/search'
+import { createClient } from '@/lib/supabase/server'
+import { deleteFiles, PREVIEWS_BUCKET } from '@/lib/supabase/storage'
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+// "Select all matching" can cover the whole library; statements take the IDs
+// in chunks to stay well under Postgres' 65535 bind parameter limit
+const ID_CHUNK_SIZE = 1000
+const INSERT_CHUNK_SIZE = 5000
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+interface BulkRequest {
+  // Either explicit asset IDs or a listing query string ("select all matching")
+  assetIds?: string[]
+  filter?: string
+  addTagIds?: string[]
+  removeTagIds?: string[]
+  sourcePlatform?: string
+  appendNotes?: string
+  collectionId?: string
+  delete?: boolean
+}
+
+// Resolve the request's selection to the user's own asset IDs
+async function resolveAssetIds(
+  userId: string,
+  body: BulkRequest,
+): Promise<string[]> {
+  const selectIds = async (conditions: (SQL | undefined)[]) => {
+    const rows = await db
+      .select({ id: assets.id })
+      .from(assets)
+      .where(and(...conditions))
+    return rows.map((row) => row.id)
+  }
+
+  if (typeof body.filter === 'string') {
+    return selectIds(
+      buildWhereConditions(
+        userId,
+        parseQueryParams(new URLSearchParams(body.filter)),
+      ),
+    )
+  }
+
+  const ids: string[] = []
+  for (const requested of chunk(body.assetIds ?? [], ID_CHUNK_SIZE)) {
+    ids.push(
+      ...(await selectIds([
+        eq(assets.ownerId, userId),
+        inArray(assets.id, requested),
+      ])),
+    )
+  }
+  return ids
+}
+
+async function getOwnedTagIds(userId: string, tagIds: string[] | undefined) {
+  if (!tagIds?.length) {
+    return []
+  }
+  const rows = await db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(and(inArray(tags.id, tagIds), eq(tags.ownerId, userId)))
+  return rows.map((row) => row.id)
+}
+
+async function addTags(tx: Transaction, assetIds: string[], tagIds: string[]) {
+  const existing = await tx
+    .select({ assetId: assetTags.assetId, tagId: assetTags.tagId })
+    .from(assetTags)
+    .where(
+      and(
+        inArray(assetTags.assetId, assetIds),
+        inArray(assetTags.tagId, tagIds),
+      ),
+    )
+  const existingPairs = new Set(
+    existing.map((row) => `${row.assetId}:${row.tagId}`),
+  )
+
+  const values = assetIds.flatMap((assetId) =>
+    tagIds
+      .filter((tagId) => !existingPairs.has(`${assetId}:${tagId}`))
+      .map((tagId) => ({ assetId, tagId })),
+  )
+  for (const batch of chunk(values, INSERT_CHUNK_SIZE)) {
+    await tx.insert(assetTags).values(batch)
+  }
+}
+
+// Append assets to the end of a collection, skipping existing members
+async function addToCollection(
+  tx: Transaction,
+  assetIds: string[],
+  collectionId: string,
+) {
+  const [{ maxPosition }] = await tx
+    .select({ maxPosition: max(collectionAssets.position) })
+    .from(collectionAssets)
+    .where(eq(collectionAssets.collectionId, collectionId))
+  const startPosition = (maxPosition ?? -1) + 1
+
+  const values = assetIds.map((assetId, index) => ({
+    collectionId,
+    assetId,
+    position: startPosition + index,
+  }))
+  for (const batch of chunk(values, INSERT_CHUNK_SIZE)) {
+    await tx.insert(collectionAssets).values(batch).onConflictDoNothing()
+  }
+
+  await tx
+    .update(collections)
+    .set({ updatedAt: new Date() })
+    .where(eq(collections.id, collectionId))
+}
+
+async function deleteAssets(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  assetIds: string[],
+) {
+  const deleted = await db.transaction(async (tx) => {
+    const rows: Asset[] = []
+    for (const ids of chunk(assetIds, ID_CHUNK_SIZE)) {
+      await tx.delete(assetTags).where(inArray(assetTags.assetId, ids))
+      await tx
+        .delete(collectionAssets)
+        .where(inArray(collectionAssets.assetId, ids))
+      rows.push(
+        ...(await tx.delete(assets).where(inArray(assets.id, ids)).returning()),
+      )
+    }
+    return rows
+  })
+
+  // Storage can't take part in the transaction, so clean up after commit
+  const pathsByBucket = new Map<string, string[]>()
+  const addPath = (bucket: string, path: string) => {
+    const paths = pathsByBucket.get(bucket) ?? []
+    paths.push(path)
+    pathsByBucket.set(bucket, paths)
+  }
+  for (const asset of deleted) {
+    addPath(asset.storageBucket, asset.storagePath)
+    if (asset.previewBucket && asset.previewPath) {
+      addPath(asset.previewBucket, asset.previewPath)
+    }
+    if (asset.spritePath) {
+      addPath(PREVIEWS_BUCKET, asset.spritePath)
+    }
+  }
+  for (const [bucket, paths] of pathsByBucket) {
+    try {
+      await deleteFiles(supabase, bucket, paths)
+    } catch (error) {
+      console.warn(`Failed to delete files from ${bucket}:`, error)
+    }
+  }
+
+  return deleted.length
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: BulkRequest = await request.json()
+
+    if (!(Array.isArray(body.assetIds) || typeof body.filter === 'string')) {
+      return NextResponse.json(
+        { error: 'Missing assetIds or filter' },
+        { status: 400 },
+      )
+    }
+
+    const appendNotes = body.appendNotes?.trim()
+    const hasUpdates =
+      !!body.addTagIds?.length ||
+      !!body.removeTagIds?.length ||
+      !!body.sourcePlatform ||
+      !!appendNotes ||
+      !!body.collectionId
+
+    if (body.delete && hasUpdates) {
+      return NextResponse.json(
+        { error: 'Delete cannot be combined with other actions' },
+        { status: 400 },
+      )
+    }
+    if (!(body.delete || hasUpdates)) {
+      return NextResponse.json({ error: 'No action given' }, { status: 400 })
+    }
+
+    const assetIds = await resolveAssetIds(user.id, body)
+    if (assetIds.length === 0) {
+      return NextResponse.json({ success: true, affected: 0 })
+    }
+
+    if (body.delete) {
+      const deleted = await deleteAssets(supabase, assetIds)
+      return NextResponse.json({ success: true, affected: deleted })
+    }
+
+    if (body.collectionId) {
+      const [collection] = await db
+        .select({ id: collections.id })
+        .from(collections)
+        .where(
+          and(
+            eq(collections.id, body.collectionId),
+            eq(collections.ownerId, user.id),
+          ),
+        )
+      if (!collection) {
+        return NextResponse.json(
+          { error: 'Collection not found' },
+          { status: 404 },
+        )
+      }
+    }
+
+    const [addTagIds, removeTagIds] = await Promise.all([
+      getOwnedTagIds(user.id, body.addTagIds),
+      getOwnedTagIds(user.id, body.removeTagIds),
+    ])
+
+    await db.transaction(async (tx) => {
+      for (const ids of chunk(assetIds, ID_CHUNK_SIZE)) {
+        if (removeTagIds.length > 0) {
+          await tx
+            .delete(assetTags)
+            .where(
+              and(
+                inArray(assetTags.assetId, ids),
+                inArray(assetTags.tagId, removeTagIds),
+              ),
+            )
+        }
+
+        if (addTagIds.length > 0) {
+          await addTags(tx, ids, addTagIds)
+        }
+
+        if (body.sourcePlatform || appendNotes) {
+          await tx
+            .update(assets)
+            .set({
+              ...(body.sourcePlatform && {
+                sourcePlatform: body.sourcePlatform,
+              }),
+              ...(appendNotes && {
+                notes: sql`case when coalesce(${assets.notes}, '') = '' then ${appendNotes} else ${assets.notes} || ${`\n\n${appendNotes}`} end`,
+              }),
+              updatedAt: new Date(),
+            })
+            .where(inArray(assets.id, ids))
+        }
+      }
+
+      if (body.collectionId) {
+        await addToCollection(tx, assetIds, body.collectionId)
+      }
+    })
+
+    if (addTagIds.length > 0 || removeTagIds.length > 0 || appendNotes) {
+      for (const ids of chunk(assetIds, ID_CHUNK_SIZE)) {
+        await refreshAssetSearchVectors(ids)
+      }
+    }
+
+    return NextResponse.json({ success: true, affected: assetIds.length })
+  } catch (error) {
+    console.error('Bulk update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update assets' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { inArray } from 'drizzle-orm'
+import { NextResponse } from 'next/server'
+import { db } from '@/db'
+import { assets } from '@/db/schema/assets'
+import { addPreviewUrls, getAssetsWithTags } from '@/lib/assets'
+import { findDuplicateGroups, parseMaxDistance } from '@/lib/similarity'
+import { createClient } from '@/lib/supabase/server'
+
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const maxDistance = parseMaxDistance(searchParams.get('maxDistance'))
+    const page = Math.max(
+      Number.parseInt(searchParams.get('page') || '1', 10) || 1,
+      1,
+    )
+    const limit = Math.min(
+      Number.parseInt(searchParams.get('limit') || '20', 10) || 20,
+      50,
+    )
+
+    const { groups: allGroups, truncated } = await findDuplicateGroups(
+      user.id,
+      maxDistance,
+    )
+    // Only the requested page of groups gets its previews signed
+    const groups = allGroups.slice((page - 1) * limit, page * limit)
+    const totalPages = Math.ceil(allGroups.length / limit)
+
+    const assetIds = groups.flat()
+    const groupAssets =
+      assetIds.length > 0
+        ? await db.select().from(assets).where(inArray(assets.id, assetIds))
+        : []
+    const tagsByAsset = await getAssetsWithTags(assetIds)
+    const withDetails = await addPreviewUrls(supabase, groupAssets, tagsByAsset)
+    const assetsById = new Map(withDetails.map((a) => [a.id, a]))
+
+    return NextResponse.json({
+      groups: groups.map((group) => ({
+        assets: group.flatMap((assetId) => assetsById.get(assetId) ?? []),
+      })),
+      maxDistance,
+      truncated,
+      pagination: {
+        page,
+        limit,
+        totalCount: allGroups.length,
+        totalPages,
+        hasMore: page < totalPages,
+      },
+    })
+  } catch (error) {
+    console.error('Find duplicates error:', error)
+    return NextResponse.json(
+      { error: 'Failed to find duplicates' },
+      { status: 500 },
+    )
+  }
+}
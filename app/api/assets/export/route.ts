@@ -0,0 +1,72 @@
+import { format } from 'date-fns'
+import { and, desc, eq, inArray } from 'drizzle-orm'
+import { NextResponse } from 'next/server'
+import { db } from '@/db'
+import { assets } from '@/db/schema/assets'
+import {
+  buildWhereConditions,
+  getAssetsWithTags,
+  parseQueryParams,
+} from '@/lib/assets'
+import { createExportStream } from '@/lib/export'
+import { createClient } from '@/lib/supabase/server'
+
+// Export assets as a ZIP: ?ids=a,b,c for a selection, otherwise the same
+// filter params as GET /api/assets
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const ids = searchParams.get('ids')?.split(',').filter(Boolean)
+
+    const conditions = ids
+      ? [
+          eq(assets.ownerId, user.id),
+          eq(assets.status, 'ready'),
+          inArray(assets.id, ids),
+        ]
+      : buildWhereConditions(user.id, parseQueryParams(searchParams))
+
+    const exportAssets = await db
+      .select()
+      .from(assets)
+      .where(and(...conditions))
+      .orderBy(desc(assets.createdAt), desc(assets.id))
+
+    if (exportAssets.length === 0) {
+      return NextResponse.json(
+        { error: 'No assets to export' },
+        { status: 404 },
+      )
+    }
+
+    const tagsByAsset = await getAssetsWithTags(exportAssets.map((a) => a.id))
+    const filename = `adstash-export-${format(new Date(), 'yyyy-MM-dd')}.zip`
+
+    return new Response(
+      createExportStream(supabase, exportAssets, tagsByAsset),
+      {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-store',
+        },
+      },
+    )
+  } catch (error) {
+    console.error('Export assets error:', error)
+    return NextResponse.json(
+      { error: 'Failed to export assets' },
+      { status: 500 },
+    )
+  }
+}
@@ -1,7 +1,11 @@
 import { and, eq } from 'drizzle-orm'
-import { NextResponse } from 'next/server'
+import { after, NextResponse } from 'next/server'
 import { db } from '@/db'
 import { assets } from '@/db/schema/assets'
+import { addAssetTags } from '@/lib/assets'
+import { enqueueJob, runJobs } from '@/lib/jobs'
+import { refreshAssetSearchVectors } from '@/lib/search'
+import { normalizePhash } from '@/lib/similarity'
 import { createClient } from '@/lib/supabase/server'
 
 interface FinalizeUploadRequest {
@@ -10,8 +14,11 @@ interface FinalizeUploadRequest {
   height?: number
   durationSeconds?: number
   sha256?: string
+  phash?: string
+  spriteFrames?: number
   sizeBytes?: number
   notes?: string
+  tagIds?: string[]
 }
 
 export async function POST(request: Request) {
@@ -33,8 +40,11 @@ export async function POST(request: Request) {
       height,
       durationSeconds,
       sha256,
+      phash,
+      spriteFrames,
       sizeBytes,
       notes,
+      tagIds,
     } = body
 
     if (!assetId) {
@@ -50,6 +60,8 @@ export async function POST(request: Request) {
         height: height || null,
         durationSeconds: durationSeconds?.toString() || null,
         sha256: sha256 || null,
+        phash: normalizePhash(phash),
+        spriteFrames: spriteFrames || null,
         sizeBytes: sizeBytes || null,
         notes: notes || null,
         updatedAt: new Date(),
@@ -61,6 +73,16 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Asset not found' }, { status: 404 })
     }
 
+    if (Array.isArray(tagIds)) {
+      await addAssetTags(assetId, user.id, tagIds)
+    }
+
+    await refreshAssetSearchVectors([assetId])
+
+    // Fill in previews and metadata the client couldn't provide
+    await enqueueJob('process_asset', { ownerId: user.id, assetId })
+    after(() => runJobs())
+
     return NextResponse.json({ asset: updatedAsset })
   } catch (error) {
     console.error('Finalize upload error:', error)
@@ -0,0 +1,62 @@
+import { after, NextResponse } from 'next/server'
+import { isDuplicatePolicy } from '@/lib/duplicates'
+import { runJobs } from '@/lib/jobs'
+import { RemoteMediaError } from '@/lib/remote-media'
+import { createClient } from '@/lib/supabase/server'
+import { importFromUrl, type UrlImportOptions } from '@/lib/url-import'
+
+export const maxDuration = 120
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: UrlImportOptions = await request.json()
+    const url = body.url?.trim()
+
+    if (!url) {
+      return NextResponse.json(
+        { error: 'Missing required field: url' },
+        { status: 400 },
+      )
+    }
+
+    if (
+      body.onDuplicate !== undefined &&
+      !isDuplicatePolicy(body.onDuplicate)
+    ) {
+      return NextResponse.json(
+        { error: 'Invalid onDuplicate policy' },
+        { status: 400 },
+      )
+    }
+
+    const result = await importFromUrl(supabase, user.id, { ...body, url })
+    if (!result.duplicate) {
+      after(() => runJobs())
+    }
+
+    return NextResponse.json({
+      assetId: result.asset.id,
+      duplicate: result.duplicate,
+      asset: result.asset,
+    })
+  } catch (error) {
+    if (error instanceof RemoteMediaError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+    console.error('Import from URL error:', error)
+    return NextResponse.json(
+      { error: 'Failed to import from URL' },
+      { status: 500 },
+    )
+  }
+}
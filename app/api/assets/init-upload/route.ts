@@ -1,7 +1,16 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { and, eq } from 'drizzle-orm'
 import { NextResponse } from 'next/server'
 import { db } from '@/db'
 import { assets } from '@/db/schema/assets'
 import { detectSourceFromUrl } from '@/db/schema/sources'
+import {
+  DEFAULT_DUPLICATE_POLICY,
+  type DuplicatePolicy,
+  isDuplicatePolicy,
+  resolveDuplicateAsset,
+} from '@/lib/duplicates'
+import { refreshAssetSearchVectors } from '@/lib/search'
 import { createClient } from '@/lib/supabase/server'
 import {
   ASSETS_BUCKET,
@@ -9,6 +18,7 @@ import {
   generateAssetPath,
   PREVIEWS_BUCKET,
 } from '@/lib/supabase/storage'
+import { MAX_FILE_SIZE, MAX_FILE_SIZE_MB } from '@/lib/upload'
 
 interface InitUploadRequest {
   filename: string
@@ -16,6 +26,102 @@ interface InitUploadRequest {
   sizeBytes?: number
   sourcePlatform?: string
   captureUrl?: string
+  sha256?: string
+  onDuplicate?: DuplicatePolicy
+  // Merged onto the existing asset with onDuplicate: 'link'
+  tagIds?: string[]
+  notes?: string
+  // Asset of an interrupted upload to continue
+  resumeAssetId?: string
+}
+
+// Signed upload URLs for the original, preview and (videos only) sprite
+async function signUploads(
+  supabase: SupabaseClient,
+  {
+    storagePath,
+    previewPath,
+    spritePath,
+  }: { storagePath: string; previewPath: string; spritePath: string | null },
+  // Resumed uploads may overwrite files a failed attempt already wrote
+  upsert = false,
+) {
+  const [assetUpload, previewUpload, spriteUpload] = await Promise.all([
+    createSignedUploadUrl(supabase, {
+      bucket: ASSETS_BUCKET,
+      path: storagePath,
+      upsert,
+    }),
+    createSignedUploadUrl(supabase, {
+      bucket: PREVIEWS_BUCKET,
+      path: previewPath,
+      upsert,
+    }),
+    spritePath
+      ? createSignedUploadUrl(supabase, {
+          bucket: PREVIEWS_BUCKET,
+          path: spritePath,
+          upsert,
+        })
+      : null,
+  ])
+
+  return {
+    assetUpload: {
+      signedUrl: assetUpload.signedUrl,
+      token: assetUpload.token,
+      path: assetUpload.path,
+    },
+    previewUpload: {
+      signedUrl: previewUpload.signedUrl,
+      token: previewUpload.token,
+      path: previewUpload.path,
+    },
+    spriteUpload: spriteUpload && {
+      signedUrl: spriteUpload.signedUrl,
+      token: spriteUpload.token,
+      path: spriteUpload.path,
+    },
+  }
+}
+
+// Fresh upload URLs for an asset whose upload was interrupted
+async function resumeUpload(
+  supabase: SupabaseClient,
+  userId: string,
+  assetId: string,
+) {
+  const [asset] = await db
+    .select()
+    .from(assets)
+    .where(
+      and(
+        eq(assets.id, assetId),
+        eq(assets.ownerId, userId),
+        eq(assets.status, 'uploading'),
+      ),
+    )
+  if (!asset?.previewPath) {
+    return NextResponse.json(
+      { error: 'Upload not found or already finished' },
+      { status: 404 },
+    )
+  }
+
+  const uploads = await signUploads(
+    supabase,
+    {
+      storagePath: asset.storagePath,
+      previewPath: asset.previewPath,
+      spritePath: asset.spritePath,
+    },
+    true,
+  )
+  return NextResponse.json({
+    assetId: asset.id,
+    duplicate: false,
+    ...uploads,
+  })
 }
 
 export async function POST(request: Request) {
@@ -31,7 +137,22 @@ export async function POST(request: Request) {
     }
 
     const body: InitUploadRequest = await request.json()
-    const { filename, mimeType, sizeBytes, sourcePlatform, captureUrl } = body
+    const {
+      filename,
+      mimeType,
+      sizeBytes,
+      sourcePlatform,
+      captureUrl,
+      sha256,
+      onDuplicate,
+      tagIds,
+      notes,
+      resumeAssetId,
+    } = body
+
+    if (resumeAssetId) {
+      return await resumeUpload(supabase, user.id, resumeAssetId)
+    }
 
     if (!(filename && mimeType)) {
       return NextResponse.json(
@@ -40,6 +161,38 @@ export async function POST(request: Request) {
       )
     }
 
+    if (sizeBytes && sizeBytes > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `File exceeds the ${MAX_FILE_SIZE_MB}MB upload limit` },
+        { status: 413 },
+      )
+    }
+
+    if (onDuplicate !== undefined && !isDuplicatePolicy(onDuplicate)) {
+      return NextResponse.json(
+        { error: 'Invalid onDuplicate policy' },
+        { status: 400 },
+      )
+    }
+
+    // Return the existing asset instead of storing the same file twice
+    const duplicate = await resolveDuplicateAsset(user.id, {
+      sha256,
+      policy: onDuplicate ?? DEFAULT_DUPLICATE_POLICY,
+      tagIds,
+      notes,
+    })
+    if (duplicate) {
+      return NextResponse.json({
+        assetId: duplicate.id,
+        duplicate: true,
+        asset: duplicate,
+        assetUpload: null,
+        previewUpload: null,
+        spriteUpload: null,
+      })
+    }
+
     // Generate storage paths
     const storagePath = generateAssetPath(user.id, filename)
     const previewPath = generateAssetPath(
@@ -47,6 +200,10 @@ export async function POST(request: Request) {
       `preview-${filename}`,
       'previews',
     )
+    // Videos also get a hover-scrub sprite sheet
+    const spritePath = mimeType.startsWith('video/')
+      ? generateAssetPath(user.id, `sprite-${filename}`, 'previews')
+      : null
 
     // Create asset record in draft status
     const [asset] = await db
@@ -62,37 +219,27 @@ export async function POST(request: Request) {
         originalFilename: filename,
         mimeType,
         sizeBytes: sizeBytes || null,
+        sha256: sha256?.toLowerCase() || null,
         storageBucket: ASSETS_BUCKET,
         storagePath,
         previewBucket: PREVIEWS_BUCKET,
         previewPath,
+        spritePath,
       })
       .returning()
 
-    // Create signed upload URLs
-    const [assetUpload, previewUpload] = await Promise.all([
-      createSignedUploadUrl(supabase, {
-        bucket: ASSETS_BUCKET,
-        path: storagePath,
-      }),
-      createSignedUploadUrl(supabase, {
-        bucket: PREVIEWS_BUCKET,
-        path: previewPath,
-      }),
-    ])
+    await refreshAssetSearchVectors([asset.id])
+
+    const uploads = await signUploads(supabase, {
+      storagePath,
+      previewPath,
+      spritePath,
+    })
 
     return NextResponse.json({
       assetId: asset.id,
-      assetUpload: {
-        signedUrl: assetUpload.signedUrl,
-        token: assetUpload.token,
-        path: assetUpload.path,
-      },
-      previewUpload: {
-        signedUrl: previewUpload.signedUrl,
-        token: previewUpload.token,
-        path: previewUpload.path,
-      },
+      duplicate: false,
+      ...uploads,
     })
   } catch (error) {
     console.error('Init upload error:', error)
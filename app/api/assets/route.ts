@@ -1,141 +1,155 @@
-import {
-  and,
-  count,
-  desc,
-  eq,
-  gte,
-  ilike,
-  inArray,
-  lte,
-  or,
-  sql,
-} from 'drizzle-orm'
+import { and, count, desc, eq, type SQL, sql } from 'drizzle-orm'
 import { NextResponse } from 'next/server'
 import { db } from '@/db'
-import { assets, assetTags } from '@/db/schema/assets'
-import { tags } from '@/db/schema/tags'
+import { assets } from '@/db/schema/assets'
+import {
+  addPreviewUrls,
+  buildWhereConditions,
+  getAssetsWithTags,
+  parseQueryParams,
+  type QueryParams,
+} from '@/lib/assets'
+import { buildTsQuery, searchRank } from '@/lib/search'
 import { createClient } from '@/lib/supabase/server'
-import { createSignedDownloadUrl } from '@/lib/supabase/storage'
-
-interface QueryParams {
-  page: number
-  limit: number
-  search: string
-  sourcePlatform: string
-  mimeTypeFilter: string
-  tagIds: string[]
-  fromDate: string
-  toDate: string
-}
 
-function parseQueryParams(searchParams: URLSearchParams): QueryParams {
-  return {
-    page: Number.parseInt(searchParams.get('page') || '1', 10),
-    limit: Math.min(
-      Number.parseInt(searchParams.get('limit') || '24', 10),
-      100,
-    ),
-    search: searchParams.get('search') || '',
-    sourcePlatform: searchParams.get('source') || '',
-    mimeTypeFilter: searchParams.get('type') || '',
-    tagIds: searchParams.get('tags')?.split(',').filter(Boolean) || [],
-    fromDate: searchParams.get('from') || '',
-    toDate: searchParams.get('to') || '',
-  }
-}
+// Cursor values are cast in SQL, so anything Postgres would reject is a 400
+const CURSOR_TIMESTAMP_REGEX =
+  /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}(:?\d{2})?)?$/
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
-function buildWhereConditions(
-  userId: string,
-  params: QueryParams,
-): ReturnType<typeof and>[] {
-  const conditions: ReturnType<typeof and>[] = [
-    eq(assets.ownerId, userId),
-    eq(assets.status, 'ready'),
-  ]
-
-  if (params.search) {
-    const searchCondition = or(
-      ilike(assets.originalFilename, `%${params.search}%`),
-      ilike(assets.notes, `%${params.search}%`),
-    )
-    if (searchCondition) {
-      conditions.push(searchCondition)
-    }
-  }
-
-  if (params.sourcePlatform) {
-    conditions.push(eq(assets.sourcePlatform, params.sourcePlatform))
-  }
+interface AssetCursor {
+  createdAt: string
+  id: string
+  rank?: string
+}
 
-  if (params.mimeTypeFilter === 'image') {
-    conditions.push(ilike(assets.mimeType, 'image/%'))
-  } else if (params.mimeTypeFilter === 'video') {
-    conditions.push(ilike(assets.mimeType, 'video/%'))
-  }
+function encodeCursor(cursor: AssetCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
 
-  if (params.fromDate) {
-    conditions.push(gte(assets.createdAt, new Date(params.fromDate)))
+// Postgres rejects days a month doesn't have, which Date.parse rolls over
+function isValidTimestamp(value: unknown): value is string {
+  if (!(typeof value === 'string' && CURSOR_TIMESTAMP_REGEX.test(value))) {
+    return false
   }
+  const day = value.slice(0, 10)
+  const parsed = new Date(`${day}T00:00:00Z`)
+  return (
+    !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === day &&
+    !Number.isNaN(Date.parse(value))
+  )
+}
 
-  if (params.toDate) {
-    conditions.push(lte(assets.createdAt, new Date(params.toDate)))
+function decodeCursor(value: string): AssetCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString())
+    if (
+      !(
+        isValidTimestamp(cursor?.createdAt) &&
+        typeof cursor.id === 'string' &&
+        UUID_REGEX.test(cursor.id) &&
+        (cursor.rank === undefined ||
+          (typeof cursor.rank === 'string' &&
+            cursor.rank.trim() !== '' &&
+            Number.isFinite(Number(cursor.rank))))
+      )
+    ) {
+      return null
+    }
+    return cursor
+  } catch {
+    return null
   }
-
-  return conditions
 }
 
-async function getAssetsWithTags(assetIds: string[]) {
-  if (assetIds.length === 0) {
-    return new Map<string, (typeof tags.$inferSelect)[]>()
+// Keyset condition: rows strictly after the cursor in the listing order
+function buildCursorCondition(cursor: AssetCursor, tsQuery: string | null) {
+  if (tsQuery && cursor.rank !== undefined) {
+    return sql`(${searchRank(tsQuery)}, ${assets.createdAt}, ${assets.id}) < (${cursor.rank}::real, ${cursor.createdAt}::timestamptz, ${cursor.id}::uuid)`
   }
+  return sql`(${assets.createdAt}, ${assets.id}) < (${cursor.createdAt}::timestamptz, ${cursor.id}::uuid)`
+}
 
-  const assetTagsData = await db
+// Build the cursor for the last row of a page, keeping full timestamp
+// precision (JS dates truncate Postgres microseconds)
+async function getNextCursor(
+  assetId: string,
+  tsQuery: string | null,
+): Promise<string> {
+  const [row] = await db
     .select({
-      assetId: assetTags.assetId,
-      tag: tags,
+      createdAt: sql<string>`${assets.createdAt}::text`,
+      rank: tsQuery
+        ? sql<string>`${searchRank(tsQuery)}::text`
+        : sql<null>`null`,
     })
-    .from(assetTags)
-    .innerJoin(tags, eq(assetTags.tagId, tags.id))
-    .where(inArray(assetTags.assetId, assetIds))
-
-  const tagsByAsset = new Map<string, (typeof tags.$inferSelect)[]>()
-  for (const row of assetTagsData) {
-    const existing = tagsByAsset.get(row.assetId) || []
-    existing.push(row.tag)
-    tagsByAsset.set(row.assetId, existing)
-  }
-
-  return tagsByAsset
+    .from(assets)
+    .where(eq(assets.id, assetId))
+
+  return encodeCursor({
+    createdAt: row.createdAt,
+    id: assetId,
+    ...(row.rank !== null && { rank: row.rank }),
+  })
 }
 
-function addPreviewUrls(
+// Keyset pagination: stable while new captures arrive, no deep OFFSET scans.
+// The total count is only computed for the first page.
+async function getCursorPage(
   supabase: Awaited<ReturnType<typeof createClient>>,
-  assetResults: (typeof assets.$inferSelect)[],
-  tagsByAsset: Map<string, (typeof tags.$inferSelect)[]>,
+  params: QueryParams,
+  conditions: ReturnType<typeof and>[],
+  orderBy: SQL[],
+  tsQuery: string | null,
 ) {
-  return Promise.all(
-    assetResults.map(async (asset) => {
-      let previewUrl: string | null = null
-      try {
-        if (asset.previewBucket && asset.previewPath) {
-          const urlData = await createSignedDownloadUrl(supabase, {
-            bucket: asset.previewBucket,
-            path: asset.previewPath,
-            expiresIn: 3600,
-          })
-          previewUrl = urlData.signedUrl
-        }
-      } catch {
-        // Preview not available
-      }
-
-      return {
-        ...asset,
-        previewUrl,
-        tags: tagsByAsset.get(asset.id) || [],
-      }
-    }),
+  const cursor = params.cursor ? decodeCursor(params.cursor) : null
+  if (params.cursor && !cursor) {
+    return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 })
+  }
+
+  const pageConditions = cursor
+    ? [...conditions, buildCursorCondition(cursor, tsQuery)]
+    : conditions
+
+  const [rows, countResult] = await Promise.all([
+    db
+      .select()
+      .from(assets)
+      .where(and(...pageConditions))
+      .orderBy(...orderBy)
+      .limit(params.limit + 1),
+    cursor
+      ? Promise.resolve(null)
+      : db
+          .select({ count: count() })
+          .from(assets)
+          .where(and(...conditions)),
+  ])
+
+  const hasMore = rows.length > params.limit
+  const assetResults = hasMore ? rows.slice(0, params.limit) : rows
+  const lastAsset = assetResults.at(-1)
+  const nextCursor =
+    hasMore && lastAsset ? await getNextCursor(lastAsset.id, tsQuery) : null
+
+  const tagsByAsset = await getAssetsWithTags(assetResults.map((a) => a.id))
+  const assetsWithUrls = await addPreviewUrls(
+    supabase,
+    assetResults,
+    tagsByAsset,
   )
+
+  return NextResponse.json({
+    assets: assetsWithUrls,
+    pagination: {
+      limit: params.limit,
+      nextCursor,
+      hasMore,
+      ...(countResult && { totalCount: countResult[0]?.count || 0 }),
+    },
+  })
 }
 
 export async function GET(request: Request) {
@@ -152,40 +166,27 @@ export async function GET(request: Request) {
 
     const { searchParams } = new URL(request.url)
     const params = parseQueryParams(searchParams)
-    const offset = (params.page - 1) * params.limit
-
     const conditions = buildWhereConditions(user.id, params)
 
-    // Build asset query
-    let assetQuery = db
-      .select()
-      .from(assets)
-      .where(and(...conditions))
-      .orderBy(desc(assets.createdAt))
-      .limit(params.limit)
-      .offset(offset)
-
-    if (params.tagIds.length > 0) {
-      const assetsWithTags = db
-        .select({ assetId: assetTags.assetId })
-        .from(assetTags)
-        .where(inArray(assetTags.tagId, params.tagIds))
-        .groupBy(assetTags.assetId)
-        .having(
-          sql`count(distinct ${assetTags.tagId}) = ${params.tagIds.length}`,
-        )
-
-      assetQuery = db
-        .select()
-        .from(assets)
-        .where(and(...conditions, inArray(assets.id, assetsWithTags)))
-        .orderBy(desc(assets.createdAt))
-        .limit(params.limit)
-        .offset(offset)
+    // Rank search results by relevance, newest first otherwise
+    const tsQuery = buildTsQuery(params.search)
+    const orderBy: SQL[] = tsQuery
+      ? [desc(searchRank(tsQuery)), desc(assets.createdAt), desc(assets.id)]
+      : [desc(assets.createdAt), desc(assets.id)]
+
+    if (params.cursor !== null) {
+      return await getCursorPage(supabase, params, conditions, orderBy, tsQuery)
     }
 
+    const offset = (params.page - 1) * params.limit
     const [assetResults, countResult] = await Promise.all([
-      assetQuery,
+      db
+        .select()
+        .from(assets)
+        .where(and(...conditions))
+        .orderBy(...orderBy)
+        .limit(params.limit)
+        .offset(offset),
       db
         .select({ count: count() })
         .from(assets)
@@ -0,0 +1,213 @@
+import { and, eq, inArray, max } from 'drizzle-orm'
+import { NextResponse } from 'next/server'
+import { db } from '@/db'
+import { assets } from '@/db/schema/assets'
+import { collectionAssets, collections } from '@/db/schema/collections'
+import { createClient } from '@/lib/supabase/server'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+interface CollectionAssetsRequest {
+  assetIds: string[]
+}
+
+async function getOwnedCollection(id: string, userId: string) {
+  const [collection] = await db
+    .select()
+    .from(collections)
+    .where(and(eq(collections.id, id), eq(collections.ownerId, userId)))
+  return collection
+}
+
+function touchCollection(id: string) {
+  return db
+    .update(collections)
+    .set({ updatedAt: new Date() })
+    .where(eq(collections.id, id))
+}
+
+// Add assets to the end of a collection
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: CollectionAssetsRequest = await request.json()
+    const { assetIds } = body
+
+    if (!Array.isArray(assetIds) || assetIds.length === 0) {
+      return NextResponse.json({ error: 'Missing assetIds' }, { status: 400 })
+    }
+
+    const collection = await getOwnedCollection(id, user.id)
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 },
+      )
+    }
+
+    // Only allow the user's own assets
+    const ownedAssets = await db
+      .select({ id: assets.id })
+      .from(assets)
+      .where(and(inArray(assets.id, assetIds), eq(assets.ownerId, user.id)))
+    const ownedIds = new Set(ownedAssets.map((a) => a.id))
+
+    const [{ maxPosition }] = await db
+      .select({ maxPosition: max(collectionAssets.position) })
+      .from(collectionAssets)
+      .where(eq(collectionAssets.collectionId, id))
+    const startPosition = (maxPosition ?? -1) + 1
+
+    const values = assetIds
+      .filter((assetId) => ownedIds.has(assetId))
+      .map((assetId, index) => ({
+        collectionId: id,
+        assetId,
+        position: startPosition + index,
+      }))
+
+    // Assets already in the collection are skipped, not counted
+    const added =
+      values.length > 0
+        ? await db
+            .insert(collectionAssets)
+            .values(values)
+            .onConflictDoNothing()
+            .returning({ assetId: collectionAssets.assetId })
+        : []
+    if (added.length > 0) {
+      await touchCollection(id)
+    }
+
+    return NextResponse.json({ success: true, added: added.length })
+  } catch (error) {
+    console.error('Add collection assets error:', error)
+    return NextResponse.json(
+      { error: 'Failed to add assets to collection' },
+      { status: 500 },
+    )
+  }
+}
+
+// Reorder assets: assetIds is the full new order of the collection
+export async function PUT(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: CollectionAssetsRequest = await request.json()
+    const { assetIds } = body
+
+    if (!Array.isArray(assetIds)) {
+      return NextResponse.json({ error: 'Missing assetIds' }, { status: 400 })
+    }
+
+    const collection = await getOwnedCollection(id, user.id)
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 },
+      )
+    }
+
+    await db.transaction(async (tx) => {
+      for (const [position, assetId] of assetIds.entries()) {
+        await tx
+          .update(collectionAssets)
+          .set({ position })
+          .where(
+            and(
+              eq(collectionAssets.collectionId, id),
+              eq(collectionAssets.assetId, assetId),
+            ),
+          )
+      }
+    })
+    await touchCollection(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Reorder collection assets error:', error)
+    return NextResponse.json(
+      { error: 'Failed to reorder collection' },
+      { status: 500 },
+    )
+  }
+}
+
+// Remove assets from a collection (the assets themselves are kept)
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: CollectionAssetsRequest = await request.json()
+    const { assetIds } = body
+
+    if (!Array.isArray(assetIds) || assetIds.length === 0) {
+      return NextResponse.json({ error: 'Missing assetIds' }, { status: 400 })
+    }
+
+    const collection = await getOwnedCollection(id, user.id)
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 },
+      )
+    }
+
+    await db
+      .delete(collectionAssets)
+      .where(
+        and(
+          eq(collectionAssets.collectionId, id),
+          inArray(collectionAssets.assetId, assetIds),
+        ),
+      )
+
+    // Clear the cover if it was removed
+    if (collection.coverAssetId && assetIds.includes(collection.coverAssetId)) {
+      await db
+        .update(collections)
+        .set({ coverAssetId: null })
+        .where(eq(collections.id, id))
+    }
+    await touchCollection(id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Remove collection assets error:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove assets from collection' },
+      { status: 500 },
+    )
+  }
+}
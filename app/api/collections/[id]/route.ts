@@ -0,0 +1,214 @@
+import { and, asc, eq, inArray } from 'drizzle-orm'
+import { NextResponse } from 'next/server'
+import { db } from '@/db'
+import { assets, assetTags } from '@/db/schema/assets'
+import { collectionAssets, collections } from '@/db/schema/collections'
+import { tags } from '@/db/schema/tags'
+import { getSpriteUrl } from '@/lib/assets'
+import { createClient } from '@/lib/supabase/server'
+import { createSignedDownloadUrl } from '@/lib/supabase/storage'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [collection] = await db
+      .select()
+      .from(collections)
+      .where(and(eq(collections.id, id), eq(collections.ownerId, user.id)))
+
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 },
+      )
+    }
+
+    // Get assets in collection order
+    const rows = await db
+      .select({ asset: assets, position: collectionAssets.position })
+      .from(collectionAssets)
+      .innerJoin(assets, eq(collectionAssets.assetId, assets.id))
+      .where(eq(collectionAssets.collectionId, id))
+      .orderBy(asc(collectionAssets.position), asc(collectionAssets.addedAt))
+
+    const assetIds = rows.map((row) => row.asset.id)
+    const assetTagsData =
+      assetIds.length > 0
+        ? await db
+            .select({ assetId: assetTags.assetId, tag: tags })
+            .from(assetTags)
+            .innerJoin(tags, eq(assetTags.tagId, tags.id))
+            .where(inArray(assetTags.assetId, assetIds))
+        : []
+
+    const assetsWithDetails = await Promise.all(
+      rows.map(async ({ asset }) => {
+        let previewUrl: string | null = null
+        try {
+          if (asset.previewBucket && asset.previewPath) {
+            const urlData = await createSignedDownloadUrl(supabase, {
+              bucket: asset.previewBucket,
+              path: asset.previewPath,
+              expiresIn: 3600,
+            })
+            previewUrl = urlData.signedUrl
+          }
+        } catch {
+          // Preview not available
+        }
+
+        return {
+          ...asset,
+          previewUrl,
+          spriteUrl: await getSpriteUrl(supabase, asset),
+          tags: assetTagsData
+            .filter((row) => row.assetId === asset.id)
+            .map((row) => row.tag),
+        }
+      }),
+    )
+
+    return NextResponse.json({
+      collection: {
+        ...collection,
+        assets: assetsWithDetails,
+      },
+    })
+  } catch (error) {
+    console.error('Get collection error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch collection' },
+      { status: 500 },
+    )
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { name, description, coverAssetId } = body
+
+    if (name !== undefined && !(typeof name === 'string' && name.trim())) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+    }
+
+    const updateData: Record<string, unknown> = { updatedAt: new Date() }
+    if (name !== undefined) {
+      updateData.name = name.trim()
+    }
+    if (description !== undefined) {
+      updateData.description = description?.trim() || null
+    }
+    if (coverAssetId !== undefined) {
+      if (coverAssetId) {
+        // Cover must be one of the collection's assets
+        const [member] = await db
+          .select()
+          .from(collectionAssets)
+          .where(
+            and(
+              eq(collectionAssets.collectionId, id),
+              eq(collectionAssets.assetId, coverAssetId),
+            ),
+          )
+        if (!member) {
+          return NextResponse.json(
+            { error: 'Cover asset must belong to the collection' },
+            { status: 400 },
+          )
+        }
+      }
+      updateData.coverAssetId = coverAssetId || null
+    }
+
+    const [updatedCollection] = await db
+      .update(collections)
+      .set(updateData)
+      .where(and(eq(collections.id, id), eq(collections.ownerId, user.id)))
+      .returning()
+
+    if (!updatedCollection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 },
+      )
+    }
+
+    return NextResponse.json({ collection: updatedCollection })
+  } catch (error) {
+    console.error('Update collection error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update collection' },
+      { status: 500 },
+    )
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Verify ownership
+    const [collection] = await db
+      .select()
+      .from(collections)
+      .where(and(eq(collections.id, id), eq(collections.ownerId, user.id)))
+
+    if (!collection) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 },
+      )
+    }
+
+    // Delete collection-asset relationships (assets themselves are kept)
+    await db
+      .delete(collectionAssets)
+      .where(eq(collectionAssets.collectionId, id))
+
+    // Delete collection
+    await db.delete(collections).where(eq(collections.id, id))
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete collection error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete collection' },
+      { status: 500 },
+    )
+  }
+}
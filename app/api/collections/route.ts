@@ -0,0 +1,181 @@
+import { and, asc, count, desc, eq, inArray } from 'drizzle-orm'
+import { NextResponse } from 'next/server'
+import { db } from '@/db'
+import { assets } from '@/db/schema/assets'
+import { collectionAssets, collections } from '@/db/schema/collections'
+import { createClient } from '@/lib/supabase/server'
+import { createSignedDownloadUrl } from '@/lib/supabase/storage'
+
+async function getCoverAssets(
+  collectionList: (typeof collections.$inferSelect)[],
+) {
+  const coversByCollection = new Map<string, typeof assets.$inferSelect>()
+  if (collectionList.length === 0) {
+    return coversByCollection
+  }
+
+  // Explicit covers
+  const coverIds = collectionList
+    .map((c) => c.coverAssetId)
+    .filter((id): id is string => !!id)
+  if (coverIds.length > 0) {
+    const coverAssets = await db
+      .select()
+      .from(assets)
+      .where(inArray(assets.id, coverIds))
+    for (const collection of collectionList) {
+      const cover = coverAssets.find((a) => a.id === collection.coverAssetId)
+      if (cover) {
+        coversByCollection.set(collection.id, cover)
+      }
+    }
+  }
+
+  // Fall back to the first asset in each remaining collection
+  const withoutCover = collectionList
+    .filter((c) => !coversByCollection.has(c.id))
+    .map((c) => c.id)
+  if (withoutCover.length > 0) {
+    const firstAssets = await db
+      .selectDistinctOn([collectionAssets.collectionId], {
+        collectionId: collectionAssets.collectionId,
+        asset: assets,
+      })
+      .from(collectionAssets)
+      .innerJoin(assets, eq(collectionAssets.assetId, assets.id))
+      .where(inArray(collectionAssets.collectionId, withoutCover))
+      .orderBy(collectionAssets.collectionId, asc(collectionAssets.position))
+    for (const row of firstAssets) {
+      coversByCollection.set(row.collectionId, row.asset)
+    }
+  }
+
+  return coversByCollection
+}
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userCollections = await db
+      .select()
+      .from(collections)
+      .where(eq(collections.ownerId, user.id))
+      .orderBy(desc(collections.updatedAt))
+
+    const collectionIds = userCollections.map((c) => c.id)
+    const counts =
+      collectionIds.length > 0
+        ? await db
+            .select({
+              collectionId: collectionAssets.collectionId,
+              count: count(),
+            })
+            .from(collectionAssets)
+            .where(inArray(collectionAssets.collectionId, collectionIds))
+            .groupBy(collectionAssets.collectionId)
+        : []
+
+    const coversByCollection = await getCoverAssets(userCollections)
+
+    const collectionsWithDetails = await Promise.all(
+      userCollections.map(async (collection) => {
+        const cover = coversByCollection.get(collection.id)
+        let coverUrl: string | null = null
+        try {
+          if (cover?.previewBucket && cover.previewPath) {
+            const urlData = await createSignedDownloadUrl(supabase, {
+              bucket: cover.previewBucket,
+              path: cover.previewPath,
+              expiresIn: 3600,
+            })
+            coverUrl = urlData.signedUrl
+          }
+        } catch {
+          // Preview not available
+        }
+
+        return {
+          ...collection,
+          coverUrl,
+          assetCount:
+            counts.find((c) => c.collectionId === collection.id)?.count || 0,
+        }
+      }),
+    )
+
+    return NextResponse.json({ collections: collectionsWithDetails })
+  } catch (error) {
+    console.error('Get collections error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch collections' },
+      { status: 500 },
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { name, description, assetIds } = body
+
+    if (!name?.trim()) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+    }
+
+    const [newCollection] = await db
+      .insert(collections)
+      .values({
+        ownerId: user.id,
+        name: name.trim(),
+        description: description?.trim() || null,
+      })
+      .returning()
+
+    // Optionally seed the collection with assets
+    if (Array.isArray(assetIds) && assetIds.length > 0) {
+      const ownedAssets = await db
+        .select({ id: assets.id })
+        .from(assets)
+        .where(and(inArray(assets.id, assetIds), eq(assets.ownerId, user.id)))
+      const ownedIds = new Set(ownedAssets.map((a) => a.id))
+
+      const values = (assetIds as string[])
+        .filter((assetId) => ownedIds.has(assetId))
+        .map((assetId, position) => ({
+          collectionId: newCollection.id,
+          assetId,
+          position,
+        }))
+      if (values.length > 0) {
+        await db.insert(collectionAssets).values(values).onConflictDoNothing()
+      }
+    }
+
+    return NextResponse.json({ collection: newCollection })
+  } catch (error) {
+    console.error('Create collection error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create collection' },
+      { status: 500 },
+    )
+  }
+}
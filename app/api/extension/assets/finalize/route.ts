@@ -1,11 +1,14 @@
 import { and, eq, isNull } from 'drizzle-orm'
-import { NextResponse } from 'next/server'
+import { after, NextResponse } from 'next/server'
 import { db } from '@/db'
 import { assets, assetTags } from '@/db/schema/assets'
 import {
   hashPAT,
   personalAccessTokens,
 } from '@/db/schema/personal-access-tokens'
+import { enqueueJob, runJobs } from '@/lib/jobs'
+import { refreshAssetSearchVectors } from '@/lib/search'
+import { normalizePhash } from '@/lib/similarity'
 
 async function verifyPAT(authHeader: string | null): Promise<string | null> {
   if (!authHeader?.startsWith('Bearer ')) {
@@ -38,6 +41,7 @@ interface FinalizeRequest {
   height?: number
   durationSeconds?: number
   sha256?: string
+  phash?: string
   tagIds?: string[]
 }
 
@@ -50,21 +54,27 @@ export async function POST(request: Request) {
     }
 
     const body: FinalizeRequest = await request.json()
-    const { assetId, width, height, durationSeconds, sha256, tagIds } = body
+    const { assetId, width, height, durationSeconds, sha256, phash, tagIds } =
+      body
 
     if (!assetId) {
       return NextResponse.json({ error: 'Missing assetId' }, { status: 400 })
     }
 
-    // Update asset to ready status with metadata
+    // Update asset to ready status with metadata. Values the client didn't
+    // send (URL-only captures have no hash) keep what init stored.
+    const normalizedPhash = normalizePhash(phash)
     const [updatedAsset] = await db
       .update(assets)
       .set({
         status: 'ready',
-        width: width || null,
-        height: height || null,
-        durationSeconds: durationSeconds?.toString() || null,
-        sha256: sha256 || null,
+        ...(width ? { width } : {}),
+        ...(height ? { height } : {}),
+        ...(durationSeconds
+          ? { durationSeconds: durationSeconds.toString() }
+          : {}),
+        ...(sha256 ? { sha256 } : {}),
+        ...(normalizedPhash ? { phash: normalizedPhash } : {}),
         updatedAt: new Date(),
       })
       .where(and(eq(assets.id, assetId), eq(assets.ownerId, ownerId)))
@@ -82,8 +92,13 @@ export async function POST(request: Request) {
           tagId,
         })),
       )
+      await refreshAssetSearchVectors([assetId])
     }
 
+    // Fill in previews and metadata the client couldn't provide
+    await enqueueJob('process_asset', { ownerId, assetId })
+    after(() => runJobs())
+
     return NextResponse.json({ asset: updatedAsset })
   } catch (error) {
     console.error('Extension finalize upload error:', error)
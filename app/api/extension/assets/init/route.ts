@@ -1,4 +1,3 @@
-import { createClient } from '@supabase/supabase-js'
 import { and, eq, isNull } from 'drizzle-orm'
 import { NextResponse } from 'next/server'
 import { db } from '@/db'
@@ -7,6 +6,19 @@ import {
   hashPAT,
   personalAccessTokens,
 } from '@/db/schema/personal-access-tokens'
+import {
+  type CaptureContextInput,
+  normalizeCaptureContext,
+} from '@/lib/capture-context'
+import {
+  DEFAULT_DUPLICATE_POLICY,
+  type DuplicatePolicy,
+  isDuplicatePolicy,
+  resolveDuplicateAsset,
+} from '@/lib/duplicates'
+import { mediaUrlKey } from '@/lib/media-url'
+import { refreshAssetSearchVectors } from '@/lib/search'
+import { createAdminClient } from '@/lib/supabase/admin'
 import {
   ASSETS_BUCKET,
   createSignedUploadUrl,
@@ -14,22 +26,6 @@ import {
   PREVIEWS_BUCKET,
 } from '@/lib/supabase/storage'
 
-// Create admin supabase client for storage operations
-function getAdminSupabase() {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-  const serviceRoleKey =
-    process.env.SUPABASE_SERVICE_ROLE_KEY ||
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-
-  if (!(supabaseUrl && serviceRoleKey)) {
-    throw new Error(
-      'Missing Supabase environment variables: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY or NEXT_PUBLIC_SUPABASE_ANON_KEY must be set',
-    )
-  }
-
-  return createClient(supabaseUrl, serviceRoleKey)
-}
-
 async function verifyPAT(authHeader: string | null): Promise<string | null> {
   if (!authHeader?.startsWith('Bearer ')) {
     return null
@@ -67,8 +63,90 @@ interface InitRequest {
   sizeBytes?: number
   sourcePlatform?: string
   captureUrl?: string
+  pageTitle?: string
+  pageDescription?: string
   mediaUrl?: string
+  // Post copy, advertiser, CTA and landing page scraped around the media
+  context?: CaptureContextInput
+  screenshot?: boolean // Cropped from the visible tab rather than the page's media
   hasBlob?: boolean
+  sha256?: string
+  onDuplicate?: DuplicatePolicy
+  // Applied to the new asset, or merged onto the existing one with
+  // onDuplicate: 'link' (tags are added to new assets on finalize)
+  tagIds?: string[]
+  notes?: string
+  // Asset of an earlier attempt whose upload failed, to continue
+  resumeAssetId?: string
+}
+
+// Signed upload URLs for the original and preview
+async function signUploads(
+  storagePath: string,
+  previewPath: string,
+  // Resumed uploads may overwrite files a failed attempt already wrote
+  upsert = false,
+) {
+  const supabase = createAdminClient()
+  const [assetUpload, previewUpload] = await Promise.all([
+    createSignedUploadUrl(supabase, {
+      bucket: ASSETS_BUCKET,
+      path: storagePath,
+      upsert,
+    }),
+    createSignedUploadUrl(supabase, {
+      bucket: PREVIEWS_BUCKET,
+      path: previewPath,
+      upsert,
+    }),
+  ])
+
+  return {
+    assetUpload: {
+      signedUrl: assetUpload.signedUrl,
+      token: assetUpload.token,
+      path: assetUpload.path,
+    },
+    previewUpload: {
+      signedUrl: previewUpload.signedUrl,
+      token: previewUpload.token,
+      path: previewUpload.path,
+    },
+  }
+}
+
+// Fresh upload URLs for a capture whose upload failed after init.
+// URL-only captures are created ready and only have finalize left to run.
+async function resumeUpload(
+  ownerId: string,
+  assetId: string,
+  hasBlob: boolean,
+) {
+  const [asset] = await db
+    .select()
+    .from(assets)
+    .where(
+      and(
+        eq(assets.id, assetId),
+        eq(assets.ownerId, ownerId),
+        eq(assets.status, hasBlob ? 'uploading' : 'ready'),
+      ),
+    )
+  if (!asset?.previewPath) {
+    return NextResponse.json(
+      { error: 'Upload not found or already finished' },
+      { status: 404 },
+    )
+  }
+
+  const uploads = hasBlob
+    ? await signUploads(asset.storagePath, asset.previewPath, true)
+    : { assetUpload: null, previewUpload: null }
+  return NextResponse.json({
+    assetId: asset.id,
+    duplicate: false,
+    ...uploads,
+  })
 }
 
 export async function POST(request: Request) {
@@ -86,10 +164,23 @@ export async function POST(request: Request) {
       sizeBytes,
       sourcePlatform,
       captureUrl,
+      pageTitle,
+      pageDescription,
       mediaUrl,
+      context,
+      screenshot,
       hasBlob,
+      sha256,
+      onDuplicate,
+      tagIds,
+      notes,
+      resumeAssetId,
     } = body
 
+    if (resumeAssetId) {
+      return await resumeUpload(ownerId, resumeAssetId, !!hasBlob)
+    }
+
     if (!(filename && mimeType)) {
       return NextResponse.json(
         { error: 'Missing required fields: filename, mimeType' },
@@ -97,6 +188,30 @@ export async function POST(request: Request) {
       )
     }
 
+    if (onDuplicate !== undefined && !isDuplicatePolicy(onDuplicate)) {
+      return NextResponse.json(
+        { error: 'Invalid onDuplicate policy' },
+        { status: 400 },
+      )
+    }
+
+    // Return the existing asset instead of storing the same file twice
+    const duplicate = await resolveDuplicateAsset(ownerId, {
+      sha256,
+      policy: onDuplicate ?? DEFAULT_DUPLICATE_POLICY,
+      tagIds,
+      notes,
+    })
+    if (duplicate) {
+      return NextResponse.json({
+        assetId: duplicate.id,
+        duplicate: true,
+        asset: duplicate,
+        assetUpload: null,
+        previewUpload: null,
+      })
+    }
+
     // Generate storage paths
     const storagePath = generateAssetPath(ownerId, filename)
     const previewPath = generateAssetPath(
@@ -111,13 +226,20 @@ export async function POST(request: Request) {
       .values({
         ownerId,
         status: hasBlob ? 'uploading' : 'ready', // If no blob, mark as ready (URL-only capture)
-        captureMethod: 'extension_capture',
+        captureMethod: screenshot
+          ? 'extension_screenshot'
+          : 'extension_capture',
         sourcePlatform: sourcePlatform || 'other',
         captureUrl: captureUrl || null,
+        pageTitle: pageTitle || null,
         mediaUrl: mediaUrl || null,
+        mediaUrlKey: mediaUrl ? mediaUrlKey(mediaUrl) : null,
+        notes: notes?.trim() || null,
+        ...normalizeCaptureContext({ ...context, pageDescription }),
         originalFilename: filename,
         mimeType,
         sizeBytes: sizeBytes || null,
+        sha256: sha256?.toLowerCase() || null,
         storageBucket: ASSETS_BUCKET,
         storagePath,
         previewBucket: PREVIEWS_BUCKET,
@@ -125,38 +247,22 @@ export async function POST(request: Request) {
       })
       .returning()
 
+    await refreshAssetSearchVectors([asset.id])
+
     // Create signed upload URLs (only needed if hasBlob)
     if (hasBlob) {
-      const supabase = getAdminSupabase()
-
-      const [assetUpload, previewUpload] = await Promise.all([
-        createSignedUploadUrl(supabase, {
-          bucket: ASSETS_BUCKET,
-          path: storagePath,
-        }),
-        createSignedUploadUrl(supabase, {
-          bucket: PREVIEWS_BUCKET,
-          path: previewPath,
-        }),
-      ])
-
+      const uploads = await signUploads(storagePath, previewPath)
       return NextResponse.json({
         assetId: asset.id,
-        assetUpload: {
-          signedUrl: assetUpload.signedUrl,
-          token: assetUpload.token,
-          path: assetUpload.path,
-        },
-        previewUpload: {
-          signedUrl: previewUpload.signedUrl,
-          token: previewUpload.token,
-          path: previewUpload.path,
-        },
+        duplicate: false,
+        ...uploads,
       })
     }
 
+    // URL-only captures are processed once finalized, like uploads
     return NextResponse.json({
       assetId: asset.id,
+      duplicate: false,
       assetUpload: null,
       previewUpload: null,
     })
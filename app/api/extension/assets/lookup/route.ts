@@ -0,0 +1,93 @@
+import { and, eq, isNull } from 'drizzle-orm'
+import { NextResponse } from 'next/server'
+import { db } from '@/db'
+import {
+  hashPAT,
+  personalAccessTokens,
+} from '@/db/schema/personal-access-tokens'
+import { findAssetsByMediaUrl, findAssetsBySha256 } from '@/lib/duplicates'
+
+const MAX_LOOKUP_ITEMS = 200
+
+const SHA256_REGEX = /^[a-f0-9]{64}$/i
+
+async function verifyPAT(authHeader: string | null): Promise<string | null> {
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.slice(7)
+  const tokenHash = await hashPAT(token)
+
+  const [pat] = await db
+    .select()
+    .from(personalAccessTokens)
+    .where(
+      and(
+        eq(personalAccessTokens.tokenHash, tokenHash),
+        isNull(personalAccessTokens.revokedAt),
+      ),
+    )
+
+  if (!pat) {
+    return null
+  }
+
+  return pat.ownerId
+}
+
+interface LookupRequest {
+  mediaUrls?: string[]
+  sha256s?: string[]
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && !!item)
+    : []
+}
+
+// Which of the given media URLs and/or file hashes were captured before
+export async function POST(request: Request) {
+  try {
+    const ownerId = await verifyPAT(request.headers.get('Authorization'))
+
+    if (!ownerId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: LookupRequest = await request.json()
+    const mediaUrls = stringList(body.mediaUrls)
+    const sha256s = stringList(body.sha256s)
+
+    if (mediaUrls.length + sha256s.length > MAX_LOOKUP_ITEMS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_LOOKUP_ITEMS} URLs and hashes per lookup` },
+        { status: 400 },
+      )
+    }
+
+    if (!sha256s.every((hash) => SHA256_REGEX.test(hash))) {
+      return NextResponse.json(
+        { error: 'Invalid SHA-256 hash' },
+        { status: 400 },
+      )
+    }
+
+    const [byMediaUrl, bySha256] = await Promise.all([
+      findAssetsByMediaUrl(ownerId, mediaUrls),
+      findAssetsBySha256(ownerId, sha256s),
+    ])
+
+    return NextResponse.json({
+      byMediaUrl: Object.fromEntries(byMediaUrl),
+      bySha256: Object.fromEntries(bySha256),
+    })
+  } catch (error) {
+    console.error('Extension asset lookup error:', error)
+    return NextResponse.json(
+      { error: 'Failed to look up assets' },
+      { status: 500 },
+    )
+  }
+}
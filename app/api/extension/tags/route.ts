@@ -0,0 +1,87 @@
+import { and, asc, eq, isNull } from 'drizzle-orm'
+import { NextResponse } from 'next/server'
+import { db } from '@/db'
+import {
+  hashPAT,
+  personalAccessTokens,
+} from '@/db/schema/personal-access-tokens'
+import { tags } from '@/db/schema/tags'
+
+async function verifyPAT(authHeader: string | null): Promise<string | null> {
+  if (!authHeader?.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.slice(7)
+  const tokenHash = await hashPAT(token)
+
+  const [pat] = await db
+    .select()
+    .from(personalAccessTokens)
+    .where(
+      and(
+        eq(personalAccessTokens.tokenHash, tokenHash),
+        isNull(personalAccessTokens.revokedAt),
+      ),
+    )
+
+  if (!pat) {
+    return null
+  }
+
+  return pat.ownerId
+}
+
+export async function GET(request: Request) {
+  try {
+    const ownerId = await verifyPAT(request.headers.get('Authorization'))
+
+    if (!ownerId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const userTags = await db
+      .select({ id: tags.id, name: tags.name, color: tags.color })
+      .from(tags)
+      .where(eq(tags.ownerId, ownerId))
+      .orderBy(asc(tags.name))
+
+    return NextResponse.json({ tags: userTags })
+  } catch (error) {
+    console.error('Extension get tags error:', error)
+    return NextResponse.json({ error: 'Failed to fetch tags' }, { status: 500 })
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const ownerId = await verifyPAT(request.headers.get('Authorization'))
+
+    if (!ownerId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: { name?: string; color?: string } = await request.json()
+    const name = body.name?.trim()
+
+    if (!name) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 })
+    }
+
+    // Creating a tag that already exists returns the existing one
+    await db
+      .insert(tags)
+      .values({ ownerId, name, color: body.color || '#6b7280' })
+      .onConflictDoNothing({ target: [tags.ownerId, tags.name] })
+
+    const [tag] = await db
+      .select({ id: tags.id, name: tags.name, color: tags.color })
+      .from(tags)
+      .where(and(eq(tags.ownerId, ownerId), eq(tags.name, name)))
+
+    return NextResponse.json({ tag })
+  } catch (error) {
+    console.error('Extension create tag error:', error)
+    return NextResponse.json({ error: 'Failed to create tag' }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { and, eq } from 'drizzle-orm'
+import { after, NextResponse } from 'next/server'
+import { db } from '@/db'
+import { imports } from '@/db/schema/imports'
+import { enqueueJob, runJobs } from '@/lib/jobs'
+import { createClient } from '@/lib/supabase/server'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// Start processing an import once its archive has been uploaded.
+// Processing continues in the background after the response is sent.
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [queued] = await db
+      .update(imports)
+      .set({ status: 'queued', updatedAt: new Date() })
+      .where(
+        and(
+          eq(imports.id, id),
+          eq(imports.ownerId, user.id),
+          eq(imports.status, 'uploading'),
+        ),
+      )
+      .returning()
+
+    if (!queued) {
+      return NextResponse.json(
+        { error: 'Import not found or already started' },
+        { status: 404 },
+      )
+    }
+
+    await enqueueJob('process_import', {
+      ownerId: user.id,
+      payload: { importId: id },
+    })
+    after(() => runJobs())
+
+    return NextResponse.json({ import: queued }, { status: 202 })
+  } catch (error) {
+    console.error('Start import error:', error)
+    return NextResponse.json(
+      { error: 'Failed to start import' },
+      { status: 500 },
+    )
+  }
+}
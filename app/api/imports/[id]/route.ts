@@ -0,0 +1,41 @@
+import { and, eq } from 'drizzle-orm'
+import { NextResponse } from 'next/server'
+import { db } from '@/db'
+import { imports } from '@/db/schema/imports'
+import { createClient } from '@/lib/supabase/server'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const [found] = await db
+      .select()
+      .from(imports)
+      .where(and(eq(imports.id, id), eq(imports.ownerId, user.id)))
+
+    if (!found) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ import: found })
+  } catch (error) {
+    console.error('Get import error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch import' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,119 @@
+import { desc, eq } from 'drizzle-orm'
+import { NextResponse } from 'next/server'
+import { db } from '@/db'
+import { imports } from '@/db/schema/imports'
+import { MAX_IMPORT_SIZE, MAX_IMPORT_SIZE_MB } from '@/lib/import'
+import { createClient } from '@/lib/supabase/server'
+import {
+  ASSETS_BUCKET,
+  createSignedUploadUrl,
+  generateAssetPath,
+} from '@/lib/supabase/storage'
+
+interface CreateImportRequest {
+  filename: string
+  sizeBytes?: number
+}
+
+// Recent imports, without their per-row reports
+export async function GET() {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const recentImports = await db
+      .select({
+        id: imports.id,
+        status: imports.status,
+        filename: imports.filename,
+        totalRows: imports.totalRows,
+        processedRows: imports.processedRows,
+        error: imports.error,
+        createdAt: imports.createdAt,
+        completedAt: imports.completedAt,
+      })
+      .from(imports)
+      .where(eq(imports.ownerId, user.id))
+      .orderBy(desc(imports.createdAt))
+      .limit(10)
+
+    return NextResponse.json({ imports: recentImports })
+  } catch (error) {
+    console.error('Get imports error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch imports' },
+      { status: 500 },
+    )
+  }
+}
+
+// Create an import and a signed URL to upload its ZIP archive to
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body: CreateImportRequest = await request.json()
+    const { filename, sizeBytes } = body
+
+    if (!filename?.toLowerCase().endsWith('.zip')) {
+      return NextResponse.json(
+        { error: 'Imports must be a .zip archive' },
+        { status: 400 },
+      )
+    }
+
+    if (sizeBytes && sizeBytes > MAX_IMPORT_SIZE) {
+      return NextResponse.json(
+        { error: `Archive is too large (max ${MAX_IMPORT_SIZE_MB}MB)` },
+        { status: 400 },
+      )
+    }
+
+    const storagePath = generateAssetPath(user.id, filename, 'imports')
+
+    const [created] = await db
+      .insert(imports)
+      .values({
+        ownerId: user.id,
+        filename,
+        storageBucket: ASSETS_BUCKET,
+        storagePath,
+      })
+      .returning()
+
+    const upload = await createSignedUploadUrl(supabase, {
+      bucket: ASSETS_BUCKET,
+      path: storagePath,
+    })
+
+    return NextResponse.json({
+      import: created,
+      upload: {
+        signedUrl: upload.signedUrl,
+        token: upload.token,
+        path: upload.path,
+      },
+    })
+  } catch (error) {
+    console.error('Create import error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create import' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,38 @@
+import { after, NextResponse } from 'next/server'
+import { retryJob, runJobs } from '@/lib/jobs'
+import { createClient } from '@/lib/supabase/server'
+
+interface RouteParams {
+  params: Promise<{ id: string }>
+}
+
+// Requeue a dead or retrying job to run right away
+export async function POST(_request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const job = await retryJob(id, user.id)
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found or already running' },
+        { status: 404 },
+      )
+    }
+
+    after(() => runJobs())
+
+    return NextResponse.json({ job })
+  } catch (error) {
+    console.error('Retry job error:', error)
+    return NextResponse.json({ error: 'Failed to retry job' }, { status: 500 })
+  }
+}
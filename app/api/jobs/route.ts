@@ -0,0 +1,76 @@
+import { and, desc, eq, inArray } from 'drizzle-orm'
+import { NextResponse } from 'next/server'
+import { db } from '@/db'
+import { assets } from '@/db/schema/assets'
+import { jobs } from '@/db/schema/jobs'
+import { createClient } from '@/lib/supabase/server'
+
+// Unfinished jobs: waiting, retrying, running or dead-lettered
+const OPEN_STATUSES = ['queued', 'running', 'dead'] as const
+
+type OpenStatus = (typeof OPEN_STATUSES)[number]
+
+function isOpenStatus(value: string): value is OpenStatus {
+  return OPEN_STATUSES.includes(value as OpenStatus)
+}
+
+// Open jobs with their asset, optionally for a single asset or status
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const assetId = searchParams.get('assetId')
+    const statusParam = searchParams.get('status')
+    const status = statusParam && isOpenStatus(statusParam) ? statusParam : null
+
+    if (statusParam && !status) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    const conditions = [
+      eq(jobs.ownerId, user.id),
+      status ? eq(jobs.status, status) : inArray(jobs.status, OPEN_STATUSES),
+    ]
+    if (assetId) {
+      conditions.push(eq(jobs.assetId, assetId))
+    }
+
+    const openJobs = await db
+      .select({
+        id: jobs.id,
+        type: jobs.type,
+        status: jobs.status,
+        assetId: jobs.assetId,
+        payload: jobs.payload,
+        attempts: jobs.attempts,
+        maxAttempts: jobs.maxAttempts,
+        runAt: jobs.runAt,
+        lastError: jobs.lastError,
+        createdAt: jobs.createdAt,
+        updatedAt: jobs.updatedAt,
+        asset: {
+          originalFilename: assets.originalFilename,
+          mimeType: assets.mimeType,
+        },
+      })
+      .from(jobs)
+      .leftJoin(assets, eq(jobs.assetId, assets.id))
+      .where(and(...conditions))
+      .orderBy(desc(jobs.updatedAt))
+      .limit(200)
+
+    return NextResponse.json({ jobs: openJobs })
+  } catch (error) {
+    console.error('Get jobs error:', error)
+    return NextResponse.json({ error: 'Failed to fetch jobs' }, { status: 500 })
+  }
+}
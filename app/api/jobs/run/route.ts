@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { runJobs } from '@/lib/jobs'
+import { backfillSearchVectors } from '@/lib/search'
+
+// Jobs can run for a while (downloads, preview generation)
+export const maxDuration = 300
+
+// Scheduled worker invocation
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const results = await runJobs()
+    // Assets created before full-text search have no search vector yet
+    const searchVectorsBackfilled = await backfillSearchVectors()
+
+    return NextResponse.json({ ...results, searchVectorsBackfilled })
+  } catch (error) {
+    console.error('Run jobs error:', error)
+    return NextResponse.json({ error: 'Failed to run jobs' }, { status: 500 })
+  }
+}
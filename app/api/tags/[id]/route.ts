@@ -3,6 +3,10 @@ import { NextResponse } from 'next/server'
 import { db } from '@/db'
 import { assetTags } from '@/db/schema/assets'
 import { tags } from '@/db/schema/tags'
+import {
+  refreshAssetSearchVectors,
+  refreshTaggedAssetSearchVectors,
+} from '@/lib/search'
 import { createClient } from '@/lib/supabase/server'
 
 interface RouteParams {
@@ -50,6 +54,10 @@ export async function PATCH(request: Request, { params }: RouteParams) {
       return NextResponse.json({ error: 'Tag not found' }, { status: 404 })
     }
 
+    if (updateData.name) {
+      await refreshTaggedAssetSearchVectors(id)
+    }
+
     return NextResponse.json({ tag: updatedTag })
   } catch (error) {
     console.error('Update tag error:', error)
@@ -81,11 +89,16 @@ export async function DELETE(_request: Request, { params }: RouteParams) {
     }
 
     // Delete asset-tag relationships
-    await db.delete(assetTags).where(eq(assetTags.tagId, id))
+    const untagged = await db
+      .delete(assetTags)
+      .where(eq(assetTags.tagId, id))
+      .returning({ assetId: assetTags.assetId })
 
     // Delete tag
     await db.delete(tags).where(eq(tags.id, id))
 
+    await refreshAssetSearchVectors(untagged.map((row) => row.assetId))
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Delete tag error:', error)
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedCronRequest } from '@/lib/cron'
+import { DEFAULT_STALE_AFTER_HOURS, reconcileStorage } from '@/lib/reconcile'
+
+// Listing storage can take a while, even in batches
+export const maxDuration = 300
+
+// Scheduled cleanup of abandoned uploads and orphaned storage objects.
+// ?olderThanHours=N changes the threshold, ?dryRun=1 only reports.
+export async function GET(request: Request) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const olderThanHours = Number(
+      searchParams.get('olderThanHours') || DEFAULT_STALE_AFTER_HOURS,
+    )
+    if (!(olderThanHours > 0)) {
+      return NextResponse.json(
+        { error: 'olderThanHours must be a positive number' },
+        { status: 400 },
+      )
+    }
+    const dryRun = searchParams.get('dryRun') === '1'
+
+    const result = await reconcileStorage({
+      olderThan: new Date(Date.now() - olderThanHours * 60 * 60 * 1000),
+      dryRun,
+    })
+
+    return NextResponse.json({ dryRun, ...result })
+  } catch (error) {
+    console.error('Reconcile uploads error:', error)
+    return NextResponse.json(
+      { error: 'Failed to reconcile uploads' },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,180 @@
+'use client'
+
+import { FolderPlus, Layers, Loader2 } from 'lucide-react'
+import { useCallback, useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import type { Collection } from '@/db/schema/collections'
+
+interface CollectionListItem extends Collection {
+  assetCount: number
+}
+
+interface AddToCollectionDialogProps {
+  assetIds: string[]
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onAdded?: (collectionId: string) => void
+}
+
+export function AddToCollectionDialog({
+  assetIds,
+  open,
+  onOpenChange,
+  onAdded,
+}: AddToCollectionDialogProps) {
+  const [collections, setCollections] = useState<CollectionListItem[]>([])
+  const [loading, setLoading] = useState(true)
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [creating, setCreating] = useState(false)
+
+  const fetchCollections = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/collections')
+      if (response.ok) {
+        const data = await response.json()
+        setCollections(data.collections)
+      }
+    } catch (error) {
+      console.error('Failed to fetch collections:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) {
+      setNewName('')
+      fetchCollections()
+    }
+  }, [open, fetchCollections])
+
+  const assetLabel = `${assetIds.length} asset${assetIds.length !== 1 ? 's' : ''}`
+
+  const handleAdd = async (collection: CollectionListItem) => {
+    setSavingId(collection.id)
+    try {
+      const response = await fetch(`/api/collections/${collection.id}/assets`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ assetIds }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to add to collection')
+      }
+      toast.success(`Added ${assetLabel} to ${collection.name}`)
+      onAdded?.(collection.id)
+      onOpenChange(false)
+    } catch (_error) {
+      toast.error('Failed to add to collection')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      toast.error('Collection name is required')
+      return
+    }
+
+    setCreating(true)
+    try {
+      const response = await fetch('/api/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newName.trim(), assetIds }),
+      })
+      if (!response.ok) {
+        throw new Error('Failed to create collection')
+      }
+      const data = await response.json()
+      toast.success(`Added ${assetLabel} to ${data.collection.name}`)
+      onAdded?.(data.collection.id)
+      onOpenChange(false)
+    } catch (_error) {
+      toast.error('Failed to create collection')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  return (
+    <Dialog onOpenChange={onOpenChange} open={open}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add to Collection</DialogTitle>
+          <DialogDescription>
+            Choose a collection for {assetLabel}, or create a new one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-64 space-y-1 overflow-y-auto">
+          {loading && (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {!loading && collections.length === 0 && (
+            <p className="py-4 text-center text-muted-foreground text-sm">
+              No collections yet
+            </p>
+          )}
+          {!loading &&
+            collections.map((collection) => (
+              <button
+                className="flex w-full items-center gap-3 rounded-lg px-3 py-2 text-left transition-colors hover:bg-accent disabled:opacity-50"
+                disabled={savingId !== null}
+                key={collection.id}
+                onClick={() => handleAdd(collection)}
+                type="button"
+              >
+                <Layers className="h-4 w-4 text-muted-foreground" />
+                <span className="flex-1 truncate font-medium">
+                  {collection.name}
+                </span>
+                {savingId === collection.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <span className="text-muted-foreground text-xs">
+                    {collection.assetCount}
+                  </span>
+                )}
+              </button>
+            ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Input
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                handleCreate()
+              }
+            }}
+            placeholder="New collection name"
+            value={newName}
+          />
+          <Button disabled={creating} onClick={handleCreate}>
+            {creating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FolderPlus className="mr-2 h-4 w-4" />
+            )}
+            Create
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,7 +1,16 @@
 'use client'
 
 import type { User } from '@supabase/supabase-js'
-import { Images, Key, LogOut, Sparkles, Tags, Upload } from 'lucide-react'
+import {
+  Activity,
+  Images,
+  Key,
+  Layers,
+  LogOut,
+  Sparkles,
+  Tags,
+  Upload,
+} from 'lucide-react'
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
 import { useEffect, useState } from 'react'
@@ -33,6 +42,11 @@ const mainNavItems = [
     url: '/assets',
     icon: Images,
   },
+  {
+    title: 'Collections',
+    url: '/collections',
+    icon: Layers,
+  },
   {
     title: 'Upload',
     url: '/upload',
@@ -51,6 +65,11 @@ const settingsNavItems = [
     url: '/settings/tokens',
     icon: Key,
   },
+  {
+    title: 'Processing Jobs',
+    url: '/settings/jobs',
+    icon: Activity,
+  },
 ]
 
 export function AppSidebar() {
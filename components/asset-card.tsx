@@ -5,6 +5,7 @@ import {
   Calendar,
   ExternalLink,
   Film,
+  FolderPlus,
   MoreHorizontal,
   Trash2,
 } from 'lucide-react'
@@ -29,14 +30,17 @@ import { cn } from '@/lib/utils'
 
 export interface AssetWithDetails extends Asset {
   previewUrl?: string | null
+  spriteUrl?: string | null
   tags: Tag[]
 }
 
 interface AssetCardProps {
   asset: AssetWithDetails
   selected?: boolean
-  onSelect?: (selected: boolean) => void
+  // extendRange is true for shift-click, to select everything in between
+  onSelect?: (selected: boolean, extendRange: boolean) => void
   onDelete?: () => void
+  onAddToCollection?: () => void
   onTagClick?: (tagId: string) => void
   showSelection?: boolean
 }
@@ -46,18 +50,36 @@ export function AssetCard({
   selected = false,
   onSelect,
   onDelete,
+  onAddToCollection,
   onTagClick,
   showSelection = false,
 }: AssetCardProps) {
   const [imageError, setImageError] = useState(false)
+  const [scrubFrame, setScrubFrame] = useState<number | null>(null)
   const isVideo = asset.mimeType.startsWith('video/')
+  const frameCount = asset.spriteFrames ?? 0
+  const canScrub = isVideo && !!asset.spriteUrl && frameCount > 1
+
+  // Map the pointer's horizontal position to a sprite frame
+  const handleScrub = (event: React.MouseEvent<HTMLElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const position = (event.clientX - rect.left) / rect.width
+    setScrubFrame(
+      Math.min(frameCount - 1, Math.max(0, Math.floor(position * frameCount))),
+    )
+  }
 
   const sourceLabel =
     DEFAULT_SOURCES.find((s) => s.key === asset.sourcePlatform)?.label ||
     asset.sourcePlatform
 
   return (
-    <Card className="group overflow-hidden transition-all hover:border-primary/50 hover:shadow-lg">
+    <Card
+      className={cn(
+        'group overflow-hidden transition-all hover:border-primary/50 hover:shadow-lg',
+        selected && 'ring-2 ring-primary',
+      )}
+    >
       <div className="relative aspect-video bg-muted">
         {/* Selection checkbox */}
         {showSelection && (
@@ -65,13 +87,20 @@ export function AssetCard({
             <Checkbox
               checked={selected}
               className="border-2 bg-background/80 backdrop-blur-sm"
-              onCheckedChange={(checked) => onSelect?.(checked as boolean)}
+              onCheckedChange={(checked, { event }) =>
+                onSelect?.(checked, isShiftClick(event))
+              }
             />
           </div>
         )}
 
         {/* Preview image */}
-        <Link className="block h-full w-full" href={`/assets/${asset.id}`}>
+        <Link
+          className="block h-full w-full"
+          href={`/assets/${asset.id}`}
+          onMouseLeave={() => setScrubFrame(null)}
+          onMouseMove={canScrub ? handleScrub : undefined}
+        >
           {asset.previewUrl && !imageError ? (
             <Image
               alt={asset.originalFilename}
@@ -92,6 +121,24 @@ export function AssetCard({
               )}
             </div>
           )}
+
+          {/* Hover scrubbing through the video's sprite sheet */}
+          {canScrub && scrubFrame !== null && (
+            <>
+              <div
+                className="absolute inset-0 bg-no-repeat"
+                style={{
+                  backgroundImage: `url(${asset.spriteUrl})`,
+                  backgroundSize: `${frameCount * 100}% 100%`,
+                  backgroundPosition: `${(scrubFrame / (frameCount - 1)) * 100}% 0`,
+                }}
+              />
+              <div
+                className="absolute top-0 left-0 z-10 h-0.5 bg-primary"
+                style={{ width: `${((scrubFrame + 1) / frameCount) * 100}%` }}
+              />
+            </>
+          )}
         </Link>
 
         {/* Video badge */}
@@ -111,9 +158,9 @@ export function AssetCard({
           {sourceLabel}
         </Badge>
 
-        {/* Actions overlay */}
-        <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 transition-opacity group-hover:opacity-100">
-          <div className="absolute right-2 bottom-2 flex gap-1">
+        {/* Actions overlay (lets pointer events through to the preview) */}
+        <div className="pointer-events-none absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 transition-opacity group-hover:opacity-100">
+          <div className="pointer-events-auto absolute right-2 bottom-2 flex gap-1">
             {asset.captureUrl && (
               <Button
                 className="h-8 w-8"
@@ -151,14 +198,24 @@ export function AssetCard({
                 >
                   View Details
                 </DropdownMenuItem>
-                <DropdownMenuSeparator />
-                <DropdownMenuItem
-                  className="text-destructive"
-                  onClick={onDelete}
-                >
-                  <Trash2 className="mr-2 h-4 w-4" />
-                  Delete
-                </DropdownMenuItem>
+                {onAddToCollection && (
+                  <DropdownMenuItem onClick={onAddToCollection}>
+                    <FolderPlus className="mr-2 h-4 w-4" />
+                    Add to Collection
+                  </DropdownMenuItem>
+                )}
+                {onDelete && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      className="text-destructive"
+                      onClick={onDelete}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </DropdownMenuItem>
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -217,6 +274,10 @@ export function AssetCard({
   )
 }
 
+function isShiftClick(event: Event): boolean {
+  return event instanceof MouseEvent && event.shiftKey
+}
+
 function formatDuration(seconds: number): string {
   const mins = Math.floor(seconds / 60)
   const secs = Math.floor(seconds % 60)
@@ -231,6 +292,7 @@ export function AssetListItem({
   selected = false,
   onSelect,
   onDelete,
+  onAddToCollection,
   onTagClick,
   showSelection = false,
 }: AssetListItemProps) {
@@ -251,7 +313,9 @@ export function AssetListItem({
       {showSelection && (
         <Checkbox
           checked={selected}
-          onCheckedChange={(checked) => onSelect?.(checked as boolean)}
+          onCheckedChange={(checked, { event }) =>
+            onSelect?.(checked, isShiftClick(event))
+          }
         />
       )}
 
@@ -364,11 +428,24 @@ export function AssetListItem({
             <DropdownMenuItem render={<Link href={`/assets/${asset.id}`} />}>
               View Details
             </DropdownMenuItem>
-            <DropdownMenuSeparator />
-            <DropdownMenuItem className="text-destructive" onClick={onDelete}>
-              <Trash2 className="mr-2 h-4 w-4" />
-              Delete
-            </DropdownMenuItem>
+            {onAddToCollection && (
+              <DropdownMenuItem onClick={onAddToCollection}>
+                <FolderPlus className="mr-2 h-4 w-4" />
+                Add to Collection
+              </DropdownMenuItem>
+            )}
+            {onDelete && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  className="text-destructive"
+                  onClick={onDelete}
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </DropdownMenuItem>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
@@ -159,7 +159,7 @@ export function AssetFilters({
           <Input
             className="pr-9 pl-9"
             onChange={(e) => setSearch(e.target.value)}
-            placeholder="Search assets..."
+            placeholder='Search assets, tags, URLs... ("exact phrase", -exclude)'
             value={search}
           />
           {search && (
@@ -0,0 +1,381 @@
+'use client'
+
+import { Download, Loader2, Pencil, Trash2, X } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import type { Collection } from '@/db/schema/collections'
+import { DEFAULT_SOURCES } from '@/db/schema/sources'
+import type { Tag } from '@/db/schema/tags'
+
+// Explicit asset IDs, or every asset matching a listing query string
+export type BulkSelection = { assetIds: string[] } | { filter: string }
+
+interface BulkActionsBarProps {
+  selection: BulkSelection
+  count: number
+  tags: Tag[]
+  canSelectAllMatching: boolean
+  onSelectAllMatching: () => void
+  onClear: () => void
+  onComplete: () => void
+}
+
+type TagChange = 'add' | 'remove'
+
+export function BulkActionsBar({
+  selection,
+  count,
+  tags,
+  canSelectAllMatching,
+  onSelectAllMatching,
+  onClear,
+  onComplete,
+}: BulkActionsBarProps) {
+  const [editOpen, setEditOpen] = useState(false)
+  const [deleteOpen, setDeleteOpen] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [collections, setCollections] = useState<Collection[]>([])
+
+  const [tagChanges, setTagChanges] = useState<Record<string, TagChange>>({})
+  const [sourcePlatform, setSourcePlatform] = useState('')
+  const [notes, setNotes] = useState('')
+  const [collectionId, setCollectionId] = useState('')
+
+  const assetLabel = `${count} asset${count !== 1 ? 's' : ''}`
+
+  useEffect(() => {
+    if (!editOpen) {
+      return
+    }
+    setTagChanges({})
+    setSourcePlatform('')
+    setNotes('')
+    setCollectionId('')
+
+    const fetchCollections = async () => {
+      try {
+        const response = await fetch('/api/collections')
+        if (response.ok) {
+          const data = await response.json()
+          setCollections(data.collections)
+        }
+      } catch (error) {
+        console.error('Failed to fetch collections:', error)
+      }
+    }
+    fetchCollections()
+  }, [editOpen])
+
+  // Cycle a tag through: unchanged -> add -> remove -> unchanged
+  const cycleTag = (tagId: string) => {
+    setTagChanges((prev) => {
+      const next = { ...prev }
+      if (!prev[tagId]) {
+        next[tagId] = 'add'
+      } else if (prev[tagId] === 'add') {
+        next[tagId] = 'remove'
+      } else {
+        delete next[tagId]
+      }
+      return next
+    })
+  }
+
+  const submit = async (action: Record<string, unknown>) => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/assets/bulk', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...selection, ...action }),
+      })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Bulk update failed')
+      }
+      return (await response.json()).affected as number
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleApply = async () => {
+    const entries = Object.entries(tagChanges)
+    try {
+      const affected = await submit({
+        addTagIds: entries.filter(([, c]) => c === 'add').map(([id]) => id),
+        removeTagIds: entries
+          .filter(([, c]) => c === 'remove')
+          .map(([id]) => id),
+        sourcePlatform: sourcePlatform || undefined,
+        appendNotes: notes.trim() || undefined,
+        collectionId: collectionId || undefined,
+      })
+      toast.success(`Updated ${affected} asset${affected !== 1 ? 's' : ''}`)
+      setEditOpen(false)
+      onComplete()
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to update assets',
+      )
+    }
+  }
+
+  const handleDelete = async () => {
+    try {
+      const affected = await submit({ delete: true })
+      toast.success(`Deleted ${affected} asset${affected !== 1 ? 's' : ''}`)
+      setDeleteOpen(false)
+      onComplete()
+    } catch (_error) {
+      toast.error('Failed to delete assets')
+    }
+  }
+
+  const exportUrl =
+    'assetIds' in selection
+      ? `/api/assets/export?ids=${selection.assetIds.join(',')}`
+      : `/api/assets/export?${selection.filter}`
+
+  const hasChanges =
+    Object.keys(tagChanges).length > 0 ||
+    !!sourcePlatform ||
+    !!notes.trim() ||
+    !!collectionId
+
+  return (
+    <>
+      <div className="sticky top-2 z-20 flex items-center justify-between gap-4 rounded-lg border bg-background/95 p-3 shadow-sm backdrop-blur">
+        <div className="flex items-center gap-3 text-sm">
+          <span className="font-medium">{assetLabel} selected</span>
+          {canSelectAllMatching && (
+            <Button
+              className="h-auto p-0"
+              onClick={onSelectAllMatching}
+              variant="link"
+            >
+              Select all matching
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={() => setEditOpen(true)} size="sm" variant="outline">
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </Button>
+          <Button
+            nativeButton={false}
+            render={
+              <a download href={exportUrl}>
+                <span className="sr-only">Export selected assets</span>
+              </a>
+            }
+            size="sm"
+            variant="outline"
+          >
+            <Download className="mr-2 h-4 w-4" />
+            Export ZIP
+          </Button>
+          <Button
+            className="text-destructive"
+            onClick={() => setDeleteOpen(true)}
+            size="sm"
+            variant="outline"
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+          <Button
+            aria-label="Clear selection"
+            className="h-8 w-8"
+            onClick={onClear}
+            size="icon"
+            variant="ghost"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Edit Dialog */}
+      <Dialog onOpenChange={setEditOpen} open={editOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit {assetLabel}</DialogTitle>
+            <DialogDescription>
+              Changes apply to every selected asset. Empty fields are left
+              unchanged.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Tags</Label>
+              {tags.length === 0 ? (
+                <p className="text-muted-foreground text-sm">
+                  No tags created yet
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {tags.map((tag) => {
+                    const change = tagChanges[tag.id]
+                    return (
+                      <Badge
+                        className="cursor-pointer"
+                        key={tag.id}
+                        onClick={() => cycleTag(tag.id)}
+                        style={{
+                          borderColor: tag.color,
+                          ...(change === 'add'
+                            ? { backgroundColor: tag.color, color: 'white' }
+                            : { color: tag.color }),
+                        }}
+                        variant={change === 'add' ? 'default' : 'outline'}
+                      >
+                        {change === 'add' && '+ '}
+                        {change === 'remove' && (
+                          <span className="line-through">{tag.name}</span>
+                        )}
+                        {change !== 'remove' && tag.name}
+                      </Badge>
+                    )
+                  })}
+                </div>
+              )}
+              <p className="text-muted-foreground text-xs">
+                Click once to add, twice to remove
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <Select
+                onValueChange={(value) => setSourcePlatform(value ?? '')}
+                value={sourcePlatform}
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {sourcePlatform ? (
+                      DEFAULT_SOURCES.find((s) => s.key === sourcePlatform)
+                        ?.label || sourcePlatform
+                    ) : (
+                      <span className="text-muted-foreground">
+                        Keep current source
+                      </span>
+                    )}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {DEFAULT_SOURCES.map((source) => (
+                    <SelectItem key={source.key} value={source.key}>
+                      {source.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Add to collection</Label>
+              <Select
+                onValueChange={(value) => setCollectionId(value ?? '')}
+                value={collectionId}
+              >
+                <SelectTrigger>
+                  <SelectValue>
+                    {collectionId ? (
+                      collections.find((c) => c.id === collectionId)?.name
+                    ) : (
+                      <span className="text-muted-foreground">
+                        No collection
+                      </span>
+                    )}
+                  </SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {collections.map((collection) => (
+                    <SelectItem key={collection.id} value={collection.id}>
+                      {collection.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bulk-notes">Append notes</Label>
+              <Textarea
+                id="bulk-notes"
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Added below any existing notes"
+                rows={3}
+                value={notes}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setEditOpen(false)} variant="outline">
+              Cancel
+            </Button>
+            <Button disabled={saving || !hasChanges} onClick={handleApply}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Apply to {assetLabel}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog onOpenChange={setDeleteOpen} open={deleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {assetLabel}</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete the selected assets and their files.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive hover:bg-destructive/90"
+              disabled={saving}
+              onClick={handleDelete}
+            >
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import {
+  AlertCircle,
+  CheckCircle2,
+  Copy,
+  FileArchive,
+  Loader2,
+  Upload,
+} from 'lucide-react'
+import Link from 'next/link'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import type { Import, ImportRowResult } from '@/db/schema/imports'
+import { uploadToStorage } from '@/lib/upload'
+import { cn } from '@/lib/utils'
+
+const POLL_INTERVAL_MS = 2000
+
+interface ImportArchiveProps {
+  className?: string
+}
+
+export function ImportArchive({ className }: ImportArchiveProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null)
+  const [currentImport, setCurrentImport] = useState<Import | null>(null)
+
+  const isRunning =
+    currentImport?.status === 'queued' || currentImport?.status === 'processing'
+
+  // Poll the import until processing finishes
+  useEffect(() => {
+    if (!(currentImport && isRunning)) {
+      return
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/imports/${currentImport.id}`)
+        if (response.ok) {
+          const data = await response.json()
+          setCurrentImport(data.import)
+        }
+      } catch (error) {
+        console.error('Failed to fetch import:', error)
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearTimeout(timeout)
+  }, [currentImport, isRunning])
+
+  const startImport = async () => {
+    if (!file) {
+      return
+    }
+
+    setUploadProgress(0)
+    try {
+      const response = await fetch('/api/imports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename: file.name, sizeBytes: file.size }),
+      })
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to create import')
+      }
+      const { import: created, upload } = await response.json()
+
+      await uploadToStorage(file, upload.signedUrl, upload.token, (progress) =>
+        setUploadProgress(progress),
+      )
+
+      const processResponse = await fetch(
+        `/api/imports/${created.id}/process`,
+        {
+          method: 'POST',
+        },
+      )
+      if (!processResponse.ok) {
+        const error = await processResponse.json()
+        throw new Error(error.error || 'Failed to start import')
+      }
+      const data = await processResponse.json()
+      setCurrentImport(data.import)
+      setFile(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Import failed')
+    } finally {
+      setUploadProgress(null)
+    }
+  }
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Archive picker */}
+      <div className="relative w-full rounded-xl border-2 border-muted-foreground/25 border-dashed p-12 text-center transition-all duration-200 hover:border-muted-foreground/50 hover:bg-muted/30">
+        <input
+          accept=".zip,application/zip"
+          aria-label="Choose a ZIP archive to import"
+          className="absolute inset-0 h-full w-full cursor-pointer opacity-0"
+          disabled={uploadProgress !== null}
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          type="file"
+        />
+        <div className="space-y-4">
+          <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-2xl bg-primary/10">
+            <FileArchive className="h-8 w-8 text-primary" />
+          </div>
+          <div>
+            <p className="font-medium text-lg">
+              {file ? file.name : 'Choose a ZIP archive'}
+            </p>
+            <p className="mt-1 text-muted-foreground text-sm">
+              Include a manifest.csv or manifest.json with file, source, URL,
+              tags and notes columns • Up to 250MB
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {file && (
+        <div className="flex items-center justify-between">
+          <p className="text-muted-foreground text-sm">
+            {(file.size / (1024 * 1024)).toFixed(1)} MB
+          </p>
+          <Button disabled={uploadProgress !== null} onClick={startImport}>
+            {uploadProgress === null ? (
+              <Upload className="mr-2 h-4 w-4" />
+            ) : (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
+            {uploadProgress === null
+              ? 'Start import'
+              : `Uploading ${Math.round(uploadProgress)}%`}
+          </Button>
+        </div>
+      )}
+
+      {currentImport && <ImportStatus currentImport={currentImport} />}
+    </div>
+  )
+}
+
+function ImportStatus({ currentImport }: { currentImport: Import }) {
+  const { status, totalRows, processedRows, report } = currentImport
+  const counts = {
+    imported: report.filter((r) => r.status === 'imported').length,
+    duplicate: report.filter((r) => r.status === 'duplicate').length,
+    failed: report.filter((r) => r.status === 'failed').length,
+  }
+  const progress = totalRows > 0 ? (processedRows / totalRows) * 100 : 0
+
+  return (
+    <div className="space-y-4 rounded-lg border bg-card p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="truncate font-medium">{currentImport.filename}</p>
+          <p className="text-muted-foreground text-sm">
+            {status === 'queued' && 'Waiting to start...'}
+            {status === 'processing' &&
+              `Importing ${processedRows} of ${totalRows || '?'} rows...`}
+            {status === 'completed' &&
+              `${counts.imported} imported, ${counts.duplicate} already in library, ${counts.failed} failed`}
+            {status === 'failed' && (currentImport.error || 'Import failed')}
+          </p>
+        </div>
+        {status === 'completed' && (
+          <Button
+            nativeButton={false}
+            render={<Link href="/assets" />}
+            size="sm"
+            variant="outline"
+          >
+            View assets
+          </Button>
+        )}
+      </div>
+
+      {(status === 'queued' || status === 'processing') && (
+        <Progress className="h-1.5" value={progress} />
+      )}
+
+      {report.length > 0 && (
+        <div className="max-h-80 divide-y overflow-y-auto rounded-md border">
+          {report.map((row) => (
+            <ImportRowItem key={row.row} row={row} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ImportRowItem({ row }: { row: ImportRowResult }) {
+  return (
+    <div className="flex items-center gap-3 px-3 py-2 text-sm">
+      <span className="w-10 flex-shrink-0 text-muted-foreground text-xs">
+        #{row.row}
+      </span>
+      {row.status === 'imported' && (
+        <CheckCircle2 className="h-4 w-4 flex-shrink-0 text-green-500" />
+      )}
+      {row.status === 'duplicate' && (
+        <Copy className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+      )}
+      {row.status === 'failed' && (
+        <AlertCircle className="h-4 w-4 flex-shrink-0 text-destructive" />
+      )}
+      <span className="min-w-0 flex-1 truncate">
+        {row.assetId ? (
+          <Link className="hover:underline" href={`/assets/${row.assetId}`}>
+            {row.file}
+          </Link>
+        ) : (
+          row.file
+        )}
+      </span>
+      {row.error ? (
+        <span className="flex-shrink-0 text-destructive text-xs">
+          {row.error}
+        </span>
+      ) : (
+        <Badge className="flex-shrink-0 text-xs" variant="outline">
+          {row.status === 'duplicate' ? 'Already in library' : 'Imported'}
+        </Badge>
+      )}
+    </div>
+  )
+}
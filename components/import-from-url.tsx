@@ -0,0 +1,83 @@
+'use client'
+
+import { Link2, Loader2 } from 'lucide-react'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { DEFAULT_SOURCES, detectSourceFromUrl } from '@/db/schema/sources'
+import { importFromUrl } from '@/lib/upload'
+import { cn } from '@/lib/utils'
+
+interface ImportFromUrlProps {
+  onImportComplete?: (assetId: string, duplicate: boolean) => void
+  className?: string
+}
+
+export function ImportFromUrl({
+  onImportComplete,
+  className,
+}: ImportFromUrlProps) {
+  const [url, setUrl] = useState('')
+  const [isImporting, setIsImporting] = useState(false)
+
+  const trimmedUrl = url.trim()
+  const isValidUrl = URL.canParse(trimmedUrl)
+  const detectedSource = isValidUrl ? detectSourceFromUrl(trimmedUrl) : null
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isValidUrl) {
+      return
+    }
+
+    setIsImporting(true)
+    try {
+      const result = await importFromUrl(trimmedUrl)
+      setUrl('')
+      onImportComplete?.(result.assetId, result.duplicate)
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to import from URL',
+      )
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  return (
+    <form className={cn('space-y-2', className)} onSubmit={handleSubmit}>
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Link2 className="absolute top-2.5 left-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            aria-label="Media URL"
+            className="pl-9"
+            disabled={isImporting}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="Paste a direct image or video URL"
+            type="url"
+            value={url}
+          />
+        </div>
+        <Button disabled={!isValidUrl || isImporting} type="submit">
+          {isImporting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Importing...
+            </>
+          ) : (
+            'Import from URL'
+          )}
+        </Button>
+      </div>
+      {detectedSource && (
+        <p className="text-muted-foreground text-xs">
+          Source:{' '}
+          {DEFAULT_SOURCES.find((s) => s.key === detectedSource)?.label ??
+            detectedSource}
+        </p>
+      )}
+    </form>
+  )
+}
@@ -1,87 +1,237 @@
 'use client'
 
+import { format } from 'date-fns'
 import {
   AlertCircle,
   CheckCircle2,
+  ChevronDown,
   Film,
   Image as ImageIcon,
   Loader2,
+  Pause,
+  Play,
+  RotateCcw,
   Upload,
   X,
 } from 'lucide-react'
 import Image from 'next/image'
-import { useCallback, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select'
+  EMPTY_UPLOAD_METADATA,
+  type UploadMetadata,
+  UploadMetadataFields,
+} from '@/components/upload-metadata-fields'
 import { DEFAULT_SOURCES } from '@/db/schema/sources'
+import type { Tag } from '@/db/schema/tags'
+import {
+  clearUploadCheckpoint,
+  getUploadCheckpoint,
+  isAbortError,
+  RESUMABLE_UPLOAD_THRESHOLD,
+  uploadResumable,
+} from '@/lib/resumable-upload'
+import { ASSETS_BUCKET } from '@/lib/supabase/storage'
 import {
   ACCEPTED_FILE_TYPES,
+  calculateFileHash,
+  calculatePerceptualHash,
+  createConcurrencyLimit,
   finalizeUpload,
   generateImagePreview,
   generateVideoPreview,
+  generateVideoSpriteSheet,
   initUpload,
   isImageFile,
+  isRetryableUploadError,
   isVideoFile,
   MAX_FILE_SIZE,
+  MAX_FILE_SIZE_MB,
+  type SignedUpload,
+  uploadRetryDelay,
   uploadToStorage,
 } from '@/lib/upload'
 import { cn } from '@/lib/utils'
 
-interface FileUpload {
+interface FileUpload extends UploadMetadata {
   id: string
   file: File
-  status: 'pending' | 'uploading' | 'processing' | 'done' | 'error'
+  status: 'pending' | 'uploading' | 'paused' | 'processing' | 'done' | 'error'
   progress: number
   error?: string
   previewUrl?: string
-  sourcePlatform: string
+  duplicate?: boolean // Already in the library, nothing was uploaded
+}
+
+// Files uploading at once unless overridden with the concurrency prop
+const DEFAULT_UPLOAD_CONCURRENCY = 3
+
+// Automatic retries for network and server errors before marking a file failed
+const MAX_UPLOAD_RETRIES = 3
+
+function isResumable(file: File) {
+  return file.size > RESUMABLE_UPLOAD_THRESHOLD
+}
+
+function formatMaxFileSize() {
+  return MAX_FILE_SIZE_MB >= 1024
+    ? `${Math.round((MAX_FILE_SIZE_MB / 1024) * 10) / 10}GB`
+    : `${MAX_FILE_SIZE_MB}MB`
+}
+
+// Collapsed view of a pending file's metadata, e.g. "TikTok • 2 tags • Notes"
+function metadataSummary(fileUpload: FileUpload) {
+  const parts: string[] = [
+    DEFAULT_SOURCES.find((s) => s.key === fileUpload.sourcePlatform)?.label ||
+      fileUpload.sourcePlatform,
+  ]
+  if (fileUpload.tagIds.length > 0) {
+    parts.push(
+      `${fileUpload.tagIds.length} tag${fileUpload.tagIds.length > 1 ? 's' : ''}`,
+    )
+  }
+  if (fileUpload.notes.trim()) {
+    parts.push('Notes')
+  }
+  if (fileUpload.captureUrl.trim()) {
+    parts.push('URL')
+  }
+  return parts.join(' • ')
+}
+
+// Shown under the progress bar; retry notices replace the status text
+function progressLabel(fileUpload: FileUpload) {
+  if (fileUpload.status === 'paused') {
+    return `Paused at ${Math.round(fileUpload.progress)}%`
+  }
+  if (fileUpload.error) {
+    return fileUpload.error
+  }
+  return fileUpload.status === 'processing' ? 'Processing...' : 'Uploading...'
+}
+
+// Clipboard images all arrive as "image.png"; give them distinct names
+function renamePastedFile(file: File, index: number) {
+  const extension = file.type.split('/')[1] || 'png'
+  const suffix = index > 0 ? `-${index + 1}` : ''
+  return new File(
+    [file],
+    `pasted-${format(new Date(), 'yyyyMMdd-HHmmss')}${suffix}.${extension}`,
+    { type: file.type, lastModified: file.lastModified },
+  )
+}
+
+// Text fields keep their normal paste behaviour
+function isTextPasteTarget(event: ClipboardEvent) {
+  const target = event.target as HTMLElement | null
+  return (
+    !!target?.closest('input, textarea, [contenteditable="true"]') &&
+    !!event.clipboardData?.types.includes('text/plain')
+  )
+}
+
+function waitForRetry(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(new DOMException('Upload aborted', 'AbortError'))
+    }
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
 }
 
 interface UploadDropzoneProps {
   onUploadComplete?: (assetIds: string[]) => void
+  concurrency?: number // Files uploading in parallel
   className?: string
 }
 
 export function UploadDropzone({
   onUploadComplete,
+  concurrency = DEFAULT_UPLOAD_CONCURRENCY,
   className,
 }: UploadDropzoneProps) {
   const [files, setFiles] = useState<FileUpload[]>([])
   const [isDragging, setIsDragging] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
+  const [tags, setTags] = useState<Tag[]>([])
+  // Applied to files as they are added, and to pending files on request
+  const [defaults, setDefaults] = useState<UploadMetadata>(
+    EMPTY_UPLOAD_METADATA,
+  )
+  // Abort controllers of in-flight uploads, by file id
+  const controllers = useRef(new Map<string, AbortController>())
+  // Assets created for unfinished uploads, so retries and resumes reuse them
+  const assetIds = useRef(new Map<string, string>())
+  // Shared by batches and resumed files so the limit holds across both
+  const uploadSlots = useMemo(
+    () => createConcurrencyLimit(concurrency),
+    [concurrency],
+  )
 
-  const addFiles = useCallback((newFiles: FileList | File[]) => {
-    const fileArray = Array.from(newFiles)
-    const validFiles = fileArray.filter((file) => {
-      if (file.size > MAX_FILE_SIZE) {
-        console.warn(`File ${file.name} exceeds max size`)
-        return false
-      }
-      if (!(isImageFile(file) || isVideoFile(file))) {
-        console.warn(`File ${file.name} is not a supported type`)
-        return false
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        const response = await fetch('/api/tags')
+        if (response.ok) {
+          const data = await response.json()
+          setTags(data.tags)
+        }
+      } catch (error) {
+        console.error('Failed to fetch tags:', error)
       }
-      return true
-    })
+    }
+    fetchTags()
+  }, [])
 
-    const uploads: FileUpload[] = validFiles.map((file) => ({
-      id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
-      file,
-      status: 'pending',
-      progress: 0,
-      sourcePlatform: 'other',
-      previewUrl: isImageFile(file) ? URL.createObjectURL(file) : undefined,
-    }))
+  const addFiles = useCallback(
+    (newFiles: FileList | File[]) => {
+      const fileArray = Array.from(newFiles)
+      const validFiles = fileArray.filter((file) => {
+        if (file.size > MAX_FILE_SIZE) {
+          console.warn(`File ${file.name} exceeds max size`)
+          return false
+        }
+        if (!(isImageFile(file) || isVideoFile(file))) {
+          console.warn(`File ${file.name} is not a supported type`)
+          return false
+        }
+        return true
+      })
+
+      const uploads: FileUpload[] = validFiles.map((file) => ({
+        id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+        file,
+        status: 'pending',
+        progress: 0,
+        ...defaults,
+        previewUrl: isImageFile(file) ? URL.createObjectURL(file) : undefined,
+      }))
+
+      setFiles((prev) => [...prev, ...uploads])
+    },
+    [defaults],
+  )
 
-    setFiles((prev) => [...prev, ...uploads])
-  }, [])
+  // Screenshots pasted anywhere on the page join the queue
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const pasted = Array.from(e.clipboardData?.files ?? [])
+      if (pasted.length === 0 || isTextPasteTarget(e)) {
+        return
+      }
+      e.preventDefault()
+      addFiles(pasted.map(renamePastedFile))
+    }
+
+    window.addEventListener('paste', handlePaste)
+    return () => window.removeEventListener('paste', handlePaste)
+  }, [addFiles])
 
   const removeFile = useCallback((id: string) => {
     setFiles((prev) => {
@@ -89,6 +239,9 @@ export function UploadDropzone({
       if (file?.previewUrl) {
         URL.revokeObjectURL(file.previewUrl)
       }
+      if (file && isResumable(file.file)) {
+        clearUploadCheckpoint(file.file).catch(() => undefined)
+      }
       return prev.filter((f) => f.id !== id)
     })
   }, [])
@@ -152,68 +305,222 @@ export function UploadDropzone({
     return null
   }
 
-  const uploadSingleFile = async (fileUpload: FileUpload) => {
-    updateFile(fileUpload.id, { status: 'uploading', progress: 0 })
+  // Best-effort: video cards fall back to the still preview without a sprite
+  const uploadSpriteSheet = async (file: File, upload: SignedUpload) => {
+    try {
+      const sprite = await generateVideoSpriteSheet(file)
+      await uploadToStorage(sprite.blob, upload.signedUrl, upload.token)
+      return sprite.frames
+    } catch (e) {
+      console.warn('Failed to generate sprite sheet:', e)
+      return undefined
+    }
+  }
 
-    const { assetId, assetUpload, previewUpload } = await initUpload(
+  // Continue an interrupted upload when possible, otherwise start a new one
+  const initFileUpload = async (fileUpload: FileUpload, sha256?: string) => {
+    const resumeAssetId =
+      assetIds.current.get(fileUpload.id) ??
+      (isResumable(fileUpload.file)
+        ? (await getUploadCheckpoint(fileUpload.file).catch(() => null))
+            ?.assetId
+        : undefined)
+    if (resumeAssetId) {
+      try {
+        return await initUpload(fileUpload.file, { resumeAssetId })
+      } catch (e) {
+        console.warn('Failed to resume upload, starting over:', e)
+      }
+    }
+    const notes = fileUpload.notes.trim() || undefined
+    return await initUpload(fileUpload.file, {
+      sourcePlatform: fileUpload.sourcePlatform,
+      captureUrl: fileUpload.captureUrl.trim() || undefined,
+      sha256,
+      // Keep tags and notes given for a file that is already stored
+      onDuplicate: fileUpload.tagIds.length > 0 || notes ? 'link' : undefined,
+      tagIds: fileUpload.tagIds,
+      notes,
+    })
+  }
+
+  // Large files go up in resumable chunks that can be paused
+  const uploadOriginal = async (
+    fileUpload: FileUpload,
+    assetId: string,
+    assetUpload: SignedUpload,
+    signal: AbortSignal,
+  ) => {
+    const onProgress = (progress: number) =>
+      updateFile(fileUpload.id, { progress: 20 + progress * 0.6 })
+
+    if (!isResumable(fileUpload.file)) {
+      await uploadToStorage(
+        fileUpload.file,
+        assetUpload.signedUrl,
+        assetUpload.token,
+        onProgress,
+        signal,
+      )
+      return
+    }
+
+    await uploadResumable(
       fileUpload.file,
-      { sourcePlatform: fileUpload.sourcePlatform },
+      {
+        assetId,
+        bucket: ASSETS_BUCKET,
+        path: assetUpload.path,
+        token: assetUpload.token,
+      },
+      { signal, onProgress },
     )
+  }
+
+  const uploadSingleFile = async (
+    fileUpload: FileUpload,
+    signal: AbortSignal,
+  ) => {
+    updateFile(fileUpload.id, { status: 'processing', progress: 0 })
+    // Hashing reads the whole file into memory, so large files are hashed
+    // server-side after finalize instead
+    const sha256 = isResumable(fileUpload.file)
+      ? undefined
+      : await calculateFileHash(fileUpload.file)
+
+    signal.throwIfAborted()
+    updateFile(fileUpload.id, { status: 'uploading', progress: 5 })
+    const init = await initFileUpload(fileUpload, sha256)
+
+    if (init.duplicate) {
+      updateFile(fileUpload.id, {
+        status: 'done',
+        progress: 100,
+        duplicate: true,
+      })
+      return init.assetId
+    }
+
+    const { assetId, assetUpload, previewUpload, spriteUpload } = init
+    assetIds.current.set(fileUpload.id, assetId)
 
     updateFile(fileUpload.id, { status: 'processing', progress: 10 })
     const previewData = await generatePreview(fileUpload.file)
 
-    updateFile(fileUpload.id, { progress: 20 })
-    await uploadToStorage(
-      fileUpload.file,
-      assetUpload.signedUrl,
-      assetUpload.token,
-      (progress) =>
-        updateFile(fileUpload.id, { progress: 20 + progress * 0.6 }),
-    )
+    signal.throwIfAborted()
+    updateFile(fileUpload.id, { status: 'uploading', progress: 20 })
+    await uploadOriginal(fileUpload, assetId, assetUpload, signal)
 
+    updateFile(fileUpload.id, { status: 'processing' })
     if (previewData?.blob && previewUpload) {
       updateFile(fileUpload.id, { progress: 85 })
       await uploadToStorage(
         previewData.blob,
         previewUpload.signedUrl,
         previewUpload.token,
+        undefined,
+        signal,
       )
     }
 
+    const spriteFrames = spriteUpload
+      ? await uploadSpriteSheet(fileUpload.file, spriteUpload)
+      : undefined
+
+    signal.throwIfAborted()
     updateFile(fileUpload.id, { progress: 95 })
+    const phash = previewData?.blob
+      ? await calculatePerceptualHash(previewData.blob).catch(() => undefined)
+      : undefined
     await finalizeUpload(assetId, {
       width: previewData?.width,
       height: previewData?.height,
       durationSeconds: previewData?.duration,
+      sha256,
+      phash,
+      spriteFrames,
       sizeBytes: fileUpload.file.size,
+      notes: fileUpload.notes.trim() || undefined,
+      tagIds: fileUpload.tagIds,
     })
 
-    updateFile(fileUpload.id, { status: 'done', progress: 100 })
+    assetIds.current.delete(fileUpload.id)
+    updateFile(fileUpload.id, {
+      status: 'done',
+      progress: 100,
+      error: undefined,
+    })
     return assetId
   }
 
-  const uploadFiles = async () => {
-    const pendingFiles = files.filter((f) => f.status === 'pending')
-    if (pendingFiles.length === 0) {
+  // Upload one file, retrying network and server errors with backoff.
+  // Paused uploads keep their asset so they can resume.
+  const runUpload = async (fileUpload: FileUpload) => {
+    const controller = new AbortController()
+    controllers.current.set(fileUpload.id, controller)
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          return await uploadSingleFile(fileUpload, controller.signal)
+        } catch (error) {
+          if (!isRetryableUploadError(error) || attempt > MAX_UPLOAD_RETRIES) {
+            throw error
+          }
+          const delay = uploadRetryDelay(attempt)
+          console.warn(`Upload failed, retrying in ${delay}ms:`, error)
+          updateFile(fileUpload.id, {
+            error: `Retrying (${attempt}/${MAX_UPLOAD_RETRIES})...`,
+          })
+          await waitForRetry(delay, controller.signal)
+        }
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        // Cancelled files are already gone from the list
+        updateFile(fileUpload.id, { status: 'paused', error: undefined })
+        return null
+      }
+      console.error('Upload error:', error)
+      updateFile(fileUpload.id, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Upload failed',
+      })
+      return null
+    } finally {
+      controllers.current.delete(fileUpload.id)
+    }
+  }
+
+  const pauseFile = (id: string) => {
+    controllers.current.get(id)?.abort()
+  }
+
+  // Stop an upload (if running) and drop the file from the queue
+  const cancelFile = (id: string) => {
+    controllers.current.get(id)?.abort()
+    assetIds.current.delete(id)
+    removeFile(id)
+  }
+
+  const startUploads = async (queued: FileUpload[]) => {
+    if (queued.length === 0) {
       return
     }
 
     setIsUploading(true)
     const completedIds: string[] = []
 
-    for (const fileUpload of pendingFiles) {
-      try {
-        const assetId = await uploadSingleFile(fileUpload)
-        completedIds.push(assetId)
-      } catch (error) {
-        console.error('Upload error:', error)
-        updateFile(fileUpload.id, {
-          status: 'error',
-          error: error instanceof Error ? error.message : 'Upload failed',
-        })
-      }
-    }
+    await Promise.all(
+      queued.map((fileUpload) =>
+        uploadSlots(async () => {
+          const assetId = await runUpload(fileUpload)
+          if (assetId) {
+            completedIds.push(assetId)
+          }
+        }),
+      ),
+    )
 
     setIsUploading(false)
 
@@ -222,8 +529,37 @@ export function UploadDropzone({
     }
   }
 
+  const resumeFile = async (fileUpload: FileUpload) => {
+    const assetId = await uploadSlots(() => runUpload(fileUpload))
+    if (assetId && onUploadComplete) {
+      onUploadComplete([assetId])
+    }
+  }
+
+  const uploadFiles = () =>
+    startUploads(files.filter((f) => f.status === 'pending'))
+
+  const retryFailed = () => {
+    const failed = files.filter((f) => f.status === 'error')
+    for (const fileUpload of failed) {
+      updateFile(fileUpload.id, {
+        status: 'pending',
+        progress: 0,
+        error: undefined,
+      })
+    }
+    return startUploads(failed)
+  }
+
+  const applyDefaultsToAll = () => {
+    setFiles((prev) =>
+      prev.map((f) => (f.status === 'pending' ? { ...f, ...defaults } : f)),
+    )
+  }
+
   const pendingCount = files.filter((f) => f.status === 'pending').length
   const completedCount = files.filter((f) => f.status === 'done').length
+  const failedCount = files.filter((f) => f.status === 'error').length
 
   return (
     <div className={cn('space-y-6', className)}>
@@ -259,7 +595,8 @@ export function UploadDropzone({
               {isDragging ? 'Drop files here' : 'Drag & drop files here'}
             </p>
             <p className="mt-1 text-muted-foreground text-sm">
-              or click to browse • Images and videos up to 100MB
+              or click to browse • paste a screenshot • Images and videos up to{' '}
+              {formatMaxFileSize()}
             </p>
           </div>
         </div>
@@ -274,33 +611,85 @@ export function UploadDropzone({
                 ? `${pendingCount} file${pendingCount > 1 ? 's' : ''} ready to upload`
                 : `${completedCount} file${completedCount > 1 ? 's' : ''} uploaded`}
             </h3>
-            {pendingCount > 0 && (
-              <Button disabled={isUploading} onClick={uploadFiles}>
-                {isUploading ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Uploading...
-                  </>
-                ) : (
-                  <>
-                    <Upload className="mr-2 h-4 w-4" />
-                    Upload {pendingCount} file{pendingCount > 1 ? 's' : ''}
-                  </>
-                )}
-              </Button>
-            )}
+            <div className="flex items-center gap-2">
+              {failedCount > 0 && (
+                <Button
+                  disabled={isUploading}
+                  onClick={retryFailed}
+                  variant="outline"
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  Retry {failedCount} failed
+                </Button>
+              )}
+              {pendingCount > 0 && (
+                <Button disabled={isUploading} onClick={uploadFiles}>
+                  {isUploading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Uploading...
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="mr-2 h-4 w-4" />
+                      Upload {pendingCount} file{pendingCount > 1 ? 's' : ''}
+                    </>
+                  )}
+                </Button>
+              )}
+            </div>
           </div>
 
+          {pendingCount > 0 && (
+            <div className="space-y-3 rounded-lg border bg-muted/30 p-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium text-sm">Defaults</p>
+                  <p className="text-muted-foreground text-xs">
+                    Used for files you add next, or apply them to every file
+                    waiting to upload
+                  </p>
+                </div>
+                <Button
+                  disabled={isUploading}
+                  onClick={applyDefaultsToAll}
+                  size="sm"
+                  variant="outline"
+                >
+                  Apply to all
+                </Button>
+              </div>
+              <UploadMetadataFields
+                disabled={isUploading}
+                onChange={(updates) =>
+                  setDefaults((prev) => ({ ...prev, ...updates }))
+                }
+                tags={tags}
+                value={defaults}
+              />
+            </div>
+          )}
+
           <div className="grid gap-3">
             {files.map((fileUpload) => (
               <FileUploadItem
-                disabled={isUploading || fileUpload.status !== 'pending'}
+                disabled={
+                  isUploading ||
+                  !(
+                    fileUpload.status === 'pending' ||
+                    fileUpload.status === 'paused'
+                  )
+                }
                 fileUpload={fileUpload}
                 key={fileUpload.id}
-                onRemove={() => removeFile(fileUpload.id)}
-                onSourceChange={(source) =>
-                  updateFile(fileUpload.id, { sourcePlatform: source })
+                onCancel={() => cancelFile(fileUpload.id)}
+                onMetadataChange={(updates) =>
+                  updateFile(fileUpload.id, updates)
                 }
+                onPause={() => pauseFile(fileUpload.id)}
+                onRemove={() => removeFile(fileUpload.id)}
+                onResume={() => resumeFile(fileUpload)}
+                tags={tags}
               />
             ))}
           </div>
@@ -313,118 +702,194 @@ export function UploadDropzone({
 interface FileUploadItemProps {
   fileUpload: FileUpload
   onRemove: () => void
-  onSourceChange: (source: string) => void
+  onCancel: () => void
+  onPause: () => void
+  onResume: () => void
+  onMetadataChange: (updates: Partial<UploadMetadata>) => void
+  tags: Tag[]
   disabled?: boolean
 }
 
 function FileUploadItem({
   fileUpload,
   onRemove,
-  onSourceChange,
+  onCancel,
+  onPause,
+  onResume,
+  onMetadataChange,
+  tags,
   disabled,
 }: FileUploadItemProps) {
-  const _isImage = isImageFile(fileUpload.file)
+  const [showDetails, setShowDetails] = useState(false)
   const isVideo = isVideoFile(fileUpload.file)
 
   return (
-    <div className="flex items-center gap-4 rounded-lg border bg-card p-4">
-      {/* Preview */}
-      <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-lg bg-muted">
-        {fileUpload.previewUrl ? (
-          <Image
-            alt={fileUpload.file.name}
-            className="object-cover"
-            fill
-            src={fileUpload.previewUrl}
-          />
-        ) : (
-          <div className="flex h-full w-full items-center justify-center">
-            {isVideo ? (
-              <Film className="h-6 w-6 text-muted-foreground" />
-            ) : (
-              <ImageIcon className="h-6 w-6 text-muted-foreground" />
-            )}
-          </div>
-        )}
-        {isVideo && (
-          <div className="absolute right-1 bottom-1 rounded bg-black/70 px-1 text-white text-xs">
-            Video
-          </div>
-        )}
-      </div>
-
-      {/* Info */}
-      <div className="min-w-0 flex-1 space-y-2">
-        <div className="flex items-center gap-2">
-          <p className="truncate font-medium">{fileUpload.file.name}</p>
-          <span className="flex-shrink-0 text-muted-foreground text-xs">
-            {(fileUpload.file.size / (1024 * 1024)).toFixed(1)} MB
-          </span>
+    <div className="space-y-3 rounded-lg border bg-card p-4">
+      <div className="flex items-center gap-4">
+        {/* Preview */}
+        <div className="relative h-16 w-16 flex-shrink-0 overflow-hidden rounded-lg bg-muted">
+          {fileUpload.previewUrl ? (
+            <Image
+              alt={fileUpload.file.name}
+              className="object-cover"
+              fill
+              src={fileUpload.previewUrl}
+            />
+          ) : (
+            <div className="flex h-full w-full items-center justify-center">
+              {isVideo ? (
+                <Film className="h-6 w-6 text-muted-foreground" />
+              ) : (
+                <ImageIcon className="h-6 w-6 text-muted-foreground" />
+              )}
+            </div>
+          )}
+          {isVideo && (
+            <div className="absolute right-1 bottom-1 rounded bg-black/70 px-1 text-white text-xs">
+              Video
+            </div>
+          )}
         </div>
 
-        {fileUpload.status === 'pending' && (
-          <Select
-            disabled={disabled}
-            onValueChange={(value) => onSourceChange(value ?? '')}
-            value={fileUpload.sourcePlatform}
-          >
-            <SelectTrigger className="h-8 w-48">
-              <SelectValue />
-            </SelectTrigger>
-            <SelectContent>
-              {DEFAULT_SOURCES.map((source) => (
-                <SelectItem key={source.key} value={source.key}>
-                  {source.label}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        )}
+        {/* Info */}
+        <div className="min-w-0 flex-1 space-y-2">
+          <div className="flex items-center gap-2">
+            <p className="truncate font-medium">{fileUpload.file.name}</p>
+            <span className="flex-shrink-0 text-muted-foreground text-xs">
+              {(fileUpload.file.size / (1024 * 1024)).toFixed(1)} MB
+            </span>
+          </div>
 
-        {(fileUpload.status === 'uploading' ||
-          fileUpload.status === 'processing') && (
-          <div className="space-y-1">
-            <Progress className="h-1.5" value={fileUpload.progress} />
+          {fileUpload.status === 'pending' && (
+            <button
+              className="flex items-center gap-1 text-muted-foreground text-xs hover:text-foreground disabled:pointer-events-none"
+              disabled={disabled}
+              onClick={() => setShowDetails((show) => !show)}
+              type="button"
+            >
+              {metadataSummary(fileUpload)}
+              <ChevronDown
+                className={cn(
+                  'h-3 w-3 transition-transform',
+                  showDetails && 'rotate-180',
+                )}
+              />
+            </button>
+          )}
+
+          {(fileUpload.status === 'uploading' ||
+            fileUpload.status === 'processing' ||
+            fileUpload.status === 'paused') && (
+            <div className="space-y-1">
+              <Progress className="h-1.5" value={fileUpload.progress} />
+              <p className="text-muted-foreground text-xs">
+                {progressLabel(fileUpload)}
+              </p>
+            </div>
+          )}
+
+          {fileUpload.duplicate && (
             <p className="text-muted-foreground text-xs">
-              {fileUpload.status === 'processing'
-                ? 'Processing...'
-                : 'Uploading...'}
+              Already in your library — skipped
             </p>
-          </div>
-        )}
+          )}
 
-        {fileUpload.status === 'error' && (
-          <p className="flex items-center gap-1 text-destructive text-xs">
-            <AlertCircle className="h-3 w-3" />
-            {fileUpload.error}
-          </p>
-        )}
+          {fileUpload.status === 'error' && (
+            <p className="flex items-center gap-1 text-destructive text-xs">
+              <AlertCircle className="h-3 w-3" />
+              {fileUpload.error}
+            </p>
+          )}
+        </div>
+
+        {/* Status / Actions */}
+        <FileUploadActions
+          disabled={disabled}
+          fileUpload={fileUpload}
+          onCancel={onCancel}
+          onPause={onPause}
+          onRemove={onRemove}
+          onResume={onResume}
+        />
       </div>
 
-      {/* Status / Actions */}
-      <div className="flex-shrink-0">
-        {fileUpload.status === 'done' && (
-          <CheckCircle2 className="h-5 w-5 text-green-500" />
-        )}
-        {fileUpload.status === 'error' && (
-          <AlertCircle className="h-5 w-5 text-destructive" />
-        )}
-        {(fileUpload.status === 'uploading' ||
-          fileUpload.status === 'processing') && (
+      {showDetails && fileUpload.status === 'pending' && (
+        <UploadMetadataFields
+          className="border-t pt-3"
+          disabled={disabled}
+          onChange={onMetadataChange}
+          tags={tags}
+          value={fileUpload}
+        />
+      )}
+    </div>
+  )
+}
+
+function FileUploadActions({
+  fileUpload,
+  onRemove,
+  onCancel,
+  onPause,
+  onResume,
+  disabled,
+}: Omit<FileUploadItemProps, 'onMetadataChange' | 'tags'>) {
+  return (
+    <div className="flex flex-shrink-0 items-center gap-1">
+      {fileUpload.status === 'done' && (
+        <CheckCircle2 className="h-5 w-5 text-green-500" />
+      )}
+      {fileUpload.status === 'error' && (
+        <AlertCircle className="h-5 w-5 text-destructive" />
+      )}
+      {fileUpload.status === 'uploading' && isResumable(fileUpload.file) && (
+        <Button
+          className="h-8 w-8"
+          onClick={onPause}
+          size="icon"
+          title="Pause upload"
+          variant="ghost"
+        >
+          <Pause className="h-4 w-4" />
+        </Button>
+      )}
+      {fileUpload.status === 'paused' && (
+        <Button
+          className="h-8 w-8"
+          onClick={onResume}
+          size="icon"
+          title="Resume upload"
+          variant="ghost"
+        >
+          <Play className="h-4 w-4" />
+        </Button>
+      )}
+      {(fileUpload.status === 'uploading' ||
+        fileUpload.status === 'processing') && (
+        <>
           <Loader2 className="h-5 w-5 animate-spin text-primary" />
-        )}
-        {fileUpload.status === 'pending' && (
           <Button
             className="h-8 w-8"
-            disabled={disabled}
-            onClick={onRemove}
+            onClick={onCancel}
             size="icon"
+            title="Cancel upload"
             variant="ghost"
           >
             <X className="h-4 w-4" />
           </Button>
-        )}
-      </div>
+        </>
+      )}
+      {(fileUpload.status === 'pending' || fileUpload.status === 'paused') && (
+        <Button
+          className="h-8 w-8"
+          disabled={disabled}
+          onClick={onRemove}
+          size="icon"
+          variant="ghost"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
     </div>
   )
 }
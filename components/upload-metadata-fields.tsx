@@ -0,0 +1,153 @@
+'use client'
+
+import { X } from 'lucide-react'
+import { useId } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { DEFAULT_SOURCES, detectSourceFromUrl } from '@/db/schema/sources'
+import type { Tag } from '@/db/schema/tags'
+import { cn } from '@/lib/utils'
+
+export interface UploadMetadata {
+  sourcePlatform: string
+  tagIds: string[]
+  notes: string
+  captureUrl: string
+}
+
+export const EMPTY_UPLOAD_METADATA: UploadMetadata = {
+  sourcePlatform: 'other',
+  tagIds: [],
+  notes: '',
+  captureUrl: '',
+}
+
+interface UploadMetadataFieldsProps {
+  value: UploadMetadata
+  onChange: (updates: Partial<UploadMetadata>) => void
+  tags: Tag[]
+  disabled?: boolean
+  className?: string
+}
+
+export function UploadMetadataFields({
+  value,
+  onChange,
+  tags,
+  disabled,
+  className,
+}: UploadMetadataFieldsProps) {
+  const id = useId()
+
+  const toggleTag = (tagId: string) => {
+    onChange({
+      tagIds: value.tagIds.includes(tagId)
+        ? value.tagIds.filter((t) => t !== tagId)
+        : [...value.tagIds, tagId],
+    })
+  }
+
+  // Pick the source from the capture URL unless one was chosen already
+  const changeCaptureUrl = (captureUrl: string) => {
+    const detected = detectSourceFromUrl(captureUrl)
+    onChange(
+      value.sourcePlatform === 'other' && detected !== 'other'
+        ? { captureUrl, sourcePlatform: detected }
+        : { captureUrl },
+    )
+  }
+
+  return (
+    <div className={cn('grid gap-3 sm:grid-cols-2', className)}>
+      <div className="space-y-1.5">
+        <Label htmlFor={`${id}-source`}>Source</Label>
+        <Select
+          disabled={disabled}
+          onValueChange={(source) => onChange({ sourcePlatform: source ?? '' })}
+          value={value.sourcePlatform}
+        >
+          <SelectTrigger className="h-8 w-full" id={`${id}-source`}>
+            <SelectValue>
+              {DEFAULT_SOURCES.find((s) => s.key === value.sourcePlatform)
+                ?.label || value.sourcePlatform}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            {DEFAULT_SOURCES.map((source) => (
+              <SelectItem key={source.key} value={source.key}>
+                {source.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label htmlFor={`${id}-capture-url`}>Capture URL</Label>
+        <Input
+          className="h-8"
+          disabled={disabled}
+          id={`${id}-capture-url`}
+          onChange={(e) => changeCaptureUrl(e.target.value)}
+          placeholder="https://..."
+          type="url"
+          value={value.captureUrl}
+        />
+      </div>
+
+      <div className="space-y-1.5 sm:col-span-2">
+        <Label>Tags</Label>
+        {tags.length === 0 ? (
+          <p className="text-muted-foreground text-xs">No tags created yet</p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5">
+            {tags.map((tag) => {
+              const selected = value.tagIds.includes(tag.id)
+              return (
+                <Badge
+                  className={cn(
+                    'cursor-pointer',
+                    disabled && 'pointer-events-none opacity-50',
+                  )}
+                  key={tag.id}
+                  onClick={() => toggleTag(tag.id)}
+                  style={{
+                    borderColor: tag.color,
+                    ...(selected
+                      ? { backgroundColor: tag.color, color: 'white' }
+                      : { color: tag.color }),
+                  }}
+                  variant={selected ? 'default' : 'outline'}
+                >
+                  {tag.name}
+                  {selected && <X className="ml-1 h-3 w-3" />}
+                </Badge>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1.5 sm:col-span-2">
+        <Label htmlFor={`${id}-notes`}>Notes</Label>
+        <Textarea
+          className="min-h-16"
+          disabled={disabled}
+          id={`${id}-notes`}
+          onChange={(e) => onChange({ notes: e.target.value })}
+          placeholder="Add notes about this asset..."
+          value={value.notes}
+        />
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,12 @@
 import { drizzle } from 'drizzle-orm/postgres-js'
 import postgres from 'postgres'
 import { assets, assetTags } from './schema/assets'
+import { collectionAssets, collections } from './schema/collections'
+import { imports } from './schema/imports'
+import { jobs } from './schema/jobs'
 import { personalAccessTokens } from './schema/personal-access-tokens'
 import { sources } from './schema/sources'
+import { storageSweeps } from './schema/storage-sweeps'
 import { tags } from './schema/tags'
 
 // Connection for queries (with connection pooling)
@@ -18,8 +22,13 @@ export const db = drizzle(client, {
   schema: {
     assets,
     assetTags,
+    collectionAssets,
+    collections,
+    imports,
+    jobs,
     personalAccessTokens,
     sources,
+    storageSweeps,
     tags,
   },
 })
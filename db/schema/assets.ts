@@ -1,6 +1,8 @@
-import { relations } from 'drizzle-orm'
+import { relations, sql } from 'drizzle-orm'
 import {
   bigint,
+  customType,
+  date,
   index,
   integer,
   jsonb,
@@ -12,10 +14,20 @@ import {
   uuid,
 } from 'drizzle-orm/pg-core'
 
+// Postgres full-text search vector
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector'
+  },
+})
+
 // Enums
 export const captureMethodEnum = pgEnum('capture_method', [
   'web_upload',
   'extension_capture',
+  'extension_screenshot',
+  'archive_import',
+  'url_import',
 ])
 
 export const assetStatusEnum = pgEnum('asset_status', [
@@ -45,7 +57,21 @@ export const assets = pgTable(
     captureMethod: captureMethodEnum('capture_method').notNull(),
     sourcePlatform: text('source_platform').notNull().default('other'),
     captureUrl: text('capture_url'),
+    pageTitle: text('page_title'),
     mediaUrl: text('media_url'), // Original media URL (for fallback captures)
+    mediaUrlKey: text('media_url_key'), // mediaUrl without signatures (lib/media-url.ts)
+
+    // Ad context scraped around the media by the extension
+    pageDescription: text('page_description'),
+    postText: text('post_text'),
+    advertiserName: text('advertiser_name'),
+    advertiserHandle: text('advertiser_handle'),
+    ctaText: text('cta_text'),
+    landingPageUrl: text('landing_page_url'),
+    // Ad library listings (Meta Ad Library, TikTok Creative Center)
+    adLibraryId: text('ad_library_id'),
+    adStartDate: date('ad_start_date'), // YYYY-MM-DD
+    adPlatforms: text('ad_platforms').array(),
 
     // File info
     originalFilename: text('original_filename').notNull(),
@@ -62,11 +88,18 @@ export const assets = pgTable(
     storagePath: text('storage_path').notNull(),
     previewBucket: text('preview_bucket'),
     previewPath: text('preview_path'),
+    // Video sprite sheet for hover scrubbing (stored in the previews bucket)
+    spritePath: text('sprite_path'),
+    spriteFrames: integer('sprite_frames'),
 
     // Metadata
     sha256: text('sha256'),
+    phash: text('phash'), // 64-bit dHash of the preview as 16 hex chars
     notes: text('notes'),
     extra: jsonb('extra').$type<Record<string, unknown>>(),
+
+    // Search (maintained by refreshAssetSearchVectors in lib/search.ts)
+    searchVector: tsvector('search_vector'),
   },
   (table) => [
     index('assets_owner_created_idx').on(table.ownerId, table.createdAt),
@@ -74,6 +107,17 @@ export const assets = pgTable(
     index('assets_owner_mime_idx').on(table.ownerId, table.mimeType),
     index('assets_owner_status_idx').on(table.ownerId, table.status),
     index('assets_sha256_idx').on(table.sha256),
+    // Hashed: signed CDN URLs can outgrow a btree index row
+    index('assets_owner_media_url_idx').on(
+      table.ownerId,
+      sql`md5(${table.mediaUrl})`,
+    ),
+    index('assets_owner_media_url_key_idx').on(
+      table.ownerId,
+      sql`md5(${table.mediaUrlKey})`,
+    ),
+    index('assets_owner_phash_idx').on(table.ownerId, table.phash),
+    index('assets_search_idx').using('gin', table.searchVector),
   ],
 )
 
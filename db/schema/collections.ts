@@ -0,0 +1,88 @@
+import { relations } from 'drizzle-orm'
+import {
+  index,
+  integer,
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core'
+import { assets } from './assets'
+
+// Collections table (curated, ordered boards of assets)
+export const collections = pgTable(
+  'collections',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    ownerId: uuid('owner_id').notNull(),
+    name: text('name').notNull(),
+    description: text('description'),
+    coverAssetId: uuid('cover_asset_id').references(() => assets.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    index('collections_owner_created_idx').on(table.ownerId, table.createdAt),
+  ],
+)
+
+// Collection-Assets junction table (an asset can sit in many collections)
+export const collectionAssets = pgTable(
+  'collection_assets',
+  {
+    collectionId: uuid('collection_id')
+      .notNull()
+      .references(() => collections.id, { onDelete: 'cascade' }),
+    assetId: uuid('asset_id')
+      .notNull()
+      .references(() => assets.id, { onDelete: 'cascade' }),
+    position: integer('position').notNull().default(0),
+    addedAt: timestamp('added_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.collectionId, table.assetId] }),
+    index('collection_assets_collection_position_idx').on(
+      table.collectionId,
+      table.position,
+    ),
+    index('collection_assets_asset_idx').on(table.assetId),
+  ],
+)
+
+// Relations
+export const collectionsRelations = relations(collections, ({ one, many }) => ({
+  coverAsset: one(assets, {
+    fields: [collections.coverAssetId],
+    references: [assets.id],
+  }),
+  collectionAssets: many(collectionAssets),
+}))
+
+export const collectionAssetsRelations = relations(
+  collectionAssets,
+  ({ one }) => ({
+    collection: one(collections, {
+      fields: [collectionAssets.collectionId],
+      references: [collections.id],
+    }),
+    asset: one(assets, {
+      fields: [collectionAssets.assetId],
+      references: [assets.id],
+    }),
+  }),
+)
+
+// Types
+export type Collection = typeof collections.$inferSelect
+export type NewCollection = typeof collections.$inferInsert
+export type CollectionAsset = typeof collectionAssets.$inferSelect
+export type NewCollectionAsset = typeof collectionAssets.$inferInsert
@@ -0,0 +1,58 @@
+import {
+  index,
+  integer,
+  jsonb,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core'
+
+export const importStatusEnum = pgEnum('import_status', [
+  'uploading',
+  'queued',
+  'processing',
+  'completed',
+  'failed',
+])
+
+// Outcome of a single manifest row
+export interface ImportRowResult {
+  row: number
+  file: string
+  status: 'imported' | 'duplicate' | 'failed'
+  assetId?: string
+  error?: string
+}
+
+// Library imports from a ZIP archive with a manifest
+export const imports = pgTable(
+  'imports',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    ownerId: uuid('owner_id').notNull(),
+    status: importStatusEnum('status').notNull().default('uploading'),
+    filename: text('filename').notNull(),
+    storageBucket: text('storage_bucket').notNull(),
+    storagePath: text('storage_path').notNull(),
+    totalRows: integer('total_rows').notNull().default(0),
+    processedRows: integer('processed_rows').notNull().default(0),
+    report: jsonb('report').$type<ImportRowResult[]>().notNull().default([]),
+    error: text('error'),
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+  },
+  (table) => [
+    index('imports_owner_created_idx').on(table.ownerId, table.createdAt),
+  ],
+)
+
+// Types
+export type Import = typeof imports.$inferSelect
+export type NewImport = typeof imports.$inferInsert
@@ -0,0 +1,71 @@
+import { sql } from 'drizzle-orm'
+import {
+  index,
+  integer,
+  jsonb,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uniqueIndex,
+  uuid,
+} from 'drizzle-orm/pg-core'
+import { assets } from './assets'
+
+export const jobTypeEnum = pgEnum('job_type', [
+  'process_asset',
+  'process_import',
+])
+
+// queued -> running -> completed, or back to queued for a retry.
+// Jobs that exhaust their attempts are dead-lettered as 'dead'.
+export const jobStatusEnum = pgEnum('job_status', [
+  'queued',
+  'running',
+  'completed',
+  'dead',
+])
+
+// Background jobs, claimed by the worker in lib/jobs.ts
+export const jobs = pgTable(
+  'jobs',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    ownerId: uuid('owner_id').notNull(),
+    type: jobTypeEnum('type').notNull(),
+    status: jobStatusEnum('status').notNull().default('queued'),
+    assetId: uuid('asset_id').references(() => assets.id, {
+      onDelete: 'cascade',
+    }),
+    payload: jsonb('payload').$type<Record<string, string>>(),
+
+    // Retries
+    attempts: integer('attempts').notNull().default(0),
+    maxAttempts: integer('max_attempts').notNull().default(5),
+    runAt: timestamp('run_at', { withTimezone: true }).notNull().defaultNow(),
+    lockedAt: timestamp('locked_at', { withTimezone: true }),
+    lastError: text('last_error'),
+
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+  },
+  (table) => [
+    index('jobs_status_run_at_idx').on(table.status, table.runAt),
+    index('jobs_owner_status_idx').on(table.ownerId, table.status),
+    index('jobs_asset_idx').on(table.assetId),
+    // At most one queued job per asset and type (see enqueueJob)
+    uniqueIndex('jobs_queued_asset_type_idx')
+      .on(table.assetId, table.type)
+      .where(sql`${table.status} = 'queued'`),
+  ],
+)
+
+// Types
+export type Job = typeof jobs.$inferSelect
+export type NewJob = typeof jobs.$inferInsert
+export type JobType = (typeof jobTypeEnum.enumValues)[number]
@@ -0,0 +1,19 @@
+import { jsonb, pgTable, text, timestamp } from 'drizzle-orm/pg-core'
+
+// Where the orphaned-object sweep of a bucket left off
+export interface SweepCursor {
+  folders: string[] // Folders still to list, the one in progress first
+  offset: number // Position within the folder in progress
+}
+
+// Progress of the incremental storage sweep in lib/reconcile.ts
+export const storageSweeps = pgTable('storage_sweeps', {
+  bucket: text('bucket').primaryKey(),
+  cursor: jsonb('cursor').$type<SweepCursor>().notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+})
+
+// Types
+export type StorageSweep = typeof storageSweeps.$inferSelect
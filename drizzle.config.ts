@@ -10,8 +10,12 @@ if (!process.env.POSTGRES_URL) {
 export default defineConfig({
   schema: [
     './db/schema/assets.ts',
+    './db/schema/collections.ts',
+    './db/schema/imports.ts',
+    './db/schema/jobs.ts',
     './db/schema/personal-access-tokens.ts',
     './db/schema/sources.ts',
+    './db/schema/storage-sweeps.ts',
     './db/schema/tags.ts',
   ],
   out: './drizzle',
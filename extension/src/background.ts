@@ -2,14 +2,61 @@
 
 import type {
   CaptureRequest,
+  CaptureResult,
+  CaptureStatusPayload,
+  CaptureUpload,
+  ContextMenuTargetResponse,
+  CreateTagPayload,
   InitUploadResponse,
+  LookupMediaPayload,
+  LookupMediaResponse,
+  MediaCandidate,
   Message,
+  PageContext,
+  PickTagsResponse,
+  ScreenshotRegion,
+  ScreenshotRequest,
+  StorageConfig,
+  TagOption,
   UploadCompletePayload,
   UploadErrorPayload,
   UploadProgressPayload,
+  UploadQueuedPayload,
 } from './types'
+import {
+  deleteQueuedCapture,
+  enqueueCapture,
+  getQueuedCaptures,
+  getQueueStatus,
+  type QueuedCapture,
+  saveQueuedCapture,
+} from './utils/capture-queue'
+import { detectSourceFromUrl } from './utils/source-detection'
 import { getConfig } from './utils/storage'
 
+const TIMESTAMP_REGEX = /[:.]/g
+
+const CONTEXT_MENU_SAVE = 'adstash-save-media'
+const CONTEXT_MENU_SAVE_WITH_TAGS = 'adstash-save-media-with-tags'
+
+const QUEUE_ALARM = 'adstash-capture-queue'
+const QUEUE_MAX_ATTEMPTS = 8
+const QUEUE_BASE_DELAY_MS = 60 * 1000
+const QUEUE_MAX_DELAY_MS = 60 * 60 * 1000
+
+/**
+ * An API or storage request that failed; status is absent for network errors
+ */
+class CaptureError extends Error {
+  status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'CaptureError'
+    this.status = status
+  }
+}
+
 // Listen for messages from popup/content scripts
 chrome.runtime.onMessage.addListener(
   (message: Message, sender, sendResponse) => {
@@ -21,13 +68,260 @@ chrome.runtime.onMessage.addListener(
         )
       return true // Indicates async response
     }
+
+    if (message.type === 'CAPTURE_SCREENSHOT') {
+      handleCaptureScreenshot(
+        message.payload as ScreenshotRequest,
+        sender.tab?.windowId,
+      )
+        .then((result) => sendResponse({ success: true, ...result }))
+        .catch((error) =>
+          sendResponse({ success: false, error: error.message }),
+        )
+      return true
+    }
+
+    if (message.type === 'GET_TAGS') {
+      fetchTags()
+        .then((tags) => sendResponse({ tags }))
+        .catch((error) => sendResponse({ error: error.message }))
+      return true
+    }
+
+    if (message.type === 'CREATE_TAG') {
+      createTag((message.payload as CreateTagPayload).name)
+        .then((tag) => sendResponse({ tag }))
+        .catch((error) => sendResponse({ error: error.message }))
+      return true
+    }
+
+    if (message.type === 'LOOKUP_MEDIA') {
+      lookupMedia(message.payload as LookupMediaPayload)
+        .then(sendResponse)
+        .catch((error) => sendResponse({ error: error.message }))
+      return true
+    }
+
+    if (message.type === 'GET_QUEUE_STATUS') {
+      getQueueStatus().then(sendResponse)
+      return true
+    }
+
+    if (message.type === 'RETRY_QUEUE') {
+      retryQueuedCaptures().then(() => sendResponse({ success: true }))
+      return true
+    }
+
+    if (message.type === 'DISCARD_FAILED') {
+      discardFailedCaptures().then(() => sendResponse({ success: true }))
+      return true
+    }
   },
 )
 
-async function handleCaptureMedia(
-  request: CaptureRequest,
-  tabId?: number,
-): Promise<{ assetId: string }> {
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === QUEUE_ALARM) {
+    processCaptureQueue()
+  }
+})
+
+chrome.runtime.onStartup.addListener(() => {
+  processCaptureQueue()
+})
+
+// A new token or API URL may fix captures that were rejected
+chrome.storage.onChanged.addListener((_changes, areaName) => {
+  if (areaName === 'sync') {
+    retryQueuedCaptures()
+  }
+})
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  if (
+    info.menuItemId === CONTEXT_MENU_SAVE ||
+    info.menuItemId === CONTEXT_MENU_SAVE_WITH_TAGS
+  ) {
+    handleContextMenuCapture(info, tab)
+  }
+})
+
+function createContextMenus() {
+  chrome.contextMenus.removeAll(() => {
+    chrome.contextMenus.create({
+      id: CONTEXT_MENU_SAVE,
+      title: 'Save image/video to AdStash',
+      contexts: ['image', 'video'],
+    })
+    chrome.contextMenus.create({
+      id: CONTEXT_MENU_SAVE_WITH_TAGS,
+      title: 'Save with tags…',
+      contexts: ['image', 'video'],
+    })
+  })
+}
+
+// Capture the right-clicked media without scanning the page
+async function handleContextMenuCapture(
+  info: chrome.contextMenus.OnClickData,
+  tab?: chrome.tabs.Tab,
+) {
+  if (!(info.srcUrl && tab?.id)) {
+    return
+  }
+  const tabId = tab.id
+
+  try {
+    if (info.srcUrl.startsWith('blob:') || info.srcUrl.startsWith('data:')) {
+      throw new Error(
+        "This media can't be saved directly. Try a screenshot instead.",
+      )
+    }
+
+    const target = await getContextMenuTarget(tabId, tab, info.frameId)
+
+    let tagIds: string[] | undefined
+    if (info.menuItemId === CONTEXT_MENU_SAVE_WITH_TAGS) {
+      const picked = await pickTags(tabId)
+      if (!picked) {
+        return
+      }
+      tagIds = picked
+    }
+
+    showCaptureStatus(tabId, { message: 'Saving to AdStash...' })
+    const result = await handleCaptureMedia({
+      candidate: {
+        ...target.candidate,
+        id: `context-menu-${Date.now()}`,
+        type: info.mediaType === 'video' ? 'video' : 'image',
+        url: info.srcUrl,
+      },
+      pageContext: target.pageContext,
+      tagIds,
+    })
+    showCaptureStatus(tabId, { message: captureResultMessage(result) })
+  } catch (error) {
+    showCaptureStatus(tabId, {
+      message: error instanceof Error ? error.message : 'Failed to save',
+      isError: true,
+    })
+  }
+}
+
+function captureResultMessage(result: CaptureResult): string {
+  if (result.queued) {
+    return 'AdStash is unreachable, the capture will be retried'
+  }
+  return result.duplicate ? 'Already saved to AdStash' : 'Saved to AdStash'
+}
+
+// Falls back to the tab's URL and title where the content script isn't loaded
+async function getContextMenuTarget(
+  tabId: number,
+  tab: chrome.tabs.Tab,
+  frameId?: number,
+): Promise<ContextMenuTargetResponse> {
+  try {
+    const target = await chrome.tabs.sendMessage<
+      Message,
+      ContextMenuTargetResponse
+    >(tabId, { type: 'GET_CONTEXT_MENU_TARGET' }, { frameId: frameId ?? 0 })
+    if (target) {
+      return target
+    }
+  } catch {
+    // No content script in this frame
+  }
+
+  const pageContext: PageContext = {
+    url: tab.url ?? '',
+    title: tab.title ?? '',
+    sourcePlatform: detectSourceFromUrl(tab.url ?? ''),
+  }
+  return { pageContext, candidate: {} }
+}
+
+async function fetchTags(): Promise<TagOption[]> {
+  const config = await getAccessConfig()
+  const response = await fetch(`${config.apiUrl}/api/extension/tags`, {
+    headers: { Authorization: `Bearer ${config.accessToken}` },
+  })
+  if (!response.ok) {
+    throw new Error('Failed to load tags')
+  }
+  const data: { tags: TagOption[] } = await response.json()
+  return data.tags
+}
+
+async function createTag(name: string): Promise<TagOption> {
+  const config = await getAccessConfig()
+  const response = await fetch(`${config.apiUrl}/api/extension/tags`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${config.accessToken}`,
+    },
+    body: JSON.stringify({ name }),
+  })
+  if (!response.ok) {
+    throw await responseError(response, 'Failed to create tag')
+  }
+  const data: { tag: TagOption } = await response.json()
+  return data.tag
+}
+
+async function lookupMedia(
+  payload: LookupMediaPayload,
+): Promise<LookupMediaResponse> {
+  const config = await getAccessConfig()
+  const response = await fetch(`${config.apiUrl}/api/extension/assets/lookup`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${config.accessToken}`,
+    },
+    body: JSON.stringify(payload),
+  })
+  if (!response.ok) {
+    throw await responseError(response, 'Failed to look up media')
+  }
+  return await response.json()
+}
+
+// The picker is shown by the content script in the top frame
+async function pickTags(tabId: number): Promise<string[] | null> {
+  const tags = await fetchTags()
+  try {
+    const response = await chrome.tabs.sendMessage<Message, PickTagsResponse>(
+      tabId,
+      { type: 'PICK_TAGS', payload: { tags } },
+      { frameId: 0 },
+    )
+    return response.tagIds
+  } catch {
+    throw new Error('Tags can only be picked on supported sites')
+  }
+}
+
+// Toast on the page, or the toolbar badge where there's no content script
+function showCaptureStatus(tabId: number, payload: CaptureStatusPayload) {
+  chrome.tabs
+    .sendMessage<Message>(
+      tabId,
+      { type: 'SHOW_CAPTURE_STATUS', payload },
+      { frameId: 0 },
+    )
+    .catch(() => {
+      chrome.action.setBadgeBackgroundColor({
+        tabId,
+        color: payload.isError ? '#dc2626' : '#22c55e',
+      })
+      chrome.action.setBadgeText({ tabId, text: payload.isError ? '!' : '✓' })
+      setTimeout(() => chrome.action.setBadgeText({ tabId, text: '' }), 3000)
+    })
+}
+
+async function getAccessConfig() {
   const config = await getConfig()
 
   if (!config.accessToken) {
@@ -36,7 +330,15 @@ async function handleCaptureMedia(
     )
   }
 
-  const { candidate, pageContext, tagIds } = request
+  return config
+}
+
+async function handleCaptureMedia(
+  request: CaptureRequest,
+  tabId?: number,
+): Promise<CaptureResult> {
+  const config = await getAccessConfig()
+  const { candidate } = request
 
   // Notify progress
   notifyProgress(tabId, candidate.id, 5)
@@ -64,33 +366,173 @@ async function handleCaptureMedia(
   const mimeType =
     blob?.type || (candidate.type === 'video' ? 'video/mp4' : 'image/jpeg')
 
-  // Initialize upload with API
-  const initResponse = await fetch(
-    `${config.apiUrl}/api/extension/assets/init`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${config.accessToken}`,
-      },
-      body: JSON.stringify({
-        filename,
-        mimeType,
-        sizeBytes: blob?.size,
-        sourcePlatform: pageContext.sourcePlatform,
-        captureUrl: pageContext.url,
-        mediaUrl: candidate.url,
-        hasBlob: !!blob,
-      }),
-    },
+  return await sendOrQueueCapture(
+    config,
+    { ...request, blob, filename, mimeType },
+    tabId,
+  )
+}
+
+async function handleCaptureScreenshot(
+  request: ScreenshotRequest,
+  windowId?: number,
+): Promise<CaptureResult> {
+  const config = await getAccessConfig()
+
+  const dataUrl = await chrome.tabs.captureVisibleTab(
+    windowId ?? chrome.windows.WINDOW_ID_CURRENT,
+    { format: 'png' },
+  )
+  const { blob, width, height } = await cropScreenshot(
+    dataUrl,
+    request.region,
+    request.viewportWidth,
   )
 
+  const timestamp = new Date().toISOString().replace(TIMESTAMP_REGEX, '-')
+  const candidate: MediaCandidate = {
+    id: `screenshot-${Date.now()}`,
+    type: 'image',
+    url: request.pageContext.url,
+    width,
+    height,
+    context: request.context,
+  }
+
+  return await sendOrQueueCapture(config, {
+    candidate,
+    pageContext: request.pageContext,
+    tagIds: request.tagIds,
+    notes: request.notes,
+    blob,
+    filename: `screenshot-${timestamp}.png`,
+    mimeType: 'image/png',
+    screenshot: true,
+  })
+}
+
+// Crop the captured viewport to a region given in CSS pixels
+async function cropScreenshot(
+  dataUrl: string,
+  region?: ScreenshotRegion,
+  viewportWidth?: number,
+): Promise<{ blob: Blob; width: number; height: number }> {
+  const image = await (await fetch(dataUrl)).blob()
+  const bitmap = await createImageBitmap(image)
+
+  if (!(region && viewportWidth)) {
+    const { width, height } = bitmap
+    bitmap.close()
+    return { blob: image, width, height }
+  }
+
+  // The capture is in device pixels
+  const scale = bitmap.width / viewportWidth
+  const x = Math.max(0, Math.round(region.x * scale))
+  const y = Math.max(0, Math.round(region.y * scale))
+  const width = Math.min(bitmap.width - x, Math.round(region.width * scale))
+  const height = Math.min(bitmap.height - y, Math.round(region.height * scale))
+  if (width <= 0 || height <= 0) {
+    bitmap.close()
+    throw new Error('Selected region is outside the visible page')
+  }
+
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    bitmap.close()
+    throw new Error('Failed to get canvas context')
+  }
+  ctx.drawImage(bitmap, x, y, width, height, 0, 0, width, height)
+  bitmap.close()
+
+  const blob = await canvas.convertToBlob({ type: 'image/png' })
+  return { blob, width, height }
+}
+
+// Tracks the asset a capture created, so a retry can continue it
+interface CaptureAttempt {
+  assetId?: string
+}
+
+async function postInit(config: StorageConfig, body: object) {
+  return await fetch(`${config.apiUrl}/api/extension/assets/init`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${config.accessToken}`,
+    },
+    body: JSON.stringify(body),
+  })
+}
+
+// Create the asset, or get fresh upload URLs for one an earlier attempt
+// created. Starts over only when that asset is gone or already finished.
+async function initCapture(
+  config: StorageConfig,
+  upload: CaptureUpload,
+  sha256: string | undefined,
+  resumeAssetId?: string,
+): Promise<InitUploadResponse> {
+  if (resumeAssetId) {
+    const resumeResponse = await postInit(config, {
+      resumeAssetId,
+      hasBlob: !!upload.blob,
+    })
+    if (resumeResponse.ok) {
+      return await resumeResponse.json()
+    }
+    if (resumeResponse.status !== 404) {
+      throw await responseError(resumeResponse, 'Failed to resume upload')
+    }
+  }
+
+  const { candidate, pageContext, tagIds, blob, screenshot } = upload
+  const initResponse = await postInit(config, {
+    filename: upload.filename,
+    mimeType: upload.mimeType,
+    sizeBytes: blob?.size,
+    sourcePlatform: pageContext.sourcePlatform,
+    captureUrl: pageContext.url,
+    pageTitle: pageContext.title,
+    pageDescription: pageContext.description,
+    mediaUrl: screenshot ? undefined : candidate.url,
+    context: candidate.context,
+    screenshot,
+    hasBlob: !!blob,
+    sha256,
+    onDuplicate: 'link',
+    tagIds,
+    notes: upload.notes,
+  })
+
   if (!initResponse.ok) {
-    const error = await initResponse.json()
-    throw new Error(error.error || 'Failed to initialize upload')
+    throw await responseError(initResponse, 'Failed to initialize upload')
   }
 
-  const initData: InitUploadResponse = await initResponse.json()
+  return await initResponse.json()
+}
+
+// Init, upload, thumbnail and finalize a capture through the API
+async function uploadCapture(
+  config: StorageConfig,
+  upload: CaptureUpload,
+  tabId?: number,
+  attempt: CaptureAttempt = {},
+): Promise<CaptureResult> {
+  const { candidate, tagIds, blob } = upload
+  const sha256 = blob ? await calculateBlobHash(blob) : undefined
+
+  const initData = await initCapture(config, upload, sha256, attempt.assetId)
+
+  // Already captured: the server returned the existing asset
+  if (initData.duplicate) {
+    notifyProgress(tabId, candidate.id, 100)
+    notifyComplete(tabId, candidate.id, initData.assetId, true)
+    return { assetId: initData.assetId, duplicate: true }
+  }
+  attempt.assetId = initData.assetId
+
   notifyProgress(tabId, candidate.id, 30)
 
   // Upload blob if we have it
@@ -106,10 +548,12 @@ async function handleCaptureMedia(
   notifyProgress(tabId, candidate.id, 85)
 
   // Generate and upload thumbnail for images
+  let phash: string | undefined
   if (blob && candidate.type === 'image') {
     try {
       const thumbnail = await generateImageThumbnail(blob)
       if (thumbnail) {
+        phash = await calculatePerceptualHash(thumbnail)
         await uploadToStorage(
           thumbnail,
           initData.previewUpload.signedUrl,
@@ -136,20 +580,198 @@ async function handleCaptureMedia(
         assetId: initData.assetId,
         width: candidate.width,
         height: candidate.height,
+        sha256,
+        phash,
         tagIds,
       }),
     },
   )
 
   if (!finalizeResponse.ok) {
-    const error = await finalizeResponse.json()
-    throw new Error(error.error || 'Failed to finalize upload')
+    throw await responseError(finalizeResponse, 'Failed to finalize upload')
   }
 
   notifyProgress(tabId, candidate.id, 100)
   notifyComplete(tabId, candidate.id, initData.assetId)
 
-  return { assetId: initData.assetId }
+  return { assetId: initData.assetId, duplicate: false }
+}
+
+async function responseError(
+  response: Response,
+  fallback: string,
+): Promise<CaptureError> {
+  const data = await response.json().catch(() => null)
+  return new CaptureError(data?.error || fallback, response.status)
+}
+
+// Worth retrying later: offline, expired token, rate limits and server errors
+function isRetryableCaptureError(error: unknown): boolean {
+  if (error instanceof TypeError) {
+    return true // fetch network failure
+  }
+  if (!(error instanceof CaptureError)) {
+    return false
+  }
+  const { status } = error
+  return (
+    status === undefined ||
+    status === 401 ||
+    status === 408 ||
+    status === 429 ||
+    status >= 500
+  )
+}
+
+function queueRetryDelay(attempts: number): number {
+  return Math.min(QUEUE_BASE_DELAY_MS * 2 ** (attempts - 1), QUEUE_MAX_DELAY_MS)
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+// Send a capture, keeping it for a later retry when the server can't take it
+async function sendOrQueueCapture(
+  config: StorageConfig,
+  upload: CaptureUpload,
+  tabId?: number,
+): Promise<CaptureResult> {
+  const attempt: CaptureAttempt = {}
+  try {
+    return await uploadCapture(config, upload, tabId, attempt)
+  } catch (error) {
+    if (!isRetryableCaptureError(error)) {
+      throw error
+    }
+    await enqueueCapture(
+      upload,
+      errorMessage(error),
+      queueRetryDelay(1),
+      attempt.assetId,
+    )
+    await scheduleQueueAlarm()
+    notifyQueued(upload.candidate.id, errorMessage(error))
+    notifyQueueUpdated()
+    return { duplicate: false, queued: true }
+  }
+}
+
+async function retryQueuedCapture(capture: QueuedCapture) {
+  const attempt: CaptureAttempt = { assetId: capture.assetId }
+  try {
+    const config = await getAccessConfig()
+    await uploadCapture(config, capture.upload, undefined, attempt)
+    await deleteQueuedCapture(capture.id)
+  } catch (error) {
+    const attempts = capture.attempts + 1
+    const givesUp =
+      !isRetryableCaptureError(error) || attempts >= QUEUE_MAX_ATTEMPTS
+    await saveQueuedCapture({
+      ...capture,
+      assetId: attempt.assetId,
+      status: givesUp ? 'failed' : 'pending',
+      attempts,
+      nextAttemptAt: Date.now() + queueRetryDelay(attempts),
+      lastError: errorMessage(error),
+    })
+  }
+}
+
+let queueRun: Promise<void> | null = null
+
+// Retry the pending captures that are due, one at a time
+function processCaptureQueue(): Promise<void> {
+  queueRun ??= (async () => {
+    try {
+      const now = Date.now()
+      const due = (await getQueuedCaptures()).filter(
+        (c) => c.status === 'pending' && c.nextAttemptAt <= now,
+      )
+      for (const capture of due) {
+        await retryQueuedCapture(capture)
+      }
+      await scheduleQueueAlarm()
+      notifyQueueUpdated()
+    } finally {
+      queueRun = null
+    }
+  })()
+  return queueRun
+}
+
+// Wake the worker when the next pending capture is due
+async function scheduleQueueAlarm() {
+  const pending = (await getQueuedCaptures()).filter(
+    (c) => c.status === 'pending',
+  )
+  if (pending.length === 0) {
+    await chrome.alarms.clear(QUEUE_ALARM)
+    return
+  }
+  const nextAttemptAt = Math.min(...pending.map((c) => c.nextAttemptAt))
+  await chrome.alarms.create(QUEUE_ALARM, {
+    when: Math.max(nextAttemptAt, Date.now() + 1000),
+  })
+}
+
+// Manual retry: everything queued, including captures out of attempts
+async function retryQueuedCaptures() {
+  await queueRun
+  for (const capture of await getQueuedCaptures()) {
+    await saveQueuedCapture({
+      ...capture,
+      status: 'pending',
+      attempts: capture.status === 'failed' ? 0 : capture.attempts,
+      nextAttemptAt: Date.now(),
+    })
+  }
+  await processCaptureQueue()
+}
+
+async function discardFailedCaptures() {
+  for (const capture of await getQueuedCaptures()) {
+    if (capture.status === 'failed') {
+      await deleteQueuedCapture(capture.id)
+    }
+  }
+  notifyQueueUpdated()
+}
+
+async function calculateBlobHash(blob: Blob): Promise<string> {
+  const buffer = await blob.arrayBuffer()
+  const hashBuffer = await crypto.subtle.digest('SHA-256', buffer)
+  const hashArray = Array.from(new Uint8Array(hashBuffer))
+  return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+// 64-bit dHash of the image as 16 hex chars, used for near-duplicate matching
+async function calculatePerceptualHash(image: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(image)
+  const canvas = new OffscreenCanvas(9, 8)
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) {
+    bitmap.close()
+    throw new Error('Failed to get canvas context')
+  }
+  ctx.drawImage(bitmap, 0, 0, 9, 8)
+  bitmap.close()
+
+  const { data } = ctx.getImageData(0, 0, 9, 8)
+  const gray = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114
+  }
+
+  let hex = ''
+  for (let y = 0; y < 8; y++) {
+    let byte = 0
+    for (let x = 0; x < 8; x++) {
+      byte = byte * 2 + (gray(x, y) > gray(x + 1, y) ? 1 : 0)
+    }
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return hex
 }
 
 async function uploadToStorage(
@@ -170,7 +792,10 @@ async function uploadToStorage(
   })
 
   if (!response.ok) {
-    throw new Error(`Upload failed with status ${response.status}`)
+    throw new CaptureError(
+      `Upload failed with status ${response.status}`,
+      response.status,
+    )
   }
 
   onProgress?.(100)
@@ -218,11 +843,23 @@ function notifyComplete(
   _tabId: number | undefined,
   candidateId: string,
   assetId: string,
+  duplicate = false,
 ) {
-  const payload: UploadCompletePayload = { candidateId, assetId }
+  const payload: UploadCompletePayload = { candidateId, assetId, duplicate }
   chrome.runtime.sendMessage({ type: 'UPLOAD_COMPLETE', payload })
 }
 
+function notifyQueued(candidateId: string, error: string) {
+  const payload: UploadQueuedPayload = { candidateId, error }
+  chrome.runtime.sendMessage({ type: 'UPLOAD_QUEUED', payload })
+}
+
+function notifyQueueUpdated() {
+  getQueueStatus().then((payload) =>
+    chrome.runtime.sendMessage({ type: 'QUEUE_UPDATED', payload }),
+  )
+}
+
 function _notifyError(
   _tabId: number | undefined,
   candidateId: string,
@@ -234,6 +871,8 @@ function _notifyError(
 
 // Handle extension installation/update
 chrome.runtime.onInstalled.addListener((details) => {
+  createContextMenus()
+
   if (details.reason === 'install') {
     chrome.runtime.openOptionsPage()
   }
@@ -1,12 +1,28 @@
 // Content script - scans page for media candidates
 
 import type {
+  CaptureResponse,
+  CaptureStatusPayload,
+  ContextMenuTargetResponse,
   GetCandidatesResponse,
   MediaCandidate,
   Message,
   PageContext,
+  PickTagsPayload,
+  PickTagsResponse,
+  ScreenshotRequest,
+  ScreenshotSelectionPayload,
 } from './types'
+import { scrapeCandidateContext } from './utils/ad-context'
+import { initCaptureOverlay } from './utils/capture-overlay'
+import { isMetaAdLibrary, scanMetaAdLibrary } from './utils/meta-ad-library'
+import { selectScreenshotRegion } from './utils/screenshot-selection'
 import { detectSourceFromUrl } from './utils/source-detection'
+import { pickTags } from './utils/tag-picker'
+import {
+  isTikTokCreativeCenter,
+  scanTikTokCreativeCenter,
+} from './utils/tiktok-creative-center'
 
 // Regex patterns (defined at top level for performance)
 const BG_IMAGE_URL_REGEX = /url\(["']?([^"')]+)["']?\)/
@@ -14,7 +30,26 @@ const INSTAGRAM_VIDEO_REGEX = /"video_url":"([^"]+)"/g
 const INSTAGRAM_IMAGE_REGEX = /"display_url":"([^"]+)"/g
 const TIKTOK_VIDEO_REGEX = /"playAddr":"([^"]+)"/g
 
-// Listen for messages from popup
+// Element last right-clicked, for context-menu captures
+let contextMenuTarget: Element | null = null
+
+document.addEventListener(
+  'contextmenu',
+  (e) => {
+    contextMenuTarget = e.target instanceof Element ? e.target : null
+  },
+  true,
+)
+
+initCaptureOverlay({
+  getCandidate: (element) =>
+    element instanceof HTMLImageElement
+      ? imageCandidate(element, 0)
+      : videoCandidate(element, 0),
+  getPageContext,
+})
+
+// Listen for messages from popup and background
 chrome.runtime.onMessage.addListener(
   (message: Message, _sender, sendResponse) => {
     if (message.type === 'GET_CANDIDATES') {
@@ -22,32 +57,147 @@ chrome.runtime.onMessage.addListener(
       sendResponse(response)
       return true
     }
+
+    if (message.type === 'START_SCREENSHOT_SELECTION') {
+      sendResponse({ started: true })
+      captureScreenshotSelection(message.payload as ScreenshotSelectionPayload)
+    }
+
+    if (message.type === 'GET_CONTEXT_MENU_TARGET') {
+      sendResponse(getContextMenuTarget())
+    }
+
+    if (message.type === 'PICK_TAGS') {
+      const { tags } = message.payload as PickTagsPayload
+      pickTags(tags).then((tagIds) => {
+        const response: PickTagsResponse = { tagIds }
+        sendResponse(response)
+      })
+      return true
+    }
+
+    if (message.type === 'SHOW_CAPTURE_STATUS') {
+      const { message: text, isError } = message.payload as CaptureStatusPayload
+      showToast(text, isError)
+    }
   },
 )
 
+function getContextMenuTarget(): ContextMenuTargetResponse {
+  const target = contextMenuTarget
+  const candidate: Partial<MediaCandidate> = {
+    context: target ? scrapeCandidateContext(target) : undefined,
+  }
+
+  if (target instanceof HTMLImageElement) {
+    candidate.width = target.naturalWidth || undefined
+    candidate.height = target.naturalHeight || undefined
+    candidate.alt = target.alt || undefined
+  } else if (target instanceof HTMLVideoElement) {
+    candidate.width = target.videoWidth || undefined
+    candidate.height = target.videoHeight || undefined
+    candidate.poster = target.poster || undefined
+  }
+
+  return { pageContext: getPageContext(), candidate }
+}
+
+// The popup closes during selection, so results are shown on the page
+async function captureScreenshotSelection({
+  tagIds,
+  notes,
+}: ScreenshotSelectionPayload = {}) {
+  const selection = await selectScreenshotRegion()
+  if (!selection) {
+    return
+  }
+
+  const request: ScreenshotRequest = {
+    pageContext: getPageContext(),
+    region: selection.region,
+    viewportWidth: window.innerWidth,
+    context: selection.element
+      ? scrapeCandidateContext(selection.element)
+      : undefined,
+    tagIds,
+    notes,
+  }
+
+  // No "saving" toast: it would be painted into the capture
+  try {
+    const response = await chrome.runtime.sendMessage<Message, CaptureResponse>(
+      { type: 'CAPTURE_SCREENSHOT', payload: request },
+    )
+    if (response.queued) {
+      showToast('AdStash is unreachable, the screenshot will be retried')
+    } else if (response.success) {
+      showToast(
+        response.duplicate ? 'Already saved to AdStash' : 'Saved to AdStash',
+      )
+    } else {
+      showToast(response.error || 'Failed to save screenshot', true)
+    }
+  } catch (error) {
+    showToast(
+      error instanceof Error ? error.message : 'Failed to save screenshot',
+      true,
+    )
+  }
+}
+
+let toastTimeout: ReturnType<typeof setTimeout> | undefined
+
+function showToast(message: string, isError = false) {
+  let toast = document.querySelector<HTMLElement>('.adstash-toast')
+  if (!toast) {
+    toast = document.createElement('div')
+    toast.className = 'adstash-toast'
+    document.documentElement.append(toast)
+  }
+  toast.textContent = message
+  toast.classList.toggle('error', isError)
+
+  clearTimeout(toastTimeout)
+  toastTimeout = setTimeout(() => toast.remove(), 3000)
+}
+
+// Candidate for an <img>, or null for data URLs and icons
+function imageCandidate(
+  img: HTMLImageElement,
+  index: number,
+): MediaCandidate | null {
+  const url = img.currentSrc || img.src
+  if (!url || url.startsWith('data:')) {
+    return null
+  }
+
+  // Filter out small images (likely icons)
+  if (img.naturalWidth < 100 || img.naturalHeight < 100) {
+    return null
+  }
+
+  return {
+    id: `img-${index}-${Date.now()}`,
+    type: 'image',
+    url,
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    alt: img.alt || undefined,
+    context: scrapeCandidateContext(img),
+  }
+}
+
 function scanImages(candidates: MediaCandidate[], seenUrls: Set<string>): void {
   const images = document.querySelectorAll('img')
   let imageIndex = 0
   for (const img of images) {
-    const url = img.currentSrc || img.src
-    if (!url || url.startsWith('data:') || seenUrls.has(url)) {
+    const candidate = imageCandidate(img, imageIndex)
+    if (!candidate || seenUrls.has(candidate.url)) {
       continue
     }
 
-    // Filter out small images (likely icons)
-    if (img.naturalWidth < 100 || img.naturalHeight < 100) {
-      continue
-    }
-
-    seenUrls.add(url)
-    candidates.push({
-      id: `img-${imageIndex}-${Date.now()}`,
-      type: 'image',
-      url,
-      width: img.naturalWidth,
-      height: img.naturalHeight,
-      alt: img.alt || undefined,
-    })
+    seenUrls.add(candidate.url)
+    candidates.push(candidate)
     imageIndex++
   }
 }
@@ -78,6 +228,7 @@ function scanBackgroundImages(
       id: `bg-${bgIndex}-${Date.now()}`,
       type: 'image',
       url,
+      context: scrapeCandidateContext(el),
     })
     bgIndex++
   }
@@ -92,63 +243,68 @@ function getVideoUrl(video: HTMLVideoElement): string {
   return url
 }
 
-function handleBlobVideo(
+function isBlobVideo(video: HTMLVideoElement): boolean {
+  return !!(
+    video.currentSrc?.startsWith('blob:') || video.src?.startsWith('blob:')
+  )
+}
+
+// Candidate for a <video>; blob-backed videos only yield their poster
+function videoCandidate(
   video: HTMLVideoElement,
-  videoIndex: number,
-  candidates: MediaCandidate[],
-  seenUrls: Set<string>,
-): boolean {
-  const poster = video.poster
-  if (poster && !seenUrls.has(poster)) {
-    seenUrls.add(poster)
-    candidates.push({
-      id: `video-poster-${videoIndex}-${Date.now()}`,
+  index: number,
+): MediaCandidate | null {
+  const url = getVideoUrl(video)
+
+  // Skip blob URLs and data URLs
+  if (!url || url.startsWith('blob:') || url.startsWith('data:')) {
+    if (!(video.poster && isBlobVideo(video))) {
+      return null
+    }
+    return {
+      id: `video-poster-${index}-${Date.now()}`,
       type: 'image',
-      url: poster,
+      url: video.poster,
       width: video.videoWidth || undefined,
       height: video.videoHeight || undefined,
-    })
+      context: scrapeCandidateContext(video),
+    }
+  }
+
+  return {
+    id: `video-${index}-${Date.now()}`,
+    type: 'video',
+    url,
+    width: video.videoWidth || undefined,
+    height: video.videoHeight || undefined,
+    poster: video.poster || undefined,
+    thumbnailUrl: video.poster || undefined,
+    context: scrapeCandidateContext(video),
   }
-  return true
 }
 
 function scanVideos(candidates: MediaCandidate[], seenUrls: Set<string>): void {
   const videos = document.querySelectorAll('video')
   let videoIndex = 0
   for (const video of videos) {
-    const url = getVideoUrl(video)
-
-    // Skip blob URLs and data URLs
-    if (!url || url.startsWith('blob:') || url.startsWith('data:')) {
-      if (
-        video.currentSrc?.startsWith('blob:') ||
-        video.src?.startsWith('blob:')
-      ) {
-        handleBlobVideo(video, videoIndex, candidates, seenUrls)
-      }
-      videoIndex++
-      continue
-    }
-
-    if (seenUrls.has(url)) {
-      videoIndex++
+    const candidate = videoCandidate(video, videoIndex)
+    videoIndex++
+    if (!candidate || seenUrls.has(candidate.url)) {
       continue
     }
-    seenUrls.add(url)
 
-    candidates.push({
-      id: `video-${videoIndex}-${Date.now()}`,
-      type: 'video',
-      url,
-      width: video.videoWidth || undefined,
-      height: video.videoHeight || undefined,
-      poster: video.poster || undefined,
-      thumbnailUrl: video.poster || undefined,
-    })
-    videoIndex++
+    seenUrls.add(candidate.url)
+    candidates.push(candidate)
   }
 }
 
+function getPageDescription(): string | undefined {
+  const meta = document.querySelector<HTMLMetaElement>(
+    'meta[property="og:description"], meta[name="description"]',
+  )
+  return meta?.content.trim() || undefined
+}
+
 function getCandidates(): GetCandidatesResponse {
   const candidates: MediaCandidate[] = []
   const seenUrls = new Set<string>()
@@ -158,14 +314,16 @@ function getCandidates(): GetCandidatesResponse {
   scanVideos(candidates, seenUrls)
   scanPlatformSpecificMedia(candidates, seenUrls)
 
-  // Build page context
-  const pageContext: PageContext = {
+  return { candidates, pageContext: getPageContext() }
+}
+
+function getPageContext(): PageContext {
+  return {
     url: window.location.href,
     title: document.title,
     sourcePlatform: detectSourceFromUrl(window.location.href),
+    description: getPageDescription(),
   }
-
-  return { candidates, pageContext }
 }
 
 function scanInstagramMedia(
@@ -251,6 +409,14 @@ function scanPlatformSpecificMedia(
   if (hostname.includes('tiktok.com')) {
     scanTikTokMedia(candidates, seenUrls)
   }
+
+  if (isMetaAdLibrary()) {
+    scanMetaAdLibrary(candidates, seenUrls)
+  }
+
+  if (isTikTokCreativeCenter()) {
+    scanTikTokCreativeCenter(candidates, seenUrls)
+  }
 }
 
 // Auto-initialize
@@ -2,27 +2,44 @@
 
 import type {
   CaptureRequest,
+  CaptureResponse,
+  CreateTagPayload,
+  CreateTagResponse,
   GetCandidatesResponse,
+  LookupMediaPayload,
+  LookupMediaResponse,
   MediaCandidate,
   Message,
   PageContext,
+  QueueStatus,
+  ScreenshotRequest,
+  ScreenshotSelectionPayload,
+  TagsResponse,
   UploadCompletePayload,
   UploadErrorPayload,
   UploadProgressPayload,
+  UploadQueuedPayload,
 } from './types'
-import { getSourceLabel } from './utils/source-detection'
+import { detectSourceFromUrl, getSourceLabel } from './utils/source-detection'
 import { isConfigured } from './utils/storage'
+import { setupTagInput } from './utils/tag-input'
+
+// Matches the lookup endpoint's per-request limit
+const LOOKUP_BATCH_SIZE = 200
 
 interface CandidateState {
   candidate: MediaCandidate
-  status: 'idle' | 'uploading' | 'complete' | 'error'
+  status: 'idle' | 'uploading' | 'queued' | 'complete' | 'error'
   progress: number
+  duplicate?: boolean
   error?: string
   selected: boolean
+  capturedAssetId?: string // Saved in an earlier session
 }
 
 let candidates: CandidateState[] = []
 let pageContext: PageContext | null = null
+let activeTab: chrome.tabs.Tab | null = null
 
 // DOM elements
 const statusEl = document.getElementById('status')
@@ -33,12 +50,52 @@ const selectAllBtn = document.getElementById(
   'select-all-btn',
 ) as HTMLButtonElement
 const settingsBtn = document.getElementById('settings-btn') as HTMLButtonElement
+const screenshotVisibleBtn = document.getElementById(
+  'screenshot-visible-btn',
+) as HTMLButtonElement
+const screenshotRegionBtn = document.getElementById(
+  'screenshot-region-btn',
+) as HTMLButtonElement
+const captureDetailsEl = document.getElementById(
+  'capture-details',
+) as HTMLDivElement
+const notesInput = document.getElementById('notes-input') as HTMLTextAreaElement
+const queueBar = document.getElementById('queue-bar') as HTMLDivElement
+const queueStatusEl = document.getElementById('queue-status') as HTMLSpanElement
+const queueRetryBtn = document.getElementById(
+  'queue-retry-btn',
+) as HTMLButtonElement
+const queueDiscardBtn = document.getElementById(
+  'queue-discard-btn',
+) as HTMLButtonElement
 const sourceEl = document.getElementById('source')
 
 if (!(statusEl && candidatesEl && emptyEl && sourceEl)) {
   throw new Error('Required DOM elements not found')
 }
 
+const tagInput = setupTagInput(
+  {
+    input: document.getElementById('tag-input') as HTMLInputElement,
+    selected: document.getElementById('selected-tags') as HTMLDivElement,
+    suggestions: document.getElementById('tag-suggestions') as HTMLDivElement,
+  },
+  {
+    createTag: async (name) => {
+      const payload: CreateTagPayload = { name }
+      const response = await chrome.runtime.sendMessage<
+        Message,
+        CreateTagResponse
+      >({ type: 'CREATE_TAG', payload })
+      if (!response.tag) {
+        throw new Error(response.error || 'Failed to create tag')
+      }
+      return response.tag
+    },
+    onError: (message) => showScreenshotStatus(message, true),
+  },
+)
+
 // Initialize
 async function init() {
   // Check configuration
@@ -54,6 +111,11 @@ async function init() {
     showError('No active tab')
     return
   }
+  activeTab = tab
+  captureDetailsEl.classList.remove('hidden')
+  loadTags()
+  screenshotVisibleBtn.disabled = false
+  screenshotRegionBtn.disabled = false
 
   // Request candidates from content script
   try {
@@ -72,6 +134,7 @@ async function init() {
       }))
 
       render()
+      markCapturedCandidates()
     } else {
       showError('No media found on this page')
     }
@@ -176,16 +239,22 @@ function render() {
 }
 
 function renderCandidate(state: CandidateState, index: number): string {
-  const { candidate, status, progress, error, selected } = state
+  const { candidate, status, progress, duplicate, error, selected } = state
   const isVideo = candidate.type === 'video'
 
   let statusBadge = ''
   if (status === 'uploading') {
     statusBadge = `<span class="badge uploading">Uploading ${Math.round(progress)}%</span>`
+  } else if (status === 'queued') {
+    statusBadge = `<span class="badge queued" title="${error}">Queued</span>`
   } else if (status === 'complete') {
-    statusBadge = '<span class="badge complete">✓ Saved</span>'
+    statusBadge = duplicate
+      ? '<span class="badge complete">✓ Already saved</span>'
+      : '<span class="badge complete">✓ Saved</span>'
   } else if (status === 'error') {
     statusBadge = `<span class="badge error" title="${error}">✗ Error</span>`
+  } else if (state.capturedAssetId) {
+    statusBadge = '<span class="badge captured">Already captured</span>'
   }
 
   const thumbnail = candidate.thumbnailUrl || candidate.poster || candidate.url
@@ -243,6 +312,7 @@ async function captureSelected() {
     const request: CaptureRequest = {
       candidate: state.candidate,
       pageContext,
+      ...getCaptureDetails(),
     }
 
     try {
@@ -258,6 +328,162 @@ async function captureSelected() {
   }
 }
 
+// Flag candidates the server already has an asset for
+async function markCapturedCandidates() {
+  const mediaUrls = [...new Set(candidates.map((c) => c.candidate.url))]
+  const byMediaUrl: Record<string, string> = {}
+  try {
+    for (let i = 0; i < mediaUrls.length; i += LOOKUP_BATCH_SIZE) {
+      const payload: LookupMediaPayload = {
+        mediaUrls: mediaUrls.slice(i, i + LOOKUP_BATCH_SIZE),
+      }
+      const response = await chrome.runtime.sendMessage<
+        Message,
+        LookupMediaResponse
+      >({ type: 'LOOKUP_MEDIA', payload })
+      Object.assign(byMediaUrl, response.byMediaUrl)
+    }
+  } catch {
+    // Candidates just stay unmarked
+    return
+  }
+
+  let marked = false
+  for (const state of candidates) {
+    const assetId = byMediaUrl[state.candidate.url]
+    if (assetId) {
+      state.capturedAssetId = assetId
+      marked = true
+    }
+  }
+  if (marked) {
+    render()
+  }
+}
+
+async function loadTags() {
+  try {
+    const response = await chrome.runtime.sendMessage<Message, TagsResponse>({
+      type: 'GET_TAGS',
+    })
+    tagInput.setTags(response.tags ?? [])
+  } catch {
+    tagInput.setTags([])
+  }
+}
+
+// Tags and notes applied to every capture started from the popup
+function getCaptureDetails(): ScreenshotSelectionPayload {
+  const notes = notesInput.value.trim()
+  return {
+    tagIds: tagInput.getSelectedTagIds(),
+    notes: notes || undefined,
+  }
+}
+
+// Page context for screenshots, even where the content script isn't loaded
+function getScreenshotPageContext(tab: chrome.tabs.Tab): PageContext {
+  return (
+    pageContext ?? {
+      url: tab.url ?? '',
+      title: tab.title ?? '',
+      sourcePlatform: detectSourceFromUrl(tab.url ?? ''),
+    }
+  )
+}
+
+function showScreenshotStatus(message: string, isError = false) {
+  if (!statusEl) {
+    return
+  }
+  statusEl.textContent = message
+  statusEl.className = isError ? 'status error' : 'status'
+}
+
+async function captureVisibleArea() {
+  if (!activeTab) {
+    return
+  }
+
+  const request: ScreenshotRequest = {
+    pageContext: getScreenshotPageContext(activeTab),
+    ...getCaptureDetails(),
+  }
+
+  screenshotVisibleBtn.disabled = true
+  showScreenshotStatus('Saving screenshot...')
+  try {
+    const response = await chrome.runtime.sendMessage<Message, CaptureResponse>(
+      { type: 'CAPTURE_SCREENSHOT', payload: request },
+    )
+    if (response.queued) {
+      showScreenshotStatus('Screenshot queued for retry')
+    } else if (response.success) {
+      showScreenshotStatus(
+        response.duplicate ? 'Screenshot already saved' : 'Screenshot saved',
+      )
+    } else {
+      showScreenshotStatus(response.error || 'Screenshot failed', true)
+    }
+  } catch (error) {
+    showScreenshotStatus(
+      error instanceof Error ? error.message : 'Screenshot failed',
+      true,
+    )
+  } finally {
+    screenshotVisibleBtn.disabled = false
+  }
+}
+
+// Selection happens on the page; the popup closes so it doesn't cover it
+async function startRegionSelection() {
+  if (!activeTab?.id) {
+    return
+  }
+
+  try {
+    await chrome.tabs.sendMessage<Message>(activeTab.id, {
+      type: 'START_SCREENSHOT_SELECTION',
+      payload: getCaptureDetails(),
+    })
+    window.close()
+  } catch (_error) {
+    showScreenshotStatus('Region selection is not available on this page', true)
+  }
+}
+
+// Captures waiting in the background worker's offline queue
+function renderQueueStatus({ pending, failed }: QueueStatus) {
+  queueBar.classList.toggle('hidden', pending + failed === 0)
+  queueStatusEl.textContent = [
+    pending > 0 ? `${pending} queued` : '',
+    failed > 0 ? `${failed} failed` : '',
+  ]
+    .filter(Boolean)
+    .join(' · ')
+  queueDiscardBtn.classList.toggle('hidden', failed === 0)
+}
+
+async function loadQueueStatus() {
+  const status = await chrome.runtime.sendMessage<Message, QueueStatus>({
+    type: 'GET_QUEUE_STATUS',
+  })
+  renderQueueStatus(status)
+}
+
+async function retryQueue() {
+  queueRetryBtn.disabled = true
+  try {
+    await chrome.runtime.sendMessage<Message>({ type: 'RETRY_QUEUE' })
+  } finally {
+    queueRetryBtn.disabled = false
+  }
+}
+
+async function discardFailed() {
+  await chrome.runtime.sendMessage<Message>({ type: 'DISCARD_FAILED' })
+}
+
 // Listen for upload progress/completion
 chrome.runtime.onMessage.addListener((message: Message) => {
   if (message.type === 'UPLOAD_PROGRESS') {
@@ -273,8 +499,19 @@ chrome.runtime.onMessage.addListener((message: Message) => {
     if (state) {
       state.status = 'complete'
       state.progress = 100
+      state.duplicate = payload.duplicate
       render()
     }
+  } else if (message.type === 'UPLOAD_QUEUED') {
+    const payload = message.payload as UploadQueuedPayload
+    const state = candidates.find((c) => c.candidate.id === payload.candidateId)
+    if (state) {
+      state.status = 'queued'
+      state.error = payload.error
+      render()
+    }
+  } else if (message.type === 'QUEUE_UPDATED') {
+    renderQueueStatus(message.payload as QueueStatus)
   } else if (message.type === 'UPLOAD_ERROR') {
     const payload = message.payload as UploadErrorPayload
     const state = candidates.find((c) => c.candidate.id === payload.candidateId)
@@ -299,9 +536,16 @@ selectAllBtn.addEventListener('click', () => {
   render()
 })
 
+queueRetryBtn.addEventListener('click', retryQueue)
+queueDiscardBtn.addEventListener('click', discardFailed)
+
+screenshotVisibleBtn.addEventListener('click', captureVisibleArea)
+screenshotRegionBtn.addEventListener('click', startRegionSelection)
+
 settingsBtn.addEventListener('click', () => {
   chrome.runtime.openOptionsPage()
 })
 
 // Initialize
 init()
+loadQueueStatus()
@@ -9,18 +9,135 @@ export interface MediaCandidate {
   height?: number
   alt?: string
   poster?: string // For videos
+  context?: CandidateContext // Post the media appears in, when found
+}
+
+// Ad/post details scraped from around a candidate
+export interface CandidateContext {
+  postText?: string
+  advertiserName?: string
+  advertiserHandle?: string
+  ctaText?: string
+  landingPageUrl?: string
+  // Ad library listings (Meta Ad Library, TikTok Creative Center)
+  adLibraryId?: string
+  adStartDate?: string // YYYY-MM-DD
+  adPlatforms?: string[] // e.g. facebook, instagram, messenger
 }
 
 export interface PageContext {
   url: string
   title: string
   sourcePlatform: string
+  description?: string // og:description / meta description
 }
 
 export interface CaptureRequest {
   candidate: MediaCandidate
   pageContext: PageContext
   tagIds?: string[]
+  notes?: string
+}
+
+// A capture ready to send to the API
+export interface CaptureUpload extends CaptureRequest {
+  blob: Blob | null // null stores the media URL only
+  filename: string
+  mimeType: string
+  screenshot?: boolean
+}
+
+// Viewport rectangle in CSS pixels
+export interface ScreenshotRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface ScreenshotRequest {
+  pageContext: PageContext
+  region?: ScreenshotRegion // Whole visible area when omitted
+  viewportWidth?: number // To map CSS pixels onto the captured image
+  context?: CandidateContext
+  tagIds?: string[]
+  notes?: string
+}
+
+// Tags and notes chosen in the popup before starting a region selection
+export interface ScreenshotSelectionPayload {
+  tagIds?: string[]
+  notes?: string
+}
+
+export interface CaptureResponse {
+  success: boolean
+  assetId?: string
+  duplicate?: boolean
+  queued?: boolean // Server unreachable, retried in the background
+  error?: string
+}
+
+export interface CaptureResult {
+  assetId?: string
+  duplicate: boolean
+  queued?: boolean
+}
+
+export interface QueueStatus {
+  pending: number
+  failed: number
+}
+
+// The right-clicked media, as seen by the content script
+export interface ContextMenuTargetResponse {
+  pageContext: PageContext
+  candidate: Partial<MediaCandidate>
+}
+
+export interface TagOption {
+  id: string
+  name: string
+  color: string
+}
+
+export interface TagsResponse {
+  tags?: TagOption[]
+  error?: string
+}
+
+export interface CreateTagPayload {
+  name: string
+}
+
+export interface CreateTagResponse {
+  tag?: TagOption
+  error?: string
+}
+
+export interface LookupMediaPayload {
+  mediaUrls: string[]
+  sha256s?: string[]
+}
+
+// Asset IDs of media captured before, keyed by media URL / lowercase hash
+export interface LookupMediaResponse {
+  byMediaUrl?: Record<string, string>
+  bySha256?: Record<string, string>
+  error?: string
+}
+
+export interface PickTagsPayload {
+  tags: TagOption[]
+}
+
+export interface PickTagsResponse {
+  tagIds: string[] | null // null when cancelled
+}
+
+export interface CaptureStatusPayload {
+  message: string
+  isError?: boolean
 }
 
 export interface StorageConfig {
@@ -32,6 +149,19 @@ export interface StorageConfig {
 export type MessageType =
   | 'GET_CANDIDATES'
   | 'CAPTURE_MEDIA'
+  | 'CAPTURE_SCREENSHOT'
+  | 'START_SCREENSHOT_SELECTION'
+  | 'GET_CONTEXT_MENU_TARGET'
+  | 'PICK_TAGS'
+  | 'GET_TAGS'
+  | 'LOOKUP_MEDIA'
+  | 'CREATE_TAG'
+  | 'SHOW_CAPTURE_STATUS'
+  | 'UPLOAD_QUEUED'
+  | 'GET_QUEUE_STATUS'
+  | 'RETRY_QUEUE'
+  | 'DISCARD_FAILED'
+  | 'QUEUE_UPDATED'
   | 'UPLOAD_PROGRESS'
   | 'UPLOAD_COMPLETE'
   | 'UPLOAD_ERROR'
@@ -54,6 +184,12 @@ export interface UploadProgressPayload {
 export interface UploadCompletePayload {
   candidateId: string
   assetId: string
+  duplicate?: boolean // Matched an existing asset, nothing was uploaded
+}
+
+export interface UploadQueuedPayload {
+  candidateId: string
+  error: string
 }
 
 export interface UploadErrorPayload {
@@ -64,6 +200,7 @@ export interface UploadErrorPayload {
 // API types
 export interface InitUploadResponse {
   assetId: string
+  duplicate: boolean
   assetUpload: {
     signedUrl: string
     token: string
@@ -0,0 +1,229 @@
+// Scrapes the post around a media element: copy, advertiser, CTA, outbound link
+
+import type { CandidateContext, MediaCandidate } from '../types'
+
+const MAX_POST_TEXT_LENGTH = 2000
+
+// Feed posts, tweets, TikTok items and Ad Library cards
+const POST_CONTAINER_SELECTOR = [
+  'article',
+  '[role="article"]',
+  '[data-pagelet^="FeedUnit"]',
+  '[data-e2e="recommend-list-item-container"]',
+  '[data-testid="ad-card"]',
+].join(', ')
+
+// Most specific first; falls back to the longest dir="auto" block
+const POST_TEXT_SELECTORS = [
+  '[data-ad-preview="message"]',
+  '[data-ad-comet-preview="message"]',
+  '[data-testid="tweetText"]',
+  '[data-e2e="video-desc"]',
+  '[data-e2e="browse-video-desc"]',
+  '[style*="white-space: pre-wrap"]',
+  'h1',
+]
+
+const ADVERTISER_LINK_SELECTOR = [
+  '[data-testid="User-Name"] a',
+  '[data-e2e="video-author-uniqueid"]',
+  'header a[href]',
+  'h2 a[href]',
+  'h3 a[href]',
+  'h4 a[href]',
+].join(', ')
+
+// Link shims that wrap outbound URLs
+const REDIRECT_HOSTS = ['l.facebook.com', 'lm.facebook.com', 'l.instagram.com']
+
+const CTA_TEXT_REGEX =
+  /^(shop now|learn more|sign up|subscribe|download|install now|use app|book now|buy now|order now|get offer|get quote|get started|apply now|contact us|send message|watch more|see menu|play game|listen now|donate now)$/i
+const HANDLE_REGEX = /^@?([\w.]{1,64})$/
+const WHITESPACE_REGEX = /\s+/g
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+// Path segments that are never an account handle
+const RESERVED_PATHS = new Set([
+  'ads',
+  'groups',
+  'hashtag',
+  'pages',
+  'profile.php',
+  'reel',
+  'stories',
+  'watch',
+])
+
+const contextCache = new WeakMap<Element, CandidateContext | undefined>()
+
+function cleanText(text: string | null | undefined): string | undefined {
+  const cleaned = text?.replace(WHITESPACE_REGEX, ' ').trim()
+  return cleaned ? cleaned.slice(0, MAX_POST_TEXT_LENGTH) : undefined
+}
+
+function scrapePostText(container: Element): string | undefined {
+  for (const selector of POST_TEXT_SELECTORS) {
+    const text = cleanText(container.querySelector(selector)?.textContent)
+    if (text) {
+      return text
+    }
+  }
+
+  let longest: string | undefined
+  for (const el of container.querySelectorAll('[dir="auto"]')) {
+    const text = cleanText(el.textContent)
+    if (text && text.length > (longest?.length ?? 0)) {
+      longest = text
+    }
+  }
+  return longest
+}
+
+export function handleFromUrl(href: string): string | undefined {
+  try {
+    const segment = new URL(href).pathname.split('/').find(Boolean)
+    if (!segment || RESERVED_PATHS.has(segment.toLowerCase())) {
+      return
+    }
+    const match = HANDLE_REGEX.exec(segment)
+    return match ? `@${match[1]}` : undefined
+  } catch {
+    return
+  }
+}
+
+function scrapeAdvertiser(
+  container: Element,
+): Pick<CandidateContext, 'advertiserName' | 'advertiserHandle'> {
+  const link = container.querySelector(ADVERTISER_LINK_SELECTOR)
+  if (!link) {
+    return {}
+  }
+
+  const name = cleanText(link.textContent)
+  const href = link instanceof HTMLAnchorElement ? link.href : undefined
+  const handle =
+    (href && handleFromUrl(href)) ||
+    (name && HANDLE_REGEX.test(name) ? `@${name.replace('@', '')}` : undefined)
+
+  return { advertiserName: name, advertiserHandle: handle }
+}
+
+function scrapeCtaText(container: Element): string | undefined {
+  for (const el of container.querySelectorAll('a, button, [role="button"]')) {
+    const text = cleanText(el.textContent)
+    if (text && CTA_TEXT_REGEX.test(text)) {
+      return text
+    }
+  }
+}
+
+// Resolve redirect shims to the real destination
+function unwrapLink(href: string): string | undefined {
+  try {
+    const url = new URL(href)
+    if (REDIRECT_HOSTS.includes(url.hostname)) {
+      const target = url.searchParams.get('u')
+      return target ? unwrapLink(target) : undefined
+    }
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? url.href
+      : undefined
+  } catch {
+    return
+  }
+}
+
+// First link in the post that leaves the current site
+function scrapeLandingPageUrl(container: Element): string | undefined {
+  const pageHost = window.location.hostname.replace('www.', '')
+  for (const link of container.querySelectorAll<HTMLAnchorElement>('a[href]')) {
+    const url = unwrapLink(link.href)
+    if (url && !new URL(url).hostname.endsWith(pageHost)) {
+      return url
+    }
+  }
+}
+
+/**
+ * Scrape the ad/post details from a known post container
+ */
+export function scrapeContainerContext(
+  container: Element,
+): CandidateContext | undefined {
+  const context: CandidateContext = {
+    postText: scrapePostText(container),
+    ...scrapeAdvertiser(container),
+    ctaText: scrapeCtaText(container),
+    landingPageUrl: scrapeLandingPageUrl(container),
+  }
+  return Object.values(context).some(Boolean) ? context : undefined
+}
+
+/**
+ * Scrape the ad/post details surrounding a media element.
+ * Returns undefined when the element isn't inside a recognizable post.
+ */
+export function scrapeCandidateContext(
+  element: Element,
+): CandidateContext | undefined {
+  const container = element.closest(POST_CONTAINER_SELECTOR)
+  if (!container) {
+    return
+  }
+
+  if (!contextCache.has(container)) {
+    contextCache.set(container, scrapeContainerContext(container))
+  }
+  return contextCache.get(container)
+}
+
+/**
+ * Add a candidate found by a platform scanner. When the generic scan already
+ * found the same URL, the scanner's context replaces the scraped one.
+ */
+export function addContextCandidate(
+  candidates: MediaCandidate[],
+  seenUrls: Set<string>,
+  candidate: MediaCandidate,
+) {
+  if (!seenUrls.has(candidate.url)) {
+    seenUrls.add(candidate.url)
+    candidates.push(candidate)
+    return
+  }
+
+  const existing = candidates.find((c) => c.url === candidate.url)
+  if (existing && candidate.context) {
+    const found = Object.entries(candidate.context).filter(
+      ([, value]) => value !== undefined,
+    )
+    existing.context = { ...existing.context, ...Object.fromEntries(found) }
+  }
+}
+
+function padDatePart(value: number): string {
+  return String(value).padStart(2, '0')
+}
+
+/**
+ * Parse a listing date (Unix seconds or a date string) into YYYY-MM-DD
+ */
+export function parseAdDate(value: unknown): string | undefined {
+  let date: Date | undefined
+  let isUtc = false
+  if (typeof value === 'number' && value > 0) {
+    date = new Date(value * 1000)
+  } else if (typeof value === 'string' && value.trim()) {
+    date = new Date(value.trim())
+    // Date-only ISO strings are parsed as UTC midnight, not local time
+    isUtc = ISO_DATE_REGEX.test(value.trim())
+  }
+  if (!date || Number.isNaN(date.getTime())) {
+    return
+  }
+  const year = isUtc ? date.getUTCFullYear() : date.getFullYear()
+  const month = isUtc ? date.getUTCMonth() : date.getMonth()
+  const day = isUtc ? date.getUTCDate() : date.getDate()
+  return `${year}-${padDatePart(month + 1)}-${padDatePart(day)}`
+}
@@ -0,0 +1,232 @@
+// "Stash" button shown over the image or video under the pointer
+
+import type {
+  CaptureRequest,
+  CaptureResponse,
+  LookupMediaPayload,
+  LookupMediaResponse,
+  MediaCandidate,
+  Message,
+  PageContext,
+} from '../types'
+import { getConfig, isConfigured } from './storage'
+
+// Batch already-stashed lookups for media hovered in quick succession
+const LOOKUP_DELAY_MS = 300
+const BUTTON_INSET = 8
+
+type MediaElement = HTMLImageElement | HTMLVideoElement
+
+type StashState =
+  | { status: 'idle' }
+  | { status: 'saving' }
+  | { status: 'saved'; assetId?: string }
+  | { status: 'queued' }
+  | { status: 'error'; error: string }
+
+interface CaptureOverlayOptions {
+  // Same rules as the page scan: null for icons, data URLs and blob videos
+  getCandidate: (element: MediaElement) => MediaCandidate | null
+  getPageContext: () => PageContext
+}
+
+const BUTTON_LABELS: Record<StashState['status'], string> = {
+  idle: 'Stash',
+  saving: 'Saving…',
+  saved: '✓ Stashed',
+  queued: 'Queued',
+  error: 'Retry',
+}
+
+function isMediaElement(element: Element): element is MediaElement {
+  return (
+    element instanceof HTMLImageElement || element instanceof HTMLVideoElement
+  )
+}
+
+export function initCaptureOverlay({
+  getCandidate,
+  getPageContext,
+}: CaptureOverlayOptions) {
+  const states = new Map<string, StashState>()
+  const pendingLookups = new Set<string>()
+  let lookupTimeout: ReturnType<typeof setTimeout> | undefined
+
+  let enabled = false
+  let current: { element: MediaElement; candidate: MediaCandidate } | null =
+    null
+  let frame: number | null = null
+
+  const button = document.createElement('button')
+  button.type = 'button'
+  button.className = 'adstash-stash-btn'
+
+  const hide = () => {
+    current = null
+    button.remove()
+  }
+
+  const render = () => {
+    if (!current) {
+      return
+    }
+    const state = states.get(current.candidate.url)
+    button.textContent = state ? BUTTON_LABELS[state.status] : 'Stash'
+    button.dataset.status = state?.status ?? 'idle'
+    button.title = state?.status === 'error' ? state.error : ''
+    button.disabled = state?.status === 'saving'
+  }
+
+  const setState = (url: string, state: StashState) => {
+    states.set(url, state)
+    if (current?.candidate.url === url) {
+      render()
+    }
+  }
+
+  const flushLookups = async () => {
+    const mediaUrls = [...pendingLookups]
+    pendingLookups.clear()
+    try {
+      const payload: LookupMediaPayload = { mediaUrls }
+      const response = await chrome.runtime.sendMessage<
+        Message,
+        LookupMediaResponse
+      >({ type: 'LOOKUP_MEDIA', payload })
+      for (const url of mediaUrls) {
+        const assetId = response.byMediaUrl?.[url]
+        if (assetId && states.get(url)?.status !== 'saving') {
+          setState(url, { status: 'saved', assetId })
+        }
+      }
+    } catch {
+      // Unmarked media can still be stashed
+    }
+  }
+
+  const lookup = (url: string) => {
+    if (states.has(url) || pendingLookups.has(url)) {
+      return
+    }
+    states.set(url, { status: 'idle' })
+    pendingLookups.add(url)
+    clearTimeout(lookupTimeout)
+    lookupTimeout = setTimeout(flushLookups, LOOKUP_DELAY_MS)
+  }
+
+  const show = (element: MediaElement, candidate: MediaCandidate) => {
+    current = { element, candidate }
+    const rect = element.getBoundingClientRect()
+    button.style.top = `${Math.max(rect.top, 0) + BUTTON_INSET}px`
+    button.style.right = `${window.innerWidth - rect.right + BUTTON_INSET}px`
+    lookup(candidate.url)
+    render()
+    if (!button.isConnected) {
+      document.documentElement.append(button)
+    }
+  }
+
+  const updateTarget = (x: number, y: number) => {
+    const element = document
+      .elementsFromPoint(x, y)
+      .filter((el) => el !== button)
+      .find(isMediaElement)
+    if (!element) {
+      hide()
+      return
+    }
+    if (element === current?.element) {
+      return
+    }
+
+    const candidate = getCandidate(element)
+    if (candidate) {
+      show(element, candidate)
+    } else {
+      hide()
+    }
+  }
+
+  const capture = async (candidate: MediaCandidate) => {
+    const { url } = candidate
+    setState(url, { status: 'saving' })
+
+    const request: CaptureRequest = {
+      candidate,
+      pageContext: getPageContext(),
+    }
+    try {
+      const response = await chrome.runtime.sendMessage<
+        Message,
+        CaptureResponse
+      >({ type: 'CAPTURE_MEDIA', payload: request })
+      if (response.queued) {
+        setState(url, { status: 'queued' })
+      } else if (response.success) {
+        setState(url, { status: 'saved', assetId: response.assetId })
+      } else {
+        setState(url, {
+          status: 'error',
+          error: response.error || 'Failed to save',
+        })
+      }
+    } catch (error) {
+      setState(url, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Failed to save',
+      })
+    }
+  }
+
+  // Stashed media opens in AdStash; anything else is captured
+  const handleClick = async (e: MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    if (!current) {
+      return
+    }
+
+    const state = states.get(current.candidate.url)
+    if (state?.status === 'saved' && state.assetId) {
+      const { apiUrl } = await getConfig()
+      window.open(`${apiUrl}/assets/${state.assetId}`, '_blank')
+      return
+    }
+    if (state?.status !== 'saving' && state?.status !== 'queued') {
+      capture(current.candidate)
+    }
+  }
+
+  button.addEventListener('click', handleClick)
+  // Keep the page from reacting to presses on the button
+  button.addEventListener('mousedown', (e) => e.stopPropagation())
+
+  document.addEventListener(
+    'mousemove',
+    (e) => {
+      if (!enabled || frame !== null) {
+        return
+      }
+      frame = requestAnimationFrame(() => {
+        frame = null
+        updateTarget(e.clientX, e.clientY)
+      })
+    },
+    { passive: true },
+  )
+  window.addEventListener('scroll', hide, { capture: true, passive: true })
+
+  // Only offer stashing once an access token is set
+  const updateEnabled = async () => {
+    enabled = await isConfigured()
+    if (!enabled) {
+      hide()
+    }
+  }
+  chrome.storage.onChanged.addListener((_changes, areaName) => {
+    if (areaName === 'sync') {
+      updateEnabled()
+    }
+  })
+  updateEnabled()
+}
@@ -0,0 +1,99 @@
+// Captures waiting to be sent to the API, persisted in IndexedDB
+//
+// Kept in the service worker's IndexedDB (chrome.storage can't hold blobs)
+// so downloaded media survives the worker being stopped.
+
+import type { CaptureUpload, QueueStatus } from '../types'
+
+const DB_NAME = 'adstash-capture-queue'
+const DB_VERSION = 1
+const QUEUE_STORE = 'captures'
+
+export interface QueuedCapture {
+  id: string
+  upload: CaptureUpload
+  // Asset created by an earlier attempt, continued instead of starting over
+  assetId?: string
+  status: 'pending' | 'failed' // failed = out of attempts, retried manually
+  attempts: number
+  nextAttemptAt: number // ms since epoch
+  lastError: string
+  createdAt: number
+}
+
+function openQueueDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(QUEUE_STORE, { keyPath: 'id' })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withQueueStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openQueueDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(
+        db.transaction(QUEUE_STORE, mode).objectStore(QUEUE_STORE),
+      )
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * All queued captures, oldest first
+ */
+export async function getQueuedCaptures(): Promise<QueuedCapture[]> {
+  const captures = await withQueueStore<QueuedCapture[]>('readonly', (store) =>
+    store.getAll(),
+  )
+  return captures.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+export function saveQueuedCapture(capture: QueuedCapture) {
+  return withQueueStore<IDBValidKey>('readwrite', (store) => store.put(capture))
+}
+
+export function deleteQueuedCapture(id: string) {
+  return withQueueStore<undefined>('readwrite', (store) => store.delete(id))
+}
+
+/**
+ * Add a capture that couldn't be sent, to be retried after `delayMs`
+ */
+export async function enqueueCapture(
+  upload: CaptureUpload,
+  error: string,
+  delayMs: number,
+  assetId?: string,
+): Promise<QueuedCapture> {
+  const now = Date.now()
+  const capture: QueuedCapture = {
+    id: crypto.randomUUID(),
+    upload,
+    assetId,
+    status: 'pending',
+    attempts: 1,
+    nextAttemptAt: now + delayMs,
+    lastError: error,
+    createdAt: now,
+  }
+  await saveQueuedCapture(capture)
+  return capture
+}
+
+export async function getQueueStatus(): Promise<QueueStatus> {
+  const captures = await getQueuedCaptures()
+  const failed = captures.filter((c) => c.status === 'failed').length
+  return { pending: captures.length - failed, failed }
+}
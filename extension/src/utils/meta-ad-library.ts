@@ -0,0 +1,264 @@
+// Meta Ad Library scanner (facebook.com/ads/library)
+//
+// The first page of results is embedded as JSON with full metadata; results
+// loaded while scrolling only exist in the DOM, so ad cards are scraped too.
+
+import type { CandidateContext, MediaCandidate } from '../types'
+import {
+  addContextCandidate,
+  handleFromUrl,
+  parseAdDate,
+  scrapeContainerContext,
+} from './ad-context'
+
+const LIBRARY_ID_TEXT = 'Library ID'
+const LIBRARY_ID_REGEX = /Library ID:?\s*(\d+)/
+const STARTED_RUNNING_REGEX = /Started running on\s+([A-Za-z0-9 ,]+?\d{4})/
+const MAX_JSON_DEPTH = 40
+
+interface AdSnapshotMedia {
+  original_image_url?: string
+  resized_image_url?: string
+  video_hd_url?: string
+  video_sd_url?: string
+  video_preview_image_url?: string
+  // Carousel cards carry their own copy and link
+  body?: string | { text?: string }
+  cta_text?: string
+  link_url?: string
+}
+
+interface AdSnapshot extends AdSnapshotMedia {
+  page_name?: string
+  page_profile_uri?: string
+  images?: AdSnapshotMedia[]
+  videos?: AdSnapshotMedia[]
+  cards?: AdSnapshotMedia[]
+}
+
+interface AdArchiveResult {
+  ad_archive_id: string
+  page_name?: string
+  publisher_platform?: string[]
+  start_date?: number
+  snapshot: AdSnapshot
+}
+
+export function isMetaAdLibrary(): boolean {
+  return (
+    window.location.hostname.endsWith('facebook.com') &&
+    window.location.pathname.startsWith('/ads/library')
+  )
+}
+
+function candidateId(adLibraryId: string | undefined): string {
+  return `meta-ad-${adLibraryId ?? 'unknown'}-${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+function bodyText(body: AdSnapshotMedia['body']): string | undefined {
+  return (typeof body === 'string' ? body : body?.text)?.trim() || undefined
+}
+
+function isAdArchiveResult(value: object): value is AdArchiveResult {
+  return 'ad_archive_id' in value && 'snapshot' in value
+}
+
+function collectAdResults(
+  value: unknown,
+  results: AdArchiveResult[],
+  depth = 0,
+) {
+  if (!value || typeof value !== 'object' || depth > MAX_JSON_DEPTH) {
+    return
+  }
+  if (isAdArchiveResult(value)) {
+    results.push(value)
+    return
+  }
+  for (const child of Object.values(value)) {
+    collectAdResults(child, results, depth + 1)
+  }
+}
+
+function findEmbeddedAdResults(): AdArchiveResult[] {
+  const results: AdArchiveResult[] = []
+  for (const script of document.querySelectorAll(
+    'script[type="application/json"]',
+  )) {
+    const text = script.textContent || ''
+    if (!text.includes('ad_archive_id')) {
+      continue
+    }
+    try {
+      collectAdResults(JSON.parse(text), results)
+    } catch {
+      // Skip scripts that aren't plain JSON
+    }
+  }
+  return results
+}
+
+function addSnapshotMedia(
+  candidates: MediaCandidate[],
+  seenUrls: Set<string>,
+  media: AdSnapshotMedia,
+  context: CandidateContext,
+) {
+  const videoUrl = media.video_hd_url || media.video_sd_url
+  const url = videoUrl || media.original_image_url || media.resized_image_url
+  if (!url) {
+    return
+  }
+
+  addContextCandidate(candidates, seenUrls, {
+    id: candidateId(context.adLibraryId),
+    type: videoUrl ? 'video' : 'image',
+    url,
+    thumbnailUrl: videoUrl ? media.video_preview_image_url : undefined,
+    poster: videoUrl ? media.video_preview_image_url : undefined,
+    context: {
+      ...context,
+      postText: bodyText(media.body) || context.postText,
+      ctaText: media.cta_text || context.ctaText,
+      landingPageUrl: media.link_url || context.landingPageUrl,
+    },
+  })
+}
+
+function scanEmbeddedResults(
+  candidates: MediaCandidate[],
+  seenUrls: Set<string>,
+): Set<string> {
+  const scanned = new Set<string>()
+
+  for (const result of findEmbeddedAdResults()) {
+    const { snapshot } = result
+    const context: CandidateContext = {
+      postText: bodyText(snapshot.body),
+      advertiserName: result.page_name || snapshot.page_name,
+      advertiserHandle: snapshot.page_profile_uri
+        ? handleFromUrl(snapshot.page_profile_uri)
+        : undefined,
+      ctaText: snapshot.cta_text,
+      landingPageUrl: snapshot.link_url,
+      adLibraryId: result.ad_archive_id,
+      adStartDate: parseAdDate(result.start_date),
+      adPlatforms: result.publisher_platform?.map((p) => p.toLowerCase()),
+    }
+
+    const media = [
+      ...(snapshot.videos ?? []),
+      ...(snapshot.images ?? []),
+      ...(snapshot.cards ?? []),
+    ]
+    for (const item of media) {
+      addSnapshotMedia(candidates, seenUrls, item, context)
+    }
+    scanned.add(result.ad_archive_id)
+  }
+
+  return scanned
+}
+
+function countLibraryIds(element: Element): number {
+  return (element.textContent ?? '').split(LIBRARY_ID_TEXT).length - 1
+}
+
+// Widen from the "Library ID" label to the largest ancestor holding only that ad
+function findAdCards(): Element[] {
+  const cards = new Set<Element>()
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT)
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    let card = node.parentElement
+    if (!(card && node.textContent?.includes(LIBRARY_ID_TEXT))) {
+      continue
+    }
+    while (card.parentElement && countLibraryIds(card.parentElement) === 1) {
+      card = card.parentElement
+    }
+    cards.add(card)
+  }
+  return [...cards]
+}
+
+// The page link in the card header
+function scrapeAdvertiserLink(card: Element): HTMLAnchorElement | undefined {
+  return [
+    ...card.querySelectorAll<HTMLAnchorElement>('a[href*="facebook.com/"]'),
+  ].find(
+    (link) => !link.pathname.startsWith('/ads/') && link.textContent?.trim(),
+  )
+}
+
+function scrapeCardContext(card: Element): CandidateContext {
+  const text = card.textContent ?? ''
+  const advertiserLink = scrapeAdvertiserLink(card)
+  return {
+    ...scrapeContainerContext(card),
+    ...(advertiserLink && {
+      advertiserName: advertiserLink.textContent?.trim(),
+      advertiserHandle: handleFromUrl(advertiserLink.href),
+    }),
+    adLibraryId: LIBRARY_ID_REGEX.exec(text)?.[1],
+    adStartDate: parseAdDate(STARTED_RUNNING_REGEX.exec(text)?.[1]),
+  }
+}
+
+function scanAdCard(
+  card: Element,
+  candidates: MediaCandidate[],
+  seenUrls: Set<string>,
+) {
+  const context = scrapeCardContext(card)
+
+  for (const video of card.querySelectorAll('video')) {
+    const url = video.currentSrc || video.src
+    if (!url || url.startsWith('blob:')) {
+      continue
+    }
+    addContextCandidate(candidates, seenUrls, {
+      id: candidateId(context.adLibraryId),
+      type: 'video',
+      url,
+      width: video.videoWidth || undefined,
+      height: video.videoHeight || undefined,
+      poster: video.poster || undefined,
+      thumbnailUrl: video.poster || undefined,
+      context,
+    })
+  }
+
+  for (const img of card.querySelectorAll('img')) {
+    const url = img.currentSrc || img.src
+    // Skip the advertiser's profile picture and icons
+    if (!url || img.naturalWidth < 100 || img.naturalHeight < 100) {
+      continue
+    }
+    addContextCandidate(candidates, seenUrls, {
+      id: candidateId(context.adLibraryId),
+      type: 'image',
+      url,
+      width: img.naturalWidth,
+      height: img.naturalHeight,
+      alt: img.alt || undefined,
+      context,
+    })
+  }
+}
+
+/**
+ * Add every ad on an Ad Library results or ad details page as candidates
+ */
+export function scanMetaAdLibrary(
+  candidates: MediaCandidate[],
+  seenUrls: Set<string>,
+) {
+  const scanned = scanEmbeddedResults(candidates, seenUrls)
+
+  for (const card of findAdCards()) {
+    const adLibraryId = LIBRARY_ID_REGEX.exec(card.textContent ?? '')?.[1]
+    if (!(adLibraryId && scanned.has(adLibraryId))) {
+      scanAdCard(card, candidates, seenUrls)
+    }
+  }
+}
@@ -0,0 +1,143 @@
+// Lets the user drag a region or click an element to screenshot
+
+import type { ScreenshotRegion } from '../types'
+
+// Drags shorter than this are treated as a click on the hovered element
+const MIN_DRAG_DISTANCE = 5
+
+export interface ScreenshotSelection {
+  region: ScreenshotRegion
+  element: Element | null // Element under the selection, for its context
+}
+
+function clipToViewport(rect: DOMRect | ScreenshotRegion): ScreenshotRegion {
+  const x = Math.max(0, rect.x)
+  const y = Math.max(0, rect.y)
+  return {
+    x,
+    y,
+    width: Math.min(window.innerWidth, rect.x + rect.width) - x,
+    height: Math.min(window.innerHeight, rect.y + rect.height) - y,
+  }
+}
+
+function positionBox(box: HTMLElement, region: ScreenshotRegion) {
+  box.style.left = `${region.x}px`
+  box.style.top = `${region.y}px`
+  box.style.width = `${region.width}px`
+  box.style.height = `${region.height}px`
+}
+
+function regionBetween(
+  start: { x: number; y: number },
+  end: MouseEvent,
+): ScreenshotRegion {
+  return {
+    x: Math.min(start.x, end.clientX),
+    y: Math.min(start.y, end.clientY),
+    width: Math.abs(end.clientX - start.x),
+    height: Math.abs(end.clientY - start.y),
+  }
+}
+
+// Wait for the overlay removal to be painted before the tab is captured
+function nextPaint(): Promise<void> {
+  return new Promise((resolve) => {
+    requestAnimationFrame(() => requestAnimationFrame(() => resolve()))
+  })
+}
+
+/**
+ * Show a full-page overlay for picking the screenshot area.
+ * Resolves with the selection, or null when cancelled with Escape.
+ */
+export function selectScreenshotRegion(): Promise<ScreenshotSelection | null> {
+  const overlay = document.createElement('div')
+  overlay.className = 'adstash-selection-overlay'
+  const box = document.createElement('div')
+  box.className = 'adstash-selection-box'
+  const hint = document.createElement('div')
+  hint.className = 'adstash-selection-hint'
+  hint.textContent =
+    'Drag to select a region or click an element · Esc to cancel'
+  overlay.append(box, hint)
+  document.documentElement.append(overlay)
+
+  let start: { x: number; y: number } | null = null
+  let hovered: Element | null = null
+
+  const elementAt = (x: number, y: number) =>
+    document
+      .elementsFromPoint(x, y)
+      .find((el) => !overlay.contains(el) && el !== document.documentElement) ??
+    null
+
+  return new Promise((resolve) => {
+    const finish = async (selection: ScreenshotSelection | null) => {
+      overlay.remove()
+      // Keep earlier toasts and the hover button out of the screenshot
+      for (const el of document.querySelectorAll(
+        '.adstash-toast, .adstash-stash-btn',
+      )) {
+        el.remove()
+      }
+      document.removeEventListener('keydown', onKeyDown, true)
+      await nextPaint()
+      resolve(selection)
+    }
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        e.stopPropagation()
+        finish(null)
+      }
+    }
+
+    overlay.addEventListener('mousedown', (e) => {
+      e.preventDefault()
+      start = { x: e.clientX, y: e.clientY }
+    })
+
+    overlay.addEventListener('mousemove', (e) => {
+      if (start) {
+        positionBox(box, regionBetween(start, e))
+        return
+      }
+      hovered = elementAt(e.clientX, e.clientY)
+      if (hovered) {
+        positionBox(box, clipToViewport(hovered.getBoundingClientRect()))
+      }
+    })
+
+    overlay.addEventListener('mouseup', (e) => {
+      if (!start) {
+        return
+      }
+      const dragged = regionBetween(start, e)
+      const isClick =
+        dragged.width < MIN_DRAG_DISTANCE && dragged.height < MIN_DRAG_DISTANCE
+      start = null
+
+      if (isClick) {
+        if (hovered) {
+          finish({
+            region: clipToViewport(hovered.getBoundingClientRect()),
+            element: hovered,
+          })
+        }
+        return
+      }
+
+      finish({
+        region: clipToViewport(dragged),
+        element: elementAt(
+          dragged.x + dragged.width / 2,
+          dragged.y + dragged.height / 2,
+        ),
+      })
+    })
+
+    document.addEventListener('keydown', onKeyDown, true)
+  })
+}
@@ -0,0 +1,154 @@
+// Tag autocomplete for the popup: pick existing tags or create new ones
+
+import type { TagOption } from '../types'
+
+const MAX_SUGGESTIONS = 6
+
+interface TagInputElements {
+  input: HTMLInputElement
+  selected: HTMLElement
+  suggestions: HTMLElement
+}
+
+interface TagInputOptions {
+  createTag: (name: string) => Promise<TagOption>
+  onError: (message: string) => void
+}
+
+export interface TagInput {
+  setTags: (tags: TagOption[]) => void
+  getSelectedTagIds: () => string[]
+}
+
+interface Suggestion {
+  label: string
+  tag?: TagOption // Absent for "Create …"
+}
+
+export function setupTagInput(
+  { input, selected, suggestions }: TagInputElements,
+  { createTag, onError }: TagInputOptions,
+): TagInput {
+  let allTags: TagOption[] = []
+  let selectedIds: string[] = []
+  let current: Suggestion[] = []
+
+  const renderSelected = () => {
+    selected.replaceChildren(
+      ...selectedIds.flatMap((id) => {
+        const tag = allTags.find((t) => t.id === id)
+        if (!tag) {
+          return []
+        }
+        const chip = document.createElement('span')
+        chip.className = 'tag-chip'
+        chip.style.backgroundColor = tag.color
+        chip.textContent = tag.name
+
+        const remove = document.createElement('button')
+        remove.type = 'button'
+        remove.title = `Remove ${tag.name}`
+        remove.textContent = '×'
+        remove.addEventListener('click', () => {
+          selectedIds = selectedIds.filter((t) => t !== id)
+          renderSelected()
+        })
+        chip.append(remove)
+        return [chip]
+      }),
+    )
+  }
+
+  const hideSuggestions = () => {
+    current = []
+    suggestions.classList.add('hidden')
+  }
+
+  const select = async (suggestion: Suggestion) => {
+    input.value = ''
+    hideSuggestions()
+
+    let tag = suggestion.tag
+    if (!tag) {
+      try {
+        tag = await createTag(suggestion.label)
+      } catch (error) {
+        onError(error instanceof Error ? error.message : 'Failed to create tag')
+        return
+      }
+      if (!allTags.some((t) => t.id === tag?.id)) {
+        allTags = [...allTags, tag]
+      }
+    }
+    if (!selectedIds.includes(tag.id)) {
+      selectedIds = [...selectedIds, tag.id]
+    }
+    renderSelected()
+  }
+
+  const renderSuggestions = () => {
+    const query = input.value.trim()
+    if (!query) {
+      hideSuggestions()
+      return
+    }
+
+    const lower = query.toLowerCase()
+    current = allTags
+      .filter(
+        (tag) =>
+          !selectedIds.includes(tag.id) &&
+          tag.name.toLowerCase().includes(lower),
+      )
+      .slice(0, MAX_SUGGESTIONS)
+      .map((tag) => ({ label: tag.name, tag }))
+    if (!allTags.some((tag) => tag.name.toLowerCase() === lower)) {
+      current.push({ label: query })
+    }
+
+    suggestions.replaceChildren(
+      ...current.map((suggestion, index) => {
+        const button = document.createElement('button')
+        button.type = 'button'
+        button.className = `tag-suggestion${index === 0 ? ' active' : ''}`
+        if (suggestion.tag) {
+          const swatch = document.createElement('span')
+          swatch.className = 'tag-swatch'
+          swatch.style.backgroundColor = suggestion.tag.color
+          button.append(swatch, suggestion.label)
+        } else {
+          button.textContent = `Create "${suggestion.label}"`
+        }
+        // mousedown so the input doesn't blur first
+        button.addEventListener('mousedown', (e) => {
+          e.preventDefault()
+          select(suggestion)
+        })
+        return button
+      }),
+    )
+    suggestions.classList.remove('hidden')
+  }
+
+  input.addEventListener('input', renderSuggestions)
+  input.addEventListener('blur', hideSuggestions)
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' && current.length > 0) {
+      e.preventDefault()
+      select(current[0])
+    } else if (e.key === 'Escape') {
+      hideSuggestions()
+    } else if (e.key === 'Backspace' && !input.value && selectedIds.length) {
+      selectedIds = selectedIds.slice(0, -1)
+      renderSelected()
+    }
+  })
+
+  return {
+    setTags: (tags) => {
+      allTags = tags
+      renderSelected()
+    },
+    getSelectedTagIds: () => selectedIds,
+  }
+}
@@ -0,0 +1,95 @@
+// In-page tag picker for "Save with tags…" from the context menu
+
+import type { TagOption } from '../types'
+
+function createTagOption(tag: TagOption): HTMLLabelElement {
+  const label = document.createElement('label')
+  label.className = 'adstash-tag-option'
+
+  const checkbox = document.createElement('input')
+  checkbox.type = 'checkbox'
+  checkbox.value = tag.id
+
+  const swatch = document.createElement('span')
+  swatch.className = 'adstash-tag-swatch'
+  swatch.style.backgroundColor = tag.color
+
+  const name = document.createElement('span')
+  name.textContent = tag.name
+
+  label.append(checkbox, swatch, name)
+  return label
+}
+
+/**
+ * Ask the user which tags to save the capture with.
+ * Resolves with the chosen tag IDs, or null when cancelled.
+ */
+export function pickTags(tags: TagOption[]): Promise<string[] | null> {
+  const backdrop = document.createElement('div')
+  backdrop.className = 'adstash-dialog-backdrop'
+
+  const dialog = document.createElement('div')
+  dialog.className = 'adstash-dialog'
+  dialog.setAttribute('role', 'dialog')
+  dialog.setAttribute('aria-label', 'Save to AdStash with tags')
+
+  const title = document.createElement('h2')
+  title.textContent = 'Save with tags'
+
+  const list = document.createElement('div')
+  list.className = 'adstash-tag-list'
+  if (tags.length === 0) {
+    list.textContent = 'No tags created yet'
+  }
+  list.append(...tags.map(createTagOption))
+
+  const cancelBtn = document.createElement('button')
+  cancelBtn.type = 'button'
+  cancelBtn.className = 'adstash-btn'
+  cancelBtn.textContent = 'Cancel'
+
+  const saveBtn = document.createElement('button')
+  saveBtn.type = 'button'
+  saveBtn.className = 'adstash-btn adstash-btn-primary'
+  saveBtn.textContent = 'Save'
+
+  const actions = document.createElement('div')
+  actions.className = 'adstash-dialog-actions'
+  actions.append(cancelBtn, saveBtn)
+
+  dialog.append(title, list, actions)
+  backdrop.append(dialog)
+  document.documentElement.append(backdrop)
+  saveBtn.focus()
+
+  return new Promise((resolve) => {
+    const close = (tagIds: string[] | null) => {
+      backdrop.remove()
+      document.removeEventListener('keydown', onKeyDown, true)
+      resolve(tagIds)
+    }
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        e.stopPropagation()
+        close(null)
+      }
+    }
+
+    cancelBtn.addEventListener('click', () => close(null))
+    saveBtn.addEventListener('click', () => {
+      const checked = list.querySelectorAll<HTMLInputElement>(
+        'input[type="checkbox"]:checked',
+      )
+      close([...checked].map((checkbox) => checkbox.value))
+    })
+    backdrop.addEventListener('click', (e) => {
+      if (e.target === backdrop) {
+        close(null)
+      }
+    })
+    document.addEventListener('keydown', onKeyDown, true)
+  })
+}
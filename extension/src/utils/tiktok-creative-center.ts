@@ -0,0 +1,107 @@
+// TikTok Creative Center scanner (ads.tiktok.com/business/creativecenter)
+//
+// Top Ads pages ship their ads in the Next.js data blob, each with a
+// video_info object holding the video URLs by resolution.
+
+import type { MediaCandidate } from '../types'
+import { addContextCandidate, parseAdDate } from './ad-context'
+
+const RESOLUTION_REGEX = /\d+/
+const MAX_JSON_DEPTH = 40
+
+interface CreativeCenterAd {
+  id?: string | number
+  ad_title?: string
+  brand_name?: string
+  landing_page?: string
+  first_shown_date?: number | string
+  video_info: {
+    cover?: string
+    width?: number
+    height?: number
+    video_url?: Record<string, string>
+  }
+}
+
+export function isTikTokCreativeCenter(): boolean {
+  return (
+    window.location.hostname === 'ads.tiktok.com' &&
+    window.location.pathname.includes('/creativecenter')
+  )
+}
+
+function isCreativeCenterAd(value: object): value is CreativeCenterAd {
+  return (
+    'video_info' in value &&
+    typeof value.video_info === 'object' &&
+    value.video_info !== null
+  )
+}
+
+function collectAds(value: unknown, ads: CreativeCenterAd[], depth = 0) {
+  if (!value || typeof value !== 'object' || depth > MAX_JSON_DEPTH) {
+    return
+  }
+  if (isCreativeCenterAd(value)) {
+    ads.push(value)
+    return
+  }
+  for (const child of Object.values(value)) {
+    collectAds(child, ads, depth + 1)
+  }
+}
+
+// Highest resolution first ("720p" > "540p")
+function bestVideoUrl(urls: Record<string, string> = {}): string | undefined {
+  const resolution = (key: string) => Number(RESOLUTION_REGEX.exec(key)?.[0])
+  return Object.entries(urls)
+    .filter(([, url]) => url)
+    .sort(([a], [b]) => (resolution(b) || 0) - (resolution(a) || 0))[0]?.[1]
+}
+
+/**
+ * Add the Top Ads embedded in a Creative Center page as candidates
+ */
+export function scanTikTokCreativeCenter(
+  candidates: MediaCandidate[],
+  seenUrls: Set<string>,
+) {
+  const script = document.getElementById('__NEXT_DATA__')
+  if (!script?.textContent) {
+    return
+  }
+
+  const ads: CreativeCenterAd[] = []
+  try {
+    collectAds(JSON.parse(script.textContent), ads)
+  } catch (e) {
+    console.warn('Failed to parse Creative Center data:', e)
+    return
+  }
+
+  for (const ad of ads) {
+    const { video_info: video } = ad
+    const url = bestVideoUrl(video.video_url)
+    if (!url) {
+      continue
+    }
+
+    addContextCandidate(candidates, seenUrls, {
+      id: `tt-cc-${ad.id ?? 'unknown'}-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+      type: 'video',
+      url,
+      width: video.width,
+      height: video.height,
+      poster: video.cover,
+      thumbnailUrl: video.cover,
+      context: {
+        postText: ad.ad_title?.trim() || undefined,
+        advertiserName: ad.brand_name?.trim() || undefined,
+        landingPageUrl: ad.landing_page || undefined,
+        adLibraryId: ad.id === undefined ? undefined : String(ad.id),
+        adStartDate: parseAdDate(ad.first_shown_date),
+        adPlatforms: ['tiktok'],
+      },
+    })
+  }
+}
@@ -0,0 +1,214 @@
+import { and, eq, gte, ilike, inArray, lte, sql } from 'drizzle-orm'
+import { db } from '@/db'
+import { assets, assetTags } from '@/db/schema/assets'
+import { tags } from '@/db/schema/tags'
+import { buildTsQuery, searchCondition } from '@/lib/search'
+import type { createClient } from '@/lib/supabase/server'
+import {
+  createSignedDownloadUrl,
+  PREVIEWS_BUCKET,
+} from '@/lib/supabase/storage'
+
+/**
+ * Helpers for querying assets and returning them to the UI (server-side)
+ */
+
+export interface QueryParams {
+  page: number
+  limit: number
+  search: string
+  sourcePlatform: string
+  mimeTypeFilter: string
+  tagIds: string[]
+  fromDate: string
+  toDate: string
+  cursor: string | null // null = offset mode, '' = first cursor page
+}
+
+/**
+ * Parse the asset listing filters from a query string
+ */
+export function parseQueryParams(searchParams: URLSearchParams): QueryParams {
+  return {
+    page: Number.parseInt(searchParams.get('page') || '1', 10),
+    limit: Math.min(
+      Number.parseInt(searchParams.get('limit') || '24', 10),
+      100,
+    ),
+    search: searchParams.get('search') || '',
+    sourcePlatform: searchParams.get('source') || '',
+    mimeTypeFilter: searchParams.get('type') || '',
+    tagIds: searchParams.get('tags')?.split(',').filter(Boolean) || [],
+    fromDate: searchParams.get('from') || '',
+    toDate: searchParams.get('to') || '',
+    cursor: searchParams.get('cursor'),
+  }
+}
+
+/**
+ * Build the WHERE conditions for the user's ready assets matching the filters
+ */
+export function buildWhereConditions(
+  userId: string,
+  params: QueryParams,
+): ReturnType<typeof and>[] {
+  const conditions: ReturnType<typeof and>[] = [
+    eq(assets.ownerId, userId),
+    eq(assets.status, 'ready'),
+  ]
+
+  const tsQuery = buildTsQuery(params.search)
+  if (tsQuery) {
+    conditions.push(searchCondition(tsQuery, params.search))
+  }
+
+  if (params.sourcePlatform) {
+    conditions.push(eq(assets.sourcePlatform, params.sourcePlatform))
+  }
+
+  if (params.mimeTypeFilter === 'image') {
+    conditions.push(ilike(assets.mimeType, 'image/%'))
+  } else if (params.mimeTypeFilter === 'video') {
+    conditions.push(ilike(assets.mimeType, 'video/%'))
+  }
+
+  if (params.fromDate) {
+    conditions.push(gte(assets.createdAt, new Date(params.fromDate)))
+  }
+
+  if (params.toDate) {
+    conditions.push(lte(assets.createdAt, new Date(params.toDate)))
+  }
+
+  if (params.tagIds.length > 0) {
+    const assetsWithTags = db
+      .select({ assetId: assetTags.assetId })
+      .from(assetTags)
+      .where(inArray(assetTags.tagId, params.tagIds))
+      .groupBy(assetTags.assetId)
+      .having(sql`count(distinct ${assetTags.tagId}) = ${params.tagIds.length}`)
+    conditions.push(inArray(assets.id, assetsWithTags))
+  }
+
+  return conditions
+}
+
+/**
+ * Attach the owner's tags to an asset, skipping tags it already has and
+ * tag ids that belong to someone else. Returns the ids that were added.
+ */
+export async function addAssetTags(
+  assetId: string,
+  ownerId: string,
+  tagIds: string[],
+): Promise<string[]> {
+  if (tagIds.length === 0) {
+    return []
+  }
+
+  const [ownedTags, existingTags] = await Promise.all([
+    db
+      .select({ id: tags.id })
+      .from(tags)
+      .where(and(inArray(tags.id, tagIds), eq(tags.ownerId, ownerId))),
+    db
+      .select({ tagId: assetTags.tagId })
+      .from(assetTags)
+      .where(eq(assetTags.assetId, assetId)),
+  ])
+  const existingIds = new Set(existingTags.map((row) => row.tagId))
+  const newTagIds = ownedTags
+    .map((tag) => tag.id)
+    .filter((id) => !existingIds.has(id))
+
+  if (newTagIds.length > 0) {
+    await db
+      .insert(assetTags)
+      .values(newTagIds.map((tagId) => ({ assetId, tagId })))
+  }
+  return newTagIds
+}
+
+/**
+ * Load the tags for a set of assets, keyed by asset ID
+ */
+export async function getAssetsWithTags(assetIds: string[]) {
+  if (assetIds.length === 0) {
+    return new Map<string, (typeof tags.$inferSelect)[]>()
+  }
+
+  const assetTagsData = await db
+    .select({
+      assetId: assetTags.assetId,
+      tag: tags,
+    })
+    .from(assetTags)
+    .innerJoin(tags, eq(assetTags.tagId, tags.id))
+    .where(inArray(assetTags.assetId, assetIds))
+
+  const tagsByAsset = new Map<string, (typeof tags.$inferSelect)[]>()
+  for (const row of assetTagsData) {
+    const existing = tagsByAsset.get(row.assetId) || []
+    existing.push(row.tag)
+    tagsByAsset.set(row.assetId, existing)
+  }
+
+  return tagsByAsset
+}
+
+/**
+ * Signed URL for a video's hover-scrub sprite sheet, if it has one
+ */
+export async function getSpriteUrl(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  asset: typeof assets.$inferSelect,
+): Promise<string | null> {
+  if (!(asset.spritePath && asset.spriteFrames)) {
+    return null
+  }
+  try {
+    const urlData = await createSignedDownloadUrl(supabase, {
+      bucket: PREVIEWS_BUCKET,
+      path: asset.spritePath,
+      expiresIn: 3600,
+    })
+    return urlData.signedUrl
+  } catch {
+    // Sprite sheet not available
+    return null
+  }
+}
+
+/**
+ * Attach signed preview/sprite URLs and tags to each asset
+ */
+export function addPreviewUrls(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  assetResults: (typeof assets.$inferSelect)[],
+  tagsByAsset: Map<string, (typeof tags.$inferSelect)[]>,
+) {
+  return Promise.all(
+    assetResults.map(async (asset) => {
+      let previewUrl: string | null = null
+      try {
+        if (asset.previewBucket && asset.previewPath) {
+          const urlData = await createSignedDownloadUrl(supabase, {
+            bucket: asset.previewBucket,
+            path: asset.previewPath,
+            expiresIn: 3600,
+          })
+          previewUrl = urlData.signedUrl
+        }
+      } catch {
+        // Preview not available
+      }
+
+      return {
+        ...asset,
+        previewUrl,
+        spriteUrl: await getSpriteUrl(supabase, asset),
+        tags: tagsByAsset.get(asset.id) || [],
+      }
+    }),
+  )
+}
@@ -0,0 +1,102 @@
+import type { NewAsset } from '@/db/schema/assets'
+
+/**
+ * Ad/post context sent by the extension with a capture (server-side)
+ *
+ * Everything is scraped from third-party pages, so values are trimmed,
+ * length-limited and URLs restricted to http(s) before being stored.
+ */
+
+const MAX_TEXT_LENGTH = 5000
+const MAX_SHORT_TEXT_LENGTH = 200
+const MAX_URL_LENGTH = 2048
+const MAX_AD_PLATFORMS = 10
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+export interface CaptureContextInput {
+  pageDescription?: unknown
+  postText?: unknown
+  advertiserName?: unknown
+  advertiserHandle?: unknown
+  ctaText?: unknown
+  landingPageUrl?: unknown
+  adLibraryId?: unknown
+  adStartDate?: unknown
+  adPlatforms?: unknown
+}
+
+export type CaptureContext = Pick<
+  NewAsset,
+  | 'pageDescription'
+  | 'postText'
+  | 'advertiserName'
+  | 'advertiserHandle'
+  | 'ctaText'
+  | 'landingPageUrl'
+  | 'adLibraryId'
+  | 'adStartDate'
+  | 'adPlatforms'
+>
+
+function cleanText(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string') {
+    return null
+  }
+  return value.trim().slice(0, maxLength) || null
+}
+
+function cleanUrl(value: unknown): string | null {
+  const url = cleanText(value, MAX_URL_LENGTH)
+  if (!(url && URL.canParse(url))) {
+    return null
+  }
+  const { protocol } = new URL(url)
+  return protocol === 'http:' || protocol === 'https:' ? url : null
+}
+
+// Round-tripped so impossible dates like 2024-02-31 (which Date.parse
+// rolls over) are rejected before Postgres does
+function cleanDate(value: unknown): string | null {
+  const date = cleanText(value, 10)
+  if (!(date && DATE_REGEX.test(date))) {
+    return null
+  }
+  const parsed = new Date(`${date}T00:00:00Z`)
+  return !Number.isNaN(parsed.getTime()) &&
+    parsed.toISOString().slice(0, 10) === date
+    ? date
+    : null
+}
+
+function cleanPlatforms(value: unknown): string[] | null {
+  if (!Array.isArray(value)) {
+    return null
+  }
+  const platforms = value
+    .map((platform) =>
+      cleanText(platform, MAX_SHORT_TEXT_LENGTH)?.toLowerCase(),
+    )
+    .filter((platform): platform is string => !!platform)
+  const unique = [...new Set(platforms)].slice(0, MAX_AD_PLATFORMS)
+  return unique.length > 0 ? unique : null
+}
+
+/**
+ * Normalize the scraped context into asset columns
+ */
+export function normalizeCaptureContext(
+  input: CaptureContextInput | undefined,
+): CaptureContext {
+  return {
+    pageDescription: cleanText(input?.pageDescription, MAX_TEXT_LENGTH),
+    postText: cleanText(input?.postText, MAX_TEXT_LENGTH),
+    advertiserName: cleanText(input?.advertiserName, MAX_SHORT_TEXT_LENGTH),
+    advertiserHandle: cleanText(input?.advertiserHandle, MAX_SHORT_TEXT_LENGTH),
+    ctaText: cleanText(input?.ctaText, MAX_SHORT_TEXT_LENGTH),
+    landingPageUrl: cleanUrl(input?.landingPageUrl),
+    adLibraryId: cleanText(input?.adLibraryId, MAX_SHORT_TEXT_LENGTH),
+    adStartDate: cleanDate(input?.adStartDate),
+    adPlatforms: cleanPlatforms(input?.adPlatforms),
+  }
+}
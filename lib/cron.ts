@@ -0,0 +1,13 @@
+/**
+ * Authorization for scheduled invocations (see vercel.json)
+ *
+ * The scheduler sends `Authorization: Bearer <CRON_SECRET>`; the same header
+ * can be used to trigger these routes manually.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    return false
+  }
+  return request.headers.get('Authorization') === `Bearer ${cronSecret}`
+}
@@ -0,0 +1,210 @@
+import { createHash } from 'node:crypto'
+import { and, desc, eq, inArray, or, sql } from 'drizzle-orm'
+import { db } from '@/db'
+import { type Asset, assets } from '@/db/schema/assets'
+import { addAssetTags } from '@/lib/assets'
+import { mediaUrlKey } from '@/lib/media-url'
+import { refreshAssetSearchVectors } from '@/lib/search'
+
+/**
+ * Duplicate detection for uploads and captures (server-side)
+ *
+ * - skip:  return the existing asset untouched
+ * - link:  return the existing asset after merging the new tags/notes onto it
+ * - allow: create a new asset anyway
+ */
+export type DuplicatePolicy = 'skip' | 'link' | 'allow'
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['skip', 'link', 'allow']
+
+export const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = 'skip'
+
+export function isDuplicatePolicy(value: unknown): value is DuplicatePolicy {
+  return DUPLICATE_POLICIES.includes(value as DuplicatePolicy)
+}
+
+/**
+ * Find the owner's existing ready asset with the given SHA-256 hash
+ */
+export async function findDuplicateAsset(
+  ownerId: string,
+  sha256: string,
+): Promise<Asset | null> {
+  const [existing] = await db
+    .select()
+    .from(assets)
+    .where(
+      and(
+        eq(assets.ownerId, ownerId),
+        eq(assets.sha256, sha256.toLowerCase()),
+        eq(assets.status, 'ready'),
+      ),
+    )
+    .orderBy(desc(assets.createdAt))
+    .limit(1)
+
+  return existing ?? null
+}
+
+function md5(value: string): string {
+  return createHash('md5').update(value).digest('hex')
+}
+
+/**
+ * Map each media URL the owner already captured to its newest ready asset ID.
+ * URLs match exactly or by mediaUrlKey(), so re-signed CDN links of the same
+ * file are found too.
+ */
+export async function findAssetsByMediaUrl(
+  ownerId: string,
+  mediaUrls: string[],
+): Promise<Map<string, string>> {
+  if (mediaUrls.length === 0) {
+    return new Map()
+  }
+
+  const keysByUrl = new Map(mediaUrls.map((url) => [url, mediaUrlKey(url)]))
+  const rows = await db
+    .select({
+      id: assets.id,
+      mediaUrl: assets.mediaUrl,
+      mediaUrlKey: assets.mediaUrlKey,
+    })
+    .from(assets)
+    .where(
+      and(
+        eq(assets.ownerId, ownerId),
+        // Match the md5() expression indexes
+        or(
+          inArray(sql`md5(${assets.mediaUrl})`, mediaUrls.map(md5)),
+          inArray(
+            sql`md5(${assets.mediaUrlKey})`,
+            [...new Set(keysByUrl.values())].map(md5),
+          ),
+        ),
+        eq(assets.status, 'ready'),
+      ),
+    )
+    .orderBy(desc(assets.createdAt))
+
+  // Newest asset for each URL and key
+  const byUrl = new Map<string, string>()
+  const byKey = new Map<string, string>()
+  for (const row of rows) {
+    if (row.mediaUrl && !byUrl.has(row.mediaUrl)) {
+      byUrl.set(row.mediaUrl, row.id)
+    }
+    if (row.mediaUrlKey && !byKey.has(row.mediaUrlKey)) {
+      byKey.set(row.mediaUrlKey, row.id)
+    }
+  }
+
+  const found = new Map<string, string>()
+  for (const [url, key] of keysByUrl) {
+    const assetId = byUrl.get(url) ?? byKey.get(key)
+    if (assetId) {
+      found.set(url, assetId)
+    }
+  }
+  return found
+}
+
+/**
+ * Map each SHA-256 hash the owner already has to its newest ready asset ID.
+ * Keys are lowercased.
+ */
+export async function findAssetsBySha256(
+  ownerId: string,
+  hashes: string[],
+): Promise<Map<string, string>> {
+  if (hashes.length === 0) {
+    return new Map()
+  }
+
+  const rows = await db
+    .select({ id: assets.id, sha256: assets.sha256 })
+    .from(assets)
+    .where(
+      and(
+        eq(assets.ownerId, ownerId),
+        inArray(
+          assets.sha256,
+          hashes.map((hash) => hash.toLowerCase()),
+        ),
+        eq(assets.status, 'ready'),
+      ),
+    )
+    .orderBy(desc(assets.createdAt))
+
+  const found = new Map<string, string>()
+  for (const row of rows) {
+    if (row.sha256 && !found.has(row.sha256)) {
+      found.set(row.sha256, row.id)
+    }
+  }
+  return found
+}
+
+/**
+ * Merge tags and notes from a duplicate upload onto the existing asset
+ */
+export async function linkDuplicateAsset(
+  asset: Asset,
+  { tagIds, notes }: { tagIds?: string[]; notes?: string },
+): Promise<Asset> {
+  let updated = asset
+
+  if (Array.isArray(tagIds)) {
+    await addAssetTags(asset.id, asset.ownerId, tagIds)
+  }
+
+  const trimmedNotes = notes?.trim()
+  if (trimmedNotes && !asset.notes?.includes(trimmedNotes)) {
+    const [withNotes] = await db
+      .update(assets)
+      .set({
+        notes: asset.notes ? `${asset.notes}\n\n${trimmedNotes}` : trimmedNotes,
+        updatedAt: new Date(),
+      })
+      .where(eq(assets.id, asset.id))
+      .returning()
+    updated = withNotes
+  }
+
+  await refreshAssetSearchVectors([asset.id])
+
+  return updated
+}
+
+/**
+ * Apply a duplicate policy to an upload.
+ * Returns the existing asset to use instead, or null when a new asset
+ * should be created.
+ */
+export async function resolveDuplicateAsset(
+  ownerId: string,
+  {
+    sha256,
+    policy,
+    tagIds,
+    notes,
+  }: {
+    sha256?: string
+    policy: DuplicatePolicy
+    tagIds?: string[]
+    notes?: string
+  },
+): Promise<Asset | null> {
+  if (!sha256 || policy === 'allow') {
+    return null
+  }
+
+  const existing = await findDuplicateAsset(ownerId, sha256)
+  if (!existing) {
+    return null
+  }
+
+  return policy === 'link'
+    ? await linkDuplicateAsset(existing, { tagIds, notes })
+    : existing
+}
@@ -0,0 +1,221 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { strToU8, Zip, ZipDeflate, ZipPassThrough } from 'fflate'
+import type { Asset } from '@/db/schema/assets'
+import type { Tag } from '@/db/schema/tags'
+import { createSignedDownloadUrl } from '@/lib/supabase/storage'
+
+/**
+ * ZIP export of assets with a metadata manifest (server-side)
+ */
+
+export interface ManifestEntry {
+  id: string
+  file: string | null // Path inside the ZIP, null if the original was unavailable
+  originalFilename: string
+  mimeType: string
+  sourcePlatform: string
+  captureUrl: string | null
+  pageTitle: string | null
+  advertiserName: string | null
+  advertiserHandle: string | null
+  postText: string | null
+  ctaText: string | null
+  landingPageUrl: string | null
+  adLibraryId: string | null
+  adStartDate: string | null
+  adPlatforms: string[]
+  tags: string[]
+  notes: string | null
+  width: number | null
+  height: number | null
+  durationSeconds: number | null
+  sizeBytes: number | null
+  sha256: string | null
+  createdAt: string
+}
+
+const CSV_QUOTE_REGEX = /[",\r\n]/
+const UNSAFE_FILENAME_REGEX = /[/\\:*?"<>|]+/g
+
+const MANIFEST_COLUMNS: (keyof ManifestEntry)[] = [
+  'id',
+  'file',
+  'originalFilename',
+  'mimeType',
+  'sourcePlatform',
+  'captureUrl',
+  'pageTitle',
+  'advertiserName',
+  'advertiserHandle',
+  'postText',
+  'ctaText',
+  'landingPageUrl',
+  'adLibraryId',
+  'adStartDate',
+  'adPlatforms',
+  'tags',
+  'notes',
+  'width',
+  'height',
+  'durationSeconds',
+  'sizeBytes',
+  'sha256',
+  'createdAt',
+]
+
+// Media is already compressed, so originals are stored as-is
+async function addOriginal(
+  zip: Zip,
+  supabase: SupabaseClient,
+  asset: Asset,
+  path: string,
+): Promise<boolean> {
+  let file: ZipPassThrough | null = null
+  try {
+    const { signedUrl } = await createSignedDownloadUrl(supabase, {
+      bucket: asset.storageBucket,
+      path: asset.storagePath,
+      expiresIn: 300,
+    })
+    const response = await fetch(signedUrl)
+    if (!(response.ok && response.body)) {
+      return false
+    }
+
+    file = new ZipPassThrough(path)
+    file.mtime = asset.createdAt
+    zip.add(file)
+
+    const reader = response.body.getReader()
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) {
+        break
+      }
+      file.push(value)
+    }
+    file.push(new Uint8Array(0), true)
+    return true
+  } catch (error) {
+    console.warn(`Failed to export asset ${asset.id}:`, error)
+    // Close a partially written entry so later entries can still be added
+    file?.push(new Uint8Array(0), true)
+    return false
+  }
+}
+
+function addTextFile(zip: Zip, path: string, content: string) {
+  const file = new ZipDeflate(path, { level: 6 })
+  zip.add(file)
+  file.push(strToU8(content), true)
+}
+
+function toManifestEntry(
+  asset: Asset,
+  tags: Tag[],
+  file: string | null,
+): ManifestEntry {
+  return {
+    id: asset.id,
+    file,
+    originalFilename: asset.originalFilename,
+    mimeType: asset.mimeType,
+    sourcePlatform: asset.sourcePlatform,
+    captureUrl: asset.captureUrl,
+    pageTitle: asset.pageTitle,
+    advertiserName: asset.advertiserName,
+    advertiserHandle: asset.advertiserHandle,
+    postText: asset.postText,
+    ctaText: asset.ctaText,
+    landingPageUrl: asset.landingPageUrl,
+    adLibraryId: asset.adLibraryId,
+    adStartDate: asset.adStartDate,
+    adPlatforms: asset.adPlatforms ?? [],
+    tags: tags.map((tag) => tag.name),
+    notes: asset.notes,
+    width: asset.width,
+    height: asset.height,
+    durationSeconds: asset.durationSeconds
+      ? Number(asset.durationSeconds)
+      : null,
+    sizeBytes: asset.sizeBytes,
+    sha256: asset.sha256,
+    createdAt: asset.createdAt.toISOString(),
+  }
+}
+
+function csvField(value: ManifestEntry[keyof ManifestEntry]): string {
+  if (value === null) {
+    return ''
+  }
+  const text = Array.isArray(value) ? value.join(';') : String(value)
+  return CSV_QUOTE_REGEX.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+/**
+ * Serialize manifest entries as CSV (tags are joined with ";")
+ */
+export function manifestToCsv(entries: ManifestEntry[]): string {
+  const rows = entries.map((entry) =>
+    MANIFEST_COLUMNS.map((column) => csvField(entry[column])).join(','),
+  )
+  return `${[MANIFEST_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`
+}
+
+// Unique, filesystem-safe path for an asset's original inside the ZIP
+function exportPath(asset: Asset): string {
+  const safeName = asset.originalFilename.replace(UNSAFE_FILENAME_REGEX, '_')
+  return `assets/${asset.id.slice(0, 8)}-${safeName}`
+}
+
+/**
+ * Stream a ZIP of the assets' originals plus manifest.json and manifest.csv.
+ * Originals are fetched one at a time as the client reads the stream.
+ */
+export function createExportStream(
+  supabase: SupabaseClient,
+  assets: Asset[],
+  tagsByAsset: Map<string, Tag[]>,
+): ReadableStream<Uint8Array> {
+  const manifest: ManifestEntry[] = []
+  let zip: Zip
+  let index = 0
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error)
+          return
+        }
+        controller.enqueue(chunk)
+        if (final) {
+          controller.close()
+        }
+      })
+    },
+    async pull() {
+      if (index < assets.length) {
+        const asset = assets[index]
+        index++
+        const path = exportPath(asset)
+        const added = await addOriginal(zip, supabase, asset, path)
+        manifest.push(
+          toManifestEntry(
+            asset,
+            tagsByAsset.get(asset.id) || [],
+            added ? path : null,
+          ),
+        )
+        return
+      }
+
+      addTextFile(zip, 'manifest.json', JSON.stringify(manifest, null, 2))
+      addTextFile(zip, 'manifest.csv', manifestToCsv(manifest))
+      zip.end()
+    },
+    cancel() {
+      zip.terminate()
+    },
+  })
+}
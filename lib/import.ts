@@ -0,0 +1,538 @@
+import { createHash } from 'node:crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { and, eq, inArray } from 'drizzle-orm'
+import { strFromU8 } from 'fflate'
+import { db } from '@/db'
+import { assets, assetTags } from '@/db/schema/assets'
+import { type ImportRowResult, imports } from '@/db/schema/imports'
+import { DEFAULT_SOURCES, detectSourceFromUrl } from '@/db/schema/sources'
+import { tags } from '@/db/schema/tags'
+import { findDuplicateAsset } from '@/lib/duplicates'
+import { enqueueJob } from '@/lib/jobs'
+import { generateImagePreview } from '@/lib/previews'
+import { refreshAssetSearchVectors } from '@/lib/search'
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  ASSETS_BUCKET,
+  generateAssetPath,
+  PREVIEWS_BUCKET,
+} from '@/lib/supabase/storage'
+import { readZip } from '@/lib/zip-reader'
+
+/**
+ * Library import from a ZIP archive with a manifest (server-side)
+ *
+ * The manifest is manifest.json / manifest.csv (as written by the export),
+ * or any single CSV/JSON file in the archive. Without a manifest every media
+ * file in the archive is imported.
+ */
+
+// The job holds the whole archive in memory, plus one inflated entry at a time
+export const MAX_IMPORT_SIZE_MB = 250
+export const MAX_IMPORT_SIZE = MAX_IMPORT_SIZE_MB * 1024 * 1024
+
+// Persist progress every few rows rather than after each one
+const PROGRESS_INTERVAL = 10
+
+const CSV_DELIMITER_REGEX = /[;,|]/
+const COLUMN_NAME_REGEX = /[^a-z0-9]/g
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  avi: 'video/x-msvideo',
+  mkv: 'video/x-matroska',
+}
+
+export interface ImportRow {
+  file: string
+  sourcePlatform?: string
+  captureUrl?: string
+  pageTitle?: string
+  tags: string[]
+  notes?: string
+}
+
+// Accepted column names for each field (lowercase, alphanumerics only)
+const COLUMN_ALIASES: Record<keyof ImportRow, string[]> = {
+  file: ['file', 'filename', 'path', 'originalfilename'],
+  sourcePlatform: ['sourceplatform', 'source', 'platform'],
+  captureUrl: ['captureurl', 'url', 'sourceurl', 'link'],
+  pageTitle: ['pagetitle', 'title'],
+  tags: ['tags', 'tag'],
+  notes: ['notes', 'note', 'description'],
+}
+
+function extensionOf(filename: string): string {
+  return filename.split('.').pop()?.toLowerCase() || ''
+}
+
+function basename(path: string): string {
+  return path.split('/').pop() || path
+}
+
+// Read a quoted CSV field starting after its opening quote.
+// Returns the unescaped value and the index of the closing quote.
+function readQuotedField(text: string, start: number): [string, number] {
+  let value = ''
+  let i = start
+  while (i < text.length) {
+    if (text[i] === '"' && text[i + 1] === '"') {
+      value += '"'
+      i += 2
+    } else if (text[i] === '"') {
+      break
+    } else {
+      value += text[i]
+      i++
+    }
+  }
+  return [value, i]
+}
+
+/**
+ * Parse CSV text into rows of fields (RFC 4180 quoting)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (char === '"') {
+      const [quoted, end] = readQuotedField(text, i + 1)
+      field += quoted
+      i = end
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''))
+}
+
+function toImportRow(record: Record<string, unknown>): ImportRow | null {
+  const normalized = new Map(
+    Object.entries(record).map(([key, value]) => [
+      key.toLowerCase().replace(COLUMN_NAME_REGEX, ''),
+      value,
+    ]),
+  )
+  const pick = (field: keyof ImportRow) => {
+    for (const alias of COLUMN_ALIASES[field]) {
+      const value = normalized.get(alias)
+      if (value !== undefined && value !== null && value !== '') {
+        return value
+      }
+    }
+    return undefined
+  }
+  const text = (field: keyof ImportRow) => {
+    const value = pick(field)
+    return value === undefined ? undefined : String(value).trim()
+  }
+
+  const file = text('file')
+  if (!file) {
+    return null
+  }
+
+  const tagValue = pick('tags')
+  const tagNames = Array.isArray(tagValue)
+    ? tagValue.map(String)
+    : String(tagValue ?? '').split(CSV_DELIMITER_REGEX)
+
+  return {
+    file,
+    sourcePlatform: text('sourcePlatform')?.toLowerCase(),
+    captureUrl: text('captureUrl'),
+    pageTitle: text('pageTitle'),
+    tags: [...new Set(tagNames.map((t) => t.trim()).filter(Boolean))],
+    notes: text('notes'),
+  }
+}
+
+/**
+ * Parse a manifest file (JSON array of objects, or CSV with a header row)
+ */
+export function parseManifest(filename: string, content: string): ImportRow[] {
+  let records: Record<string, unknown>[]
+
+  if (extensionOf(filename) === 'json') {
+    const parsed = JSON.parse(content)
+    if (!Array.isArray(parsed)) {
+      throw new Error('manifest.json must contain an array of rows')
+    }
+    records = parsed
+  } else {
+    // Spreadsheet apps often prefix CSV exports with a byte order mark
+    const csv = content.startsWith('\uFEFF') ? content.slice(1) : content
+    const [header, ...rows] = parseCsv(csv)
+    if (!header) {
+      throw new Error('Manifest CSV is empty')
+    }
+    records = rows.map((values) =>
+      Object.fromEntries(header.map((column, i) => [column, values[i] ?? ''])),
+    )
+  }
+
+  return records.flatMap((record) => toImportRow(record) ?? [])
+}
+
+// Find the manifest among the archive's entries
+function findManifest(entryNames: string[]): string | null {
+  const files = entryNames.filter(
+    (name) => !(name.endsWith('/') || name.startsWith('__MACOSX/')),
+  )
+  for (const preferred of ['manifest.json', 'manifest.csv']) {
+    const match = files.find((name) => basename(name) === preferred)
+    if (match) {
+      return match
+    }
+  }
+  const candidates = files.filter((name) =>
+    ['csv', 'json'].includes(extensionOf(name)),
+  )
+  return candidates.length === 1 ? candidates[0] : null
+}
+
+async function ensureTags(ownerId: string, names: string[]) {
+  const tagIdsByName = new Map<string, string>()
+  if (names.length === 0) {
+    return tagIdsByName
+  }
+
+  await db
+    .insert(tags)
+    .values(names.map((name) => ({ ownerId, name })))
+    .onConflictDoNothing()
+
+  const rows = await db
+    .select({ id: tags.id, name: tags.name })
+    .from(tags)
+    .where(and(eq(tags.ownerId, ownerId), inArray(tags.name, names)))
+  for (const row of rows) {
+    tagIdsByName.set(row.name, row.id)
+  }
+  return tagIdsByName
+}
+
+function resolveSourcePlatform(row: ImportRow): string {
+  if (
+    row.sourcePlatform &&
+    DEFAULT_SOURCES.some((source) => source.key === row.sourcePlatform)
+  ) {
+    return row.sourcePlatform
+  }
+  return row.captureUrl ? detectSourceFromUrl(row.captureUrl) : 'other'
+}
+
+async function uploadBuffer(
+  supabase: SupabaseClient,
+  bucket: string,
+  path: string,
+  data: Uint8Array,
+  contentType: string,
+) {
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, data, { contentType })
+  if (error) {
+    throw new Error(`Failed to upload file: ${error.message}`)
+  }
+}
+
+interface ImportContext {
+  ownerId: string
+  supabase: SupabaseClient
+  tagIdsByName: Map<string, string>
+}
+
+async function importRow(
+  context: ImportContext,
+  row: ImportRow,
+  data: Uint8Array,
+): Promise<Omit<ImportRowResult, 'row' | 'file'>> {
+  const { ownerId, supabase, tagIdsByName } = context
+  const filename = basename(row.file)
+  const mimeType = MIME_TYPES[extensionOf(filename)]
+  if (!mimeType) {
+    return { status: 'failed', error: 'Unsupported file type' }
+  }
+
+  const sha256 = createHash('sha256').update(data).digest('hex')
+  const existing = await findDuplicateAsset(ownerId, sha256)
+  if (existing) {
+    return { status: 'duplicate', assetId: existing.id }
+  }
+
+  const storagePath = generateAssetPath(ownerId, filename)
+  await uploadBuffer(supabase, ASSETS_BUCKET, storagePath, data, mimeType)
+
+  // Image previews are best-effort here
+  let preview: Awaited<ReturnType<typeof generateImagePreview>> | null = null
+  let previewPath: string | null = null
+  if (mimeType.startsWith('image/')) {
+    try {
+      preview = await generateImagePreview(Buffer.from(data))
+      previewPath = generateAssetPath(
+        ownerId,
+        `preview-${filename}.webp`,
+        'previews',
+      )
+      await uploadBuffer(
+        supabase,
+        PREVIEWS_BUCKET,
+        previewPath,
+        preview.preview,
+        'image/webp',
+      )
+    } catch (error) {
+      console.warn(`Failed to generate preview for ${row.file}:`, error)
+      preview = null
+      previewPath = null
+    }
+  }
+
+  const [asset] = await db
+    .insert(assets)
+    .values({
+      ownerId,
+      status: 'ready',
+      captureMethod: 'archive_import',
+      sourcePlatform: resolveSourcePlatform(row),
+      captureUrl: row.captureUrl || null,
+      pageTitle: row.pageTitle || null,
+      originalFilename: filename,
+      mimeType,
+      sizeBytes: data.byteLength,
+      width: preview?.width ?? null,
+      height: preview?.height ?? null,
+      storageBucket: ASSETS_BUCKET,
+      storagePath,
+      previewBucket: previewPath ? PREVIEWS_BUCKET : null,
+      previewPath,
+      sha256,
+      phash: preview?.phash ?? null,
+      notes: row.notes || null,
+    })
+    .returning()
+
+  const tagIds = row.tags.flatMap((name) => tagIdsByName.get(name) ?? [])
+  if (tagIds.length > 0) {
+    await db
+      .insert(assetTags)
+      .values(tagIds.map((tagId) => ({ assetId: asset.id, tagId })))
+  }
+  await refreshAssetSearchVectors([asset.id])
+
+  // Videos, and images whose preview failed, get them from processing
+  if (!previewPath) {
+    await enqueueJob('process_asset', { ownerId, assetId: asset.id })
+  }
+
+  return { status: 'imported', assetId: asset.id }
+}
+
+function updateImport(id: string, data: Partial<typeof imports.$inferInsert>) {
+  return db
+    .update(imports)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(imports.id, id))
+}
+
+interface Archive {
+  rows: ImportRow[]
+  readFile: (path: string) => Uint8Array | undefined
+}
+
+// Read the manifest rows from an archive, with lazy access to its files
+function openArchive(archive: Uint8Array): Archive {
+  const zip = readZip(archive)
+  const entryNames = zip.names
+  const readEntry = zip.read
+
+  const manifestName = findManifest(entryNames)
+  const rows: ImportRow[] = manifestName
+    ? parseManifest(manifestName, strFromU8(readEntry(manifestName)))
+    : entryNames
+        .filter((name) => MIME_TYPES[extensionOf(name)])
+        .map((name) => ({ file: name, tags: [] }))
+
+  // Manifest paths may omit the archive's top-level folder
+  const entriesByName = new Map<string, string>()
+  for (const name of entryNames) {
+    entriesByName.set(name, name)
+    if (!entriesByName.has(basename(name))) {
+      entriesByName.set(basename(name), name)
+    }
+  }
+
+  return {
+    rows,
+    readFile: (path) => {
+      const entryName =
+        entriesByName.get(path) ?? entriesByName.get(basename(path))
+      return entryName ? readEntry(entryName) : undefined
+    },
+  }
+}
+
+async function processRow(
+  context: ImportContext,
+  archive: Archive,
+  row: ImportRow,
+): Promise<Omit<ImportRowResult, 'row' | 'file'>> {
+  const data = archive.readFile(row.file)
+  if (!data) {
+    return { status: 'failed', error: 'File not found in archive' }
+  }
+
+  try {
+    return await importRow(context, row, data)
+  } catch (error) {
+    return {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Import failed',
+    }
+  }
+}
+
+/**
+ * Process a queued import: read the archive from storage, create missing
+ * tags and import each manifest row, recording a per-row report.
+ *
+ * An import left 'processing' by a crashed or failed attempt is resumed,
+ * skipping rows already in its report. Rows done after the last saved
+ * progress run again and come out as duplicates of the assets they created.
+ * Errors are rethrown so the job is retried; failImport() records the final
+ * failure.
+ */
+export async function processImport(importId: string) {
+  const [job] = await db
+    .update(imports)
+    .set({ status: 'processing', updatedAt: new Date() })
+    .where(
+      and(
+        eq(imports.id, importId),
+        inArray(imports.status, ['queued', 'processing']),
+      ),
+    )
+    .returning()
+
+  // Already finished or not uploaded yet
+  if (!job) {
+    return
+  }
+
+  const supabase = createAdminClient()
+
+  // The size limit at creation was only checked against the client's word
+  const { data: stored } = await supabase.storage
+    .from(job.storageBucket)
+    .info(job.storagePath)
+  if ((stored?.size ?? 0) > MAX_IMPORT_SIZE) {
+    await failImport(importId, `Archive is larger than ${MAX_IMPORT_SIZE_MB}MB`)
+    return
+  }
+
+  const { data: blob, error } = await supabase.storage
+    .from(job.storageBucket)
+    .download(job.storagePath)
+  if (error || !blob) {
+    throw new Error(`Failed to download archive: ${error?.message}`)
+  }
+
+  const archive = openArchive(new Uint8Array(await blob.arrayBuffer()))
+  const { rows } = archive
+  if (rows.length === 0) {
+    throw new Error('No files to import were found in the archive')
+  }
+
+  await updateImport(importId, { totalRows: rows.length })
+
+  const context: ImportContext = {
+    ownerId: job.ownerId,
+    supabase,
+    tagIdsByName: await ensureTags(job.ownerId, [
+      ...new Set(rows.flatMap((row) => row.tags)),
+    ]),
+  }
+
+  const report: ImportRowResult[] = [...job.report]
+  for (const [index, row] of rows.entries()) {
+    if (index < report.length) {
+      continue
+    }
+    const result = await processRow(context, archive, row)
+    report.push({ row: index + 1, file: row.file, ...result })
+
+    if (report.length % PROGRESS_INTERVAL === 0) {
+      await updateImport(importId, { processedRows: report.length, report })
+    }
+  }
+
+  await updateImport(importId, {
+    status: 'completed',
+    processedRows: report.length,
+    report,
+    completedAt: new Date(),
+  })
+
+  // The archive is no longer needed once processed
+  await supabase.storage.from(job.storageBucket).remove([job.storagePath])
+}
+
+/**
+ * Mark an import failed once its job has run out of attempts,
+ * and remove its archive
+ */
+export async function failImport(importId: string, message: string) {
+  const [job] = await db
+    .update(imports)
+    .set({
+      status: 'failed',
+      error: message,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(imports.id, importId),
+        inArray(imports.status, ['queued', 'processing']),
+      ),
+    )
+    .returning()
+
+  if (job) {
+    await createAdminClient()
+      .storage.from(job.storageBucket)
+      .remove([job.storagePath])
+  }
+}
@@ -0,0 +1,271 @@
+import { and, asc, eq, inArray, lt, lte, or, sql } from 'drizzle-orm'
+import { db } from '@/db'
+import { type Job, type JobType, jobs } from '@/db/schema/jobs'
+import { failImport, processImport } from '@/lib/import'
+import { processAsset } from '@/lib/processing'
+
+/**
+ * Postgres-backed background job queue (server-side)
+ *
+ * Routes enqueue jobs and kick the runner with after(); a scheduled call to
+ * /api/jobs/run picks up retries and anything a crashed runner left behind.
+ * Rows are claimed with FOR UPDATE SKIP LOCKED so concurrent runners never
+ * run the same job.
+ */
+
+// Retry delay doubles per attempt: 30s, 1m, 2m, 4m... capped at 1h
+const BACKOFF_BASE_MS = 30 * 1000
+const BACKOFF_MAX_MS = 60 * 60 * 1000
+
+// A running job not finished within this window is assumed crashed
+const LOCK_TIMEOUT_MS = 15 * 60 * 1000
+
+const DEFAULT_BATCH_SIZE = 10
+
+const JOB_HANDLERS: Record<JobType, (job: Job) => Promise<void>> = {
+  process_asset: async (job) => {
+    if (!job.assetId) {
+      throw new Error('Missing assetId')
+    }
+    await processAsset(job.assetId)
+  },
+  process_import: async (job) => {
+    if (!job.payload?.importId) {
+      throw new Error('Missing importId')
+    }
+    await processImport(job.payload.importId)
+  },
+}
+
+// Cleanup once a job has run out of attempts
+const DEAD_JOB_HANDLERS: Partial<
+  Record<JobType, (job: Job, error: string) => Promise<void>>
+> = {
+  process_import: async (job, error) => {
+    if (job.payload?.importId) {
+      await failImport(job.payload.importId, error)
+    }
+  },
+}
+
+interface EnqueueOptions {
+  ownerId: string
+  assetId?: string
+  payload?: Record<string, string>
+  runAt?: Date
+  maxAttempts?: number
+}
+
+/**
+ * Add a job to the queue.
+ * An asset has at most one queued job per type; enqueueing another returns
+ * the queued one, which reads the asset's latest state when it runs.
+ */
+export async function enqueueJob(
+  type: JobType,
+  options: EnqueueOptions,
+): Promise<Job> {
+  const { ownerId, assetId, payload, runAt, maxAttempts } = options
+  const [job] = await db
+    .insert(jobs)
+    .values({
+      type,
+      ownerId,
+      assetId: assetId ?? null,
+      payload: payload ?? null,
+      runAt: runAt ?? new Date(),
+      maxAttempts,
+    })
+    .onConflictDoNothing()
+    .returning()
+  if (job || !assetId) {
+    return job
+  }
+
+  // Claimed in the meantime: queue a fresh one
+  return (
+    (await findQueuedJob(type, assetId)) ?? (await enqueueJob(type, options))
+  )
+}
+
+async function findQueuedJob(
+  type: JobType,
+  assetId: string,
+): Promise<Job | undefined> {
+  const [queued] = await db
+    .select()
+    .from(jobs)
+    .where(
+      and(
+        eq(jobs.type, type),
+        eq(jobs.assetId, assetId),
+        eq(jobs.status, 'queued'),
+      ),
+    )
+  return queued
+}
+
+export function backoffDelay(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS)
+}
+
+/**
+ * Claim up to `limit` due jobs, including ones whose runner died mid-job
+ */
+export async function claimJobs(limit: number): Promise<Job[]> {
+  const now = new Date()
+  const staleBefore = new Date(now.getTime() - LOCK_TIMEOUT_MS)
+
+  const due = db
+    .select({ id: jobs.id })
+    .from(jobs)
+    .where(
+      or(
+        and(eq(jobs.status, 'queued'), lte(jobs.runAt, now)),
+        and(eq(jobs.status, 'running'), lt(jobs.lockedAt, staleBefore)),
+      ),
+    )
+    .orderBy(asc(jobs.runAt))
+    .limit(limit)
+    .for('update', { skipLocked: true })
+
+  return await db
+    .update(jobs)
+    .set({
+      status: 'running',
+      attempts: sql`${jobs.attempts} + 1`,
+      lockedAt: now,
+      updatedAt: now,
+    })
+    .where(inArray(jobs.id, due))
+    .returning()
+}
+
+export type JobOutcome = 'completed' | 'retried' | 'dead'
+
+async function failJob(job: Job, error: unknown): Promise<JobOutcome> {
+  const message = error instanceof Error ? error.message : String(error)
+  const exhausted = job.attempts >= job.maxAttempts
+  const now = new Date()
+
+  await db
+    .update(jobs)
+    .set(
+      exhausted
+        ? { status: 'dead', lastError: message, lockedAt: null, updatedAt: now }
+        : {
+            status: 'queued',
+            lastError: message,
+            lockedAt: null,
+            runAt: new Date(now.getTime() + backoffDelay(job.attempts)),
+            updatedAt: now,
+          },
+    )
+    .where(eq(jobs.id, job.id))
+
+  if (exhausted) {
+    try {
+      await DEAD_JOB_HANDLERS[job.type]?.(job, message)
+    } catch (cleanupError) {
+      console.error(`Job ${job.id} dead-letter cleanup failed:`, cleanupError)
+    }
+  }
+
+  return exhausted ? 'dead' : 'retried'
+}
+
+/**
+ * Run a claimed job, then complete it or schedule a retry
+ */
+export async function runJob(job: Job): Promise<JobOutcome> {
+  // Reclaimed after a crash with no attempts left
+  if (job.attempts > job.maxAttempts) {
+    return await failJob(job, new Error('Job timed out'))
+  }
+
+  try {
+    await JOB_HANDLERS[job.type](job)
+  } catch (error) {
+    console.error(`Job ${job.id} (${job.type}) failed:`, error)
+    return await failJob(job, error)
+  }
+
+  const now = new Date()
+  await db
+    .update(jobs)
+    .set({
+      status: 'completed',
+      lockedAt: null,
+      completedAt: now,
+      updatedAt: now,
+    })
+    .where(eq(jobs.id, job.id))
+  return 'completed'
+}
+
+/**
+ * Claim and run one batch of due jobs, one at a time
+ */
+export async function runJobs(limit = DEFAULT_BATCH_SIZE) {
+  const claimed = await claimJobs(limit)
+  const results: Record<JobOutcome, number> = {
+    completed: 0,
+    retried: 0,
+    dead: 0,
+  }
+
+  for (const job of claimed) {
+    const outcome = await runJob(job)
+    results[outcome]++
+  }
+
+  return { claimed: claimed.length, ...results }
+}
+
+/**
+ * Move a dead or waiting job back to the front of the queue.
+ * A dead job whose asset has been queued for the same work since is retried
+ * through the queued job, as only one can be queued at a time.
+ */
+export async function retryJob(
+  jobId: string,
+  ownerId: string,
+): Promise<Job | null> {
+  const [job] = await db
+    .select()
+    .from(jobs)
+    .where(
+      and(
+        eq(jobs.id, jobId),
+        eq(jobs.ownerId, ownerId),
+        inArray(jobs.status, ['queued', 'dead']),
+      ),
+    )
+  if (!job) {
+    return null
+  }
+
+  const queued =
+    job.status === 'dead' && job.assetId
+      ? await findQueuedJob(job.type, job.assetId)
+      : undefined
+
+  const now = new Date()
+  const [retried] = await db
+    .update(jobs)
+    .set({
+      status: 'queued',
+      attempts: 0,
+      runAt: now,
+      lastError: null,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(jobs.id, queued?.id ?? job.id),
+        inArray(jobs.status, ['queued', 'dead']),
+      ),
+    )
+    .returning()
+  return retried ?? null
+}
@@ -0,0 +1,260 @@
+/**
+ * Container-level video metadata (server-side)
+ *
+ * Reads dimensions and duration straight from the container headers, like
+ * ffprobe would, without decoding any frames. Supports ISO BMFF (MP4, MOV,
+ * M4V) and Matroska (WebM, MKV).
+ */
+
+export interface MediaInfo {
+  width: number | null
+  height: number | null
+  durationSeconds: number | null
+}
+
+const UINT32 = 2 ** 32
+
+// ISO BMFF boxes that contain the boxes we need
+const BMFF_CONTAINERS = new Set(['moov', 'trak'])
+
+// Old QuickTime files may start without an ftyp box
+const BMFF_FIRST_BOXES = new Set(['ftyp', 'moov', 'wide', 'free', 'mdat'])
+
+// Matroska element IDs
+const EBML_SEGMENT = 0x18_53_80_67
+const EBML_INFO = 0x15_49_a9_66
+const EBML_TIMESTAMP_SCALE = 0x2a_d7_b1
+const EBML_DURATION = 0x44_89
+const EBML_TRACKS = 0x16_54_ae_6b
+const EBML_TRACK_ENTRY = 0xae
+const EBML_VIDEO = 0xe0
+const EBML_PIXEL_WIDTH = 0xb0
+const EBML_PIXEL_HEIGHT = 0xba
+const EBML_CLUSTER = 0x1f_43_b6_75
+
+const EBML_MASTERS = new Set([
+  EBML_SEGMENT,
+  EBML_INFO,
+  EBML_TRACKS,
+  EBML_TRACK_ENTRY,
+  EBML_VIDEO,
+])
+
+function readUint(view: DataView, offset: number, length: number): number {
+  let value = 0
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + view.getUint8(offset + i)
+  }
+  return value
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset) * UINT32 + view.getUint32(offset + 4)
+}
+
+// ISO BMFF (MP4 / MOV)
+
+function readBmffBoxType(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  )
+}
+
+// Movie header: overall duration
+function parseMvhd(view: DataView, offset: number, info: MediaInfo) {
+  const version = view.getUint8(offset)
+  const timescale =
+    version === 1 ? view.getUint32(offset + 20) : view.getUint32(offset + 12)
+  const duration =
+    version === 1 ? readUint64(view, offset + 24) : view.getUint32(offset + 16)
+  if (timescale > 0 && duration > 0) {
+    info.durationSeconds = duration / timescale
+  }
+}
+
+// Track header: presentation size of the first visual track
+function parseTkhd(view: DataView, offset: number, info: MediaInfo) {
+  if (info.width) {
+    return
+  }
+  const version = view.getUint8(offset)
+  const matrixOffset = offset + 4 + (version === 1 ? 32 : 20) + 16
+  const sizeOffset = matrixOffset + 36
+  // Width and height are 16.16 fixed point
+  const width = Math.round(view.getUint32(sizeOffset) / 65_536)
+  const height = Math.round(view.getUint32(sizeOffset + 4) / 65_536)
+  if (!(width && height)) {
+    return
+  }
+
+  // Portrait phone videos are stored landscape with a 90° rotation matrix
+  const a = view.getInt32(matrixOffset)
+  const b = view.getInt32(matrixOffset + 4)
+  const rotated = a === 0 && Math.abs(b) === 65_536
+  info.width = rotated ? height : width
+  info.height = rotated ? width : height
+}
+
+function walkBmff(view: DataView, start: number, end: number, info: MediaInfo) {
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset)
+    const type = readBmffBoxType(view, offset + 4)
+    let headerSize = 8
+    if (size === 1) {
+      size = readUint64(view, offset + 8)
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < headerSize || offset + size > end) {
+      return
+    }
+
+    const body = offset + headerSize
+    if (BMFF_CONTAINERS.has(type)) {
+      walkBmff(view, body, offset + size, info)
+    } else if (type === 'mvhd') {
+      parseMvhd(view, body, info)
+    } else if (type === 'tkhd') {
+      parseTkhd(view, body, info)
+    }
+    offset += size
+  }
+}
+
+// Matroska (WebM / MKV)
+
+// Length of a variable-size integer, from the position of its marker bit
+function vintLength(firstByte: number): number {
+  for (let length = 1; length <= 8; length++) {
+    if (firstByte >= 2 ** (8 - length)) {
+      return length
+    }
+  }
+  return 0
+}
+
+interface EbmlElement {
+  id: number
+  size: number | null // null for "unknown size" (live-recorded WebM)
+  dataOffset: number
+}
+
+function readEbmlElement(view: DataView, offset: number): EbmlElement | null {
+  const idLength = vintLength(view.getUint8(offset))
+  if (!idLength || offset + idLength >= view.byteLength) {
+    return null
+  }
+  const id = readUint(view, offset, idLength)
+
+  const sizeOffset = offset + idLength
+  const sizeLength = vintLength(view.getUint8(sizeOffset))
+  if (!sizeLength || sizeOffset + sizeLength > view.byteLength) {
+    return null
+  }
+  // Strip the marker bit from the size
+  const raw = readUint(view, sizeOffset, sizeLength)
+  const marker = 2 ** (7 * sizeLength)
+  const size = raw - marker
+  return {
+    id,
+    size: size === marker - 1 ? null : size,
+    dataOffset: sizeOffset + sizeLength,
+  }
+}
+
+function readEbmlFloat(view: DataView, offset: number, size: number): number {
+  return size === 4 ? view.getFloat32(offset) : view.getFloat64(offset)
+}
+
+interface EbmlState {
+  info: MediaInfo
+  timestampScale: number
+  duration: number | null
+}
+
+function readEbmlValue(view: DataView, element: EbmlElement, state: EbmlState) {
+  const { id, dataOffset } = element
+  const size = element.size ?? 0
+  if (id === EBML_TIMESTAMP_SCALE) {
+    state.timestampScale = readUint(view, dataOffset, size)
+  } else if (id === EBML_DURATION) {
+    state.duration = readEbmlFloat(view, dataOffset, size)
+  } else if (id === EBML_PIXEL_WIDTH && !state.info.width) {
+    state.info.width = readUint(view, dataOffset, size)
+  } else if (id === EBML_PIXEL_HEIGHT && !state.info.height) {
+    state.info.height = readUint(view, dataOffset, size)
+  }
+}
+
+// Returns false once media data is reached and parsing should stop
+function walkEbml(
+  view: DataView,
+  start: number,
+  end: number,
+  state: EbmlState,
+): boolean {
+  let offset = start
+  while (offset < end) {
+    const element = readEbmlElement(view, offset)
+    if (!element || element.id === EBML_CLUSTER) {
+      return false
+    }
+    const elementEnd =
+      element.size === null
+        ? end
+        : Math.min(element.dataOffset + element.size, end)
+
+    if (EBML_MASTERS.has(element.id)) {
+      if (!walkEbml(view, element.dataOffset, elementEnd, state)) {
+        return false
+      }
+    } else if (element.size === null) {
+      return false
+    } else {
+      readEbmlValue(view, element, state)
+    }
+    offset = elementEnd
+  }
+  return true
+}
+
+/**
+ * Extract width, height and duration from a video container.
+ * Returns null for unsupported or unparseable files.
+ */
+export function parseVideoInfo(data: Uint8Array): MediaInfo | null {
+  if (data.byteLength < 12) {
+    return null
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const info: MediaInfo = { width: null, height: null, durationSeconds: null }
+
+  try {
+    if (BMFF_FIRST_BOXES.has(readBmffBoxType(view, 4))) {
+      walkBmff(view, 0, view.byteLength, info)
+    } else if (readUint(view, 0, 4) === 0x1a_45_df_a3) {
+      const state: EbmlState = {
+        info,
+        timestampScale: 1_000_000,
+        duration: null,
+      }
+      walkEbml(view, 0, view.byteLength, state)
+      if (state.duration) {
+        // Duration is in timestamp-scale units (nanoseconds each by default)
+        info.durationSeconds = (state.duration * state.timestampScale) / 1e9
+      }
+    } else {
+      return null
+    }
+  } catch (error) {
+    // Truncated or malformed headers: keep whatever was read
+    console.warn('Failed to parse video metadata:', error)
+  }
+
+  return info.width || info.height || info.durationSeconds ? info : null
+}
@@ -0,0 +1,79 @@
+/**
+ * Stable keys for media URLs (server-side)
+ *
+ * Social CDNs sign media URLs with parameters that change on every page
+ * load (Facebook/Instagram `oh`/`oe`, TikTok `x-expires`/`signature`, S3 and
+ * CloudFront signatures) and serve the same file from many edge hosts.
+ * Dropping those parts gives a key that matches the same file across visits.
+ */
+
+interface SignedCdn {
+  domains: string[]
+  keepParams: string[] // Query parameters that select a different file
+}
+
+const SIGNED_CDNS: SignedCdn[] = [
+  // `stp` picks the size/crop variant
+  { domains: ['fbcdn.net', 'cdninstagram.com'], keepParams: ['stp'] },
+  {
+    domains: [
+      'tiktokcdn.com',
+      'tiktokcdn-us.com',
+      'tiktokcdn-eu.com',
+      'ibyteimg.com',
+      'byteoversea.com',
+    ],
+    keepParams: [],
+  },
+]
+
+// Signature and expiry parameters dropped from any other URL
+const SIGNATURE_PARAMS = new Set([
+  'expires',
+  'signature',
+  'key-pair-id',
+  'policy',
+  'x-expires',
+  'x-signature',
+])
+const SIGNATURE_PARAM_PREFIX = 'x-amz-'
+
+function findSignedCdn(hostname: string) {
+  for (const cdn of SIGNED_CDNS) {
+    const domain = cdn.domains.find(
+      (d) => hostname === d || hostname.endsWith(`.${d}`),
+    )
+    if (domain) {
+      return { domain, keepParams: cdn.keepParams }
+    }
+  }
+  return null
+}
+
+/**
+ * Key identifying the file behind a media URL, ignoring signatures,
+ * expiry and which CDN edge serves it. Unparseable URLs are their own key.
+ */
+export function mediaUrlKey(url: string): string {
+  if (!URL.canParse(url)) {
+    return url
+  }
+
+  const parsed = new URL(url)
+  const cdn = findSignedCdn(parsed.hostname)
+  const params = [...parsed.searchParams]
+    .filter(([name]) => {
+      const lower = name.toLowerCase()
+      return cdn
+        ? cdn.keepParams.includes(lower)
+        : !(
+            SIGNATURE_PARAMS.has(lower) ||
+            lower.startsWith(SIGNATURE_PARAM_PREFIX)
+          )
+    })
+    .sort(([a], [b]) => a.localeCompare(b))
+
+  const query = new URLSearchParams(params).toString()
+  const host = cdn?.domain ?? parsed.host
+  return `${host}${parsed.pathname}${query ? `?${query}` : ''}`
+}
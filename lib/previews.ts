@@ -0,0 +1,103 @@
+import sharp from 'sharp'
+import { SPRITE_FRAME_HEIGHT, SPRITE_FRAME_WIDTH } from '@/lib/sprites'
+
+/**
+ * Server-side preview generation (mirrors the browser's generateImagePreview)
+ */
+
+export const PREVIEW_MAX_SIZE = 400
+
+export interface ImagePreview {
+  preview: Buffer
+  width: number
+  height: number
+  phash: string
+}
+
+/**
+ * 64-bit dHash of an image as 16 hex chars, matching calculatePerceptualHash
+ * in lib/upload.ts so browser and server hashes are comparable
+ */
+export async function calculatePerceptualHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image)
+    .resize(9, 8, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer()
+
+  const gray = (x: number, y: number) => {
+    const i = (y * 9 + x) * 3
+    return pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114
+  }
+
+  let hex = ''
+  for (let y = 0; y < 8; y++) {
+    let byte = 0
+    for (let x = 0; x < 8; x++) {
+      byte = byte * 2 + (gray(x, y) > gray(x + 1, y) ? 1 : 0)
+    }
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
+/**
+ * Generate a WebP preview of an image along with its dimensions and
+ * perceptual hash
+ */
+export async function generateImagePreview(
+  image: Buffer,
+): Promise<ImagePreview> {
+  // First frame only for animated images
+  const source = sharp(image, { animated: false }).rotate()
+  const metadata = await source.metadata()
+
+  const preview = await source
+    .clone()
+    .resize(PREVIEW_MAX_SIZE, PREVIEW_MAX_SIZE, {
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .webp({ quality: 80 })
+    .toBuffer()
+
+  return {
+    preview,
+    width: metadata.autoOrient.width,
+    height: metadata.autoOrient.height,
+    phash: await calculatePerceptualHash(preview),
+  }
+}
+
+/**
+ * Combine video frames into a horizontal WebP sprite sheet, each frame
+ * cropped to SPRITE_FRAME_WIDTH x SPRITE_FRAME_HEIGHT
+ */
+export async function generateSpriteSheet(frames: Buffer[]): Promise<Buffer> {
+  const tiles = await Promise.all(
+    frames.map((frame) =>
+      sharp(frame)
+        .resize(SPRITE_FRAME_WIDTH, SPRITE_FRAME_HEIGHT, { fit: 'cover' })
+        .png()
+        .toBuffer(),
+    ),
+  )
+
+  return await sharp({
+    create: {
+      width: SPRITE_FRAME_WIDTH * tiles.length,
+      height: SPRITE_FRAME_HEIGHT,
+      channels: 3,
+      background: '#000000',
+    },
+  })
+    .composite(
+      tiles.map((tile, i) => ({
+        input: tile,
+        left: i * SPRITE_FRAME_WIDTH,
+        top: 0,
+      })),
+    )
+    .webp({ quality: 70 })
+    .toBuffer()
+}
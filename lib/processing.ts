@@ -0,0 +1,346 @@
+import { createHash } from 'node:crypto'
+import { createWriteStream } from 'node:fs'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { eq } from 'drizzle-orm'
+import { db } from '@/db'
+import { type Asset, assets, type NewAsset } from '@/db/schema/assets'
+import { parseVideoInfo } from '@/lib/media-info'
+import {
+  generateImagePreview,
+  generateSpriteSheet,
+  type ImagePreview,
+} from '@/lib/previews'
+import { fetchRemoteMedia, type RemoteMedia } from '@/lib/remote-media'
+import { spriteFrameTimes } from '@/lib/sprites'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { generateAssetPath, PREVIEWS_BUCKET } from '@/lib/supabase/storage'
+import { extractVideoFrames } from '@/lib/video-frames'
+
+/**
+ * Server-side asset processing after finalize
+ *
+ * Fills in whatever the client could not provide: the WebP preview, video
+ * sprite sheet, width/height/duration, size, SHA-256 and perceptual hash. Columns the
+ * client already set are left untouched.
+ *
+ * The original is streamed to a temp file and hashed on the way, so even
+ * multi-GB uploads (which skip client-side hashing) get a SHA-256. Only
+ * files up to MAX_IN_MEMORY_SIZE are read into memory for image previews
+ * and container metadata; larger videos still get frames from ffmpeg when
+ * their duration is known.
+ */
+
+const MAX_IN_MEMORY_SIZE = 200 * 1024 * 1024 // 200MB
+
+const DOWNLOAD_URL_EXPIRY = 60 * 60 // seconds
+
+interface LocalOriginal {
+  path: string
+  sizeBytes: number
+  sha256: string
+}
+
+// Stream a stored original into `path`, hashing it on the way
+async function downloadFromStorage(
+  supabase: SupabaseClient,
+  asset: Asset,
+  path: string,
+): Promise<LocalOriginal | null> {
+  const { data, error } = await supabase.storage
+    .from(asset.storageBucket)
+    .createSignedUrl(asset.storagePath, DOWNLOAD_URL_EXPIRY)
+  if (error || !data) {
+    return null
+  }
+  const response = await fetch(data.signedUrl)
+  if (!(response.ok && response.body)) {
+    await response.body?.cancel()
+    return null
+  }
+
+  const hash = createHash('sha256')
+  let sizeBytes = 0
+  await pipeline(
+    Readable.fromWeb(response.body as NodeReadableStream),
+    async function* (source: AsyncIterable<Buffer>) {
+      for await (const chunk of source) {
+        hash.update(chunk)
+        sizeBytes += chunk.byteLength
+        yield chunk
+      }
+    },
+    createWriteStream(path),
+  )
+  return { path, sizeBytes, sha256: hash.digest('hex') }
+}
+
+/**
+ * Download a URL-only capture's media into the asset's storage path, so it
+ * survives the source URL (often a signed CDN link) expiring.
+ * Throws RemoteMediaError when the URL can't be fetched.
+ */
+export async function storeRemoteOriginal(
+  supabase: SupabaseClient,
+  asset: Asset & { mediaUrl: string },
+): Promise<RemoteMedia> {
+  const media = await fetchRemoteMedia(asset.mediaUrl)
+  const { error } = await supabase.storage
+    .from(asset.storageBucket)
+    .upload(asset.storagePath, media.data, {
+      contentType: media.mimeType,
+      upsert: true,
+    })
+  if (error) {
+    throw new Error(`Failed to store original: ${error.message}`)
+  }
+  return media
+}
+
+async function loadOriginal(
+  supabase: SupabaseClient,
+  asset: Asset,
+  path: string,
+): Promise<LocalOriginal | null> {
+  const stored = await downloadFromStorage(supabase, asset, path)
+  if (stored) {
+    return stored
+  }
+  // URL-only extension captures have no stored original, only the media URL
+  const { mediaUrl } = asset
+  if (!mediaUrl) {
+    return null
+  }
+  const { data } = await storeRemoteOriginal(supabase, { ...asset, mediaUrl })
+  await writeFile(path, data)
+  return {
+    path,
+    sizeBytes: data.byteLength,
+    sha256: createHash('sha256').update(data).digest('hex'),
+  }
+}
+
+// The original's bytes, or null when it's too large to hold in memory
+async function readSmallOriginal(
+  original: LocalOriginal,
+): Promise<Buffer | null> {
+  if (original.sizeBytes > MAX_IN_MEMORY_SIZE) {
+    return null
+  }
+  return await readFile(original.path)
+}
+
+async function fileExists(
+  supabase: SupabaseClient,
+  bucket: string | null,
+  path: string | null,
+): Promise<boolean> {
+  if (!(bucket && path)) {
+    return false
+  }
+  const { data } = await supabase.storage.from(bucket).exists(path)
+  return data
+}
+
+async function uploadPreviewFile(
+  supabase: SupabaseClient,
+  bucket: string,
+  path: string,
+  data: Buffer,
+) {
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, data, { contentType: 'image/webp', upsert: true })
+  if (error) {
+    throw new Error(`Failed to upload preview: ${error.message}`)
+  }
+}
+
+// Upload a generated preview to the asset's preview path (or a new one)
+async function storePreview(
+  supabase: SupabaseClient,
+  asset: Asset,
+  preview: ImagePreview,
+): Promise<Partial<NewAsset>> {
+  const previewBucket = asset.previewBucket ?? PREVIEWS_BUCKET
+  const previewPath =
+    asset.previewPath ??
+    generateAssetPath(
+      asset.ownerId,
+      `preview-${asset.originalFilename}`,
+      'previews',
+    )
+  await uploadPreviewFile(supabase, previewBucket, previewPath, preview.preview)
+  return { previewBucket, previewPath }
+}
+
+async function processImage(
+  supabase: SupabaseClient,
+  asset: Asset,
+  original: LocalOriginal,
+  hasPreview: boolean,
+): Promise<Partial<NewAsset>> {
+  if (hasPreview && asset.width && asset.height && asset.phash) {
+    return {}
+  }
+
+  const data = await readSmallOriginal(original)
+  if (!data) {
+    console.warn(`Skipping preview for oversized image ${asset.id}`)
+    return {}
+  }
+  const preview = await generateImagePreview(data)
+  return {
+    width: asset.width ?? preview.width,
+    height: asset.height ?? preview.height,
+    phash: asset.phash ?? preview.phash,
+    ...(hasPreview ? {} : await storePreview(supabase, asset, preview)),
+  }
+}
+
+// Preview frame and sprite sheet from decoded frames, for whichever is missing
+async function generateVideoImages(
+  supabase: SupabaseClient,
+  asset: Asset,
+  frames: Buffer[],
+  { hasPreview, hasSprite }: { hasPreview: boolean; hasSprite: boolean },
+): Promise<Partial<NewAsset>> {
+  const updates: Partial<NewAsset> = {}
+
+  if (!hasPreview) {
+    // Roughly where the client grabs its poster frame (25% in)
+    const preview = await generateImagePreview(
+      frames[Math.floor(frames.length / 4)],
+    )
+    Object.assign(updates, await storePreview(supabase, asset, preview), {
+      phash: asset.phash ?? preview.phash,
+    })
+  }
+
+  if (!hasSprite) {
+    const spritePath =
+      asset.spritePath ??
+      generateAssetPath(
+        asset.ownerId,
+        `sprite-${asset.originalFilename}.webp`,
+        'previews',
+      )
+    await uploadPreviewFile(
+      supabase,
+      PREVIEWS_BUCKET,
+      spritePath,
+      await generateSpriteSheet(frames),
+    )
+    updates.spritePath = spritePath
+    updates.spriteFrames = frames.length
+  }
+
+  return updates
+}
+
+async function processVideo(
+  supabase: SupabaseClient,
+  asset: Asset,
+  original: LocalOriginal,
+  hasPreview: boolean,
+): Promise<Partial<NewAsset>> {
+  const updates: Partial<NewAsset> = {}
+
+  const data = await readSmallOriginal(original)
+  const info = data ? parseVideoInfo(data) : null
+  if (info) {
+    updates.width = asset.width ?? info.width
+    updates.height = asset.height ?? info.height
+    updates.durationSeconds =
+      asset.durationSeconds ?? info.durationSeconds?.toString() ?? null
+  }
+
+  const hasSprite =
+    !!asset.spriteFrames &&
+    (await fileExists(supabase, PREVIEWS_BUCKET, asset.spritePath))
+  const duration = Number(updates.durationSeconds ?? asset.durationSeconds)
+
+  if (!(hasPreview && hasSprite) && duration > 0) {
+    const frames = await extractVideoFrames(
+      original.path,
+      spriteFrameTimes(duration),
+    )
+    if (frames && frames.length > 0) {
+      Object.assign(
+        updates,
+        await generateVideoImages(supabase, asset, frames, {
+          hasPreview,
+          hasSprite,
+        }),
+      )
+    }
+  }
+
+  // Without ffmpeg, drop paths that point at nothing so clients fall back
+  // to their placeholder
+  if (!(hasPreview || updates.previewPath) && asset.previewPath) {
+    updates.previewBucket = null
+    updates.previewPath = null
+  }
+  if (!(hasSprite || updates.spritePath) && asset.spritePath) {
+    updates.spritePath = null
+    updates.spriteFrames = null
+  }
+
+  return updates
+}
+
+/**
+ * Generate missing previews and metadata for a ready asset.
+ * Throws on failure so the job queue can retry.
+ */
+export async function processAsset(assetId: string) {
+  const [asset] = await db.select().from(assets).where(eq(assets.id, assetId))
+  // Deleted, or not finalized yet
+  if (asset?.status !== 'ready') {
+    return
+  }
+
+  const supabase = createAdminClient()
+  const dir = await mkdtemp(join(tmpdir(), 'adstash-original-'))
+  try {
+    const original = await loadOriginal(supabase, asset, join(dir, 'original'))
+    if (!original) {
+      throw new Error('Original file could not be downloaded')
+    }
+
+    const hasPreview = await fileExists(
+      supabase,
+      asset.previewBucket,
+      asset.previewPath,
+    )
+    const updates: Partial<NewAsset> = {
+      sizeBytes: asset.sizeBytes ?? original.sizeBytes,
+      sha256: asset.sha256 ?? original.sha256,
+    }
+
+    if (asset.mimeType.startsWith('image/')) {
+      Object.assign(
+        updates,
+        await processImage(supabase, asset, original, hasPreview),
+      )
+    } else if (asset.mimeType.startsWith('video/')) {
+      Object.assign(
+        updates,
+        await processVideo(supabase, asset, original, hasPreview),
+      )
+    }
+
+    await db
+      .update(assets)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(assets.id, assetId))
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
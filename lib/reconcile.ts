@@ -0,0 +1,319 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { and, eq, inArray, isNull, lt, lte, or } from 'drizzle-orm'
+import { db } from '@/db'
+import { type Asset, assets } from '@/db/schema/assets'
+import { imports } from '@/db/schema/imports'
+import { type SweepCursor, storageSweeps } from '@/db/schema/storage-sweeps'
+import { enqueueJob } from '@/lib/jobs'
+import { RESUMABLE_UPLOAD_THRESHOLD } from '@/lib/resumable-upload'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { ASSETS_BUCKET, PREVIEWS_BUCKET } from '@/lib/supabase/storage'
+
+/**
+ * Stale upload cleanup (server-side)
+ *
+ * Uploads abandoned before finalize leave assets stuck in draft/uploading.
+ * Stuck rows whose original made it to storage are promoted to ready (the
+ * processing job fills in their metadata); the rest are marked failed and
+ * their partial files removed. Storage objects without any matching row are
+ * deleted as orphans, sweeping a limited number of listing pages per run and
+ * continuing from a persisted cursor on the next.
+ */
+
+export const DEFAULT_STALE_AFTER_HOURS = 6
+
+// Resumable uploads can be paused and picked up again for as long as
+// Supabase keeps the TUS upload (24h), so they're only failed after that
+const RESUMABLE_STALE_AFTER_HOURS = 25
+
+// Rows handled per run; the next scheduled run picks up the rest
+const STALE_BATCH_SIZE = 100
+
+// Page size when listing storage folders
+const LIST_PAGE_SIZE = 1000
+
+// Listing pages swept per bucket and run
+const SWEEP_PAGES_PER_RUN = 20
+
+export interface ReconcileOptions {
+  olderThan: Date
+  dryRun?: boolean
+}
+
+export interface ReconcileResult {
+  promoted: string[]
+  failed: string[]
+  orphans: string[] // bucket/path of each orphaned object
+}
+
+async function objectExists(
+  supabase: SupabaseClient,
+  bucket: string,
+  path: string,
+): Promise<boolean> {
+  const { data } = await supabase.storage.from(bucket).exists(path)
+  return data
+}
+
+async function removeObjects(
+  supabase: SupabaseClient,
+  bucket: string,
+  paths: string[],
+) {
+  if (paths.length === 0) {
+    return
+  }
+  const { error } = await supabase.storage.from(bucket).remove(paths)
+  if (error) {
+    console.warn(`Failed to remove objects from ${bucket}:`, error.message)
+  }
+}
+
+// Remove whatever preview files an abandoned upload managed to write
+async function removePartialFiles(supabase: SupabaseClient, asset: Asset) {
+  if (asset.previewBucket && asset.previewPath) {
+    await removeObjects(supabase, asset.previewBucket, [asset.previewPath])
+  }
+  if (asset.spritePath) {
+    await removeObjects(supabase, PREVIEWS_BUCKET, [asset.spritePath])
+  }
+}
+
+async function reconcileStaleAsset(
+  supabase: SupabaseClient,
+  asset: Asset,
+  dryRun: boolean,
+): Promise<'promoted' | 'failed'> {
+  const uploaded = await objectExists(
+    supabase,
+    asset.storageBucket,
+    asset.storagePath,
+  )
+  if (dryRun) {
+    return uploaded ? 'promoted' : 'failed'
+  }
+
+  if (uploaded) {
+    await db
+      .update(assets)
+      .set({ status: 'ready', updatedAt: new Date() })
+      .where(eq(assets.id, asset.id))
+    await enqueueJob('process_asset', {
+      ownerId: asset.ownerId,
+      assetId: asset.id,
+    })
+    return 'promoted'
+  }
+
+  await db
+    .update(assets)
+    .set({ status: 'failed', updatedAt: new Date() })
+    .where(eq(assets.id, asset.id))
+  await removePartialFiles(supabase, asset)
+  return 'failed'
+}
+
+/**
+ * Promote or fail assets stuck in draft/uploading since before `olderThan`
+ */
+export async function reconcileStaleUploads(
+  supabase: SupabaseClient,
+  { olderThan, dryRun = false }: ReconcileOptions,
+): Promise<Pick<ReconcileResult, 'promoted' | 'failed'>> {
+  const resumableOlderThan = new Date(
+    Math.min(
+      olderThan.getTime(),
+      Date.now() - RESUMABLE_STALE_AFTER_HOURS * 60 * 60 * 1000,
+    ),
+  )
+  const stale = await db
+    .select()
+    .from(assets)
+    .where(
+      and(
+        inArray(assets.status, ['draft', 'uploading']),
+        lt(assets.updatedAt, olderThan),
+        or(
+          lt(assets.updatedAt, resumableOlderThan),
+          lte(assets.sizeBytes, RESUMABLE_UPLOAD_THRESHOLD),
+          isNull(assets.sizeBytes),
+        ),
+      ),
+    )
+    .limit(STALE_BATCH_SIZE)
+
+  const result = { promoted: [] as string[], failed: [] as string[] }
+  for (const asset of stale) {
+    const outcome = await reconcileStaleAsset(supabase, asset, dryRun)
+    result[outcome].push(asset.id)
+  }
+  return result
+}
+
+// Which of the paths in a bucket are referenced by an asset or import row
+async function findReferencedPaths(
+  bucket: string,
+  paths: string[],
+): Promise<Set<string>> {
+  const [assetRows, importRows] = await Promise.all([
+    db
+      .select({
+        storagePath: assets.storagePath,
+        previewPath: assets.previewPath,
+        spritePath: assets.spritePath,
+      })
+      .from(assets)
+      .where(
+        or(
+          and(
+            eq(assets.storageBucket, bucket),
+            inArray(assets.storagePath, paths),
+          ),
+          and(
+            eq(assets.previewBucket, bucket),
+            inArray(assets.previewPath, paths),
+          ),
+          bucket === PREVIEWS_BUCKET
+            ? inArray(assets.spritePath, paths)
+            : undefined,
+        ),
+      ),
+    db
+      .select({ storagePath: imports.storagePath })
+      .from(imports)
+      .where(
+        and(
+          eq(imports.storageBucket, bucket),
+          inArray(imports.storagePath, paths),
+        ),
+      ),
+  ])
+
+  const referenced = new Set(importRows.map((row) => row.storagePath))
+  for (const row of assetRows) {
+    for (const path of [row.storagePath, row.previewPath, row.spritePath]) {
+      if (path) {
+        referenced.add(path)
+      }
+    }
+  }
+  return referenced
+}
+
+interface StorageListing {
+  files: { path: string; createdAt: Date }[]
+  folders: string[]
+  count: number // Entries on the page, files and folders
+}
+
+// One page of a folder's entries
+async function listPage(
+  supabase: SupabaseClient,
+  bucket: string,
+  folder: string,
+  offset: number,
+): Promise<StorageListing> {
+  const { data, error } = await supabase.storage
+    .from(bucket)
+    .list(folder, { limit: LIST_PAGE_SIZE, offset })
+  if (error) {
+    throw new Error(`Failed to list ${bucket}/${folder}: ${error.message}`)
+  }
+
+  const listing: StorageListing = { files: [], folders: [], count: data.length }
+  for (const entry of data) {
+    const path = folder ? `${folder}/${entry.name}` : entry.name
+    // Folders are listed without an id
+    if (entry.id) {
+      listing.files.push({ path, createdAt: new Date(entry.created_at) })
+    } else {
+      listing.folders.push(path)
+    }
+  }
+  return listing
+}
+
+async function loadSweepCursor(bucket: string): Promise<SweepCursor> {
+  const [sweep] = await db
+    .select()
+    .from(storageSweeps)
+    .where(eq(storageSweeps.bucket, bucket))
+  return sweep && sweep.cursor.folders.length > 0
+    ? sweep.cursor
+    : { folders: [''], offset: 0 }
+}
+
+async function saveSweepCursor(bucket: string, cursor: SweepCursor) {
+  await db
+    .insert(storageSweeps)
+    .values({ bucket, cursor })
+    .onConflictDoUpdate({
+      target: storageSweeps.bucket,
+      set: { cursor, updatedAt: new Date() },
+    })
+}
+
+/**
+ * Find (and unless dryRun, delete) objects older than `olderThan` that no
+ * asset or import references. Sweeps up to SWEEP_PAGES_PER_RUN listing pages
+ * from where the previous run stopped, starting over once the whole bucket
+ * has been walked. Dry runs don't move the cursor.
+ */
+export async function removeOrphanedObjects(
+  supabase: SupabaseClient,
+  bucket: string,
+  { olderThan, dryRun = false }: ReconcileOptions,
+): Promise<string[]> {
+  const orphans: string[] = []
+  const { folders, offset: startOffset } = await loadSweepCursor(bucket)
+  let offset = startOffset
+
+  for (let page = 0; page < SWEEP_PAGES_PER_RUN && folders.length > 0; page++) {
+    const listing = await listPage(supabase, bucket, folders[0], offset)
+    folders.push(...listing.folders)
+
+    // Recent objects may belong to uploads that are still in flight
+    const candidates = listing.files
+      .filter((file) => file.createdAt < olderThan)
+      .map((file) => file.path)
+    const referenced =
+      candidates.length > 0
+        ? await findReferencedPaths(bucket, candidates)
+        : new Set<string>()
+    const orphaned = candidates.filter((path) => !referenced.has(path))
+    if (!dryRun) {
+      await removeObjects(supabase, bucket, orphaned)
+    }
+    orphans.push(...orphaned.map((path) => `${bucket}/${path}`))
+
+    if (listing.count < LIST_PAGE_SIZE) {
+      folders.shift()
+      offset = 0
+    } else {
+      // Removed objects no longer take up a place in the listing
+      offset += listing.count - (dryRun ? 0 : orphaned.length)
+    }
+  }
+
+  if (!dryRun) {
+    await saveSweepCursor(bucket, { folders, offset })
+  }
+  return orphans
+}
+
+/**
+ * Reconcile stuck uploads, then sweep both buckets for orphaned objects
+ */
+export async function reconcileStorage(
+  options: ReconcileOptions,
+): Promise<ReconcileResult> {
+  const supabase = createAdminClient()
+
+  const { promoted, failed } = await reconcileStaleUploads(supabase, options)
+  const orphans: string[] = []
+  for (const bucket of [ASSETS_BUCKET, PREVIEWS_BUCKET]) {
+    orphans.push(...(await removeOrphanedObjects(supabase, bucket, options)))
+  }
+
+  return { promoted, failed, orphans }
+}
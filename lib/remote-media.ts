@@ -0,0 +1,338 @@
+import { lookup } from 'node:dns/promises'
+import { request as httpRequest, type IncomingMessage } from 'node:http'
+import { request as httpsRequest } from 'node:https'
+import { BlockList, isIP, type LookupFunction } from 'node:net'
+import { Readable } from 'node:stream'
+
+/**
+ * Downloading media from arbitrary URLs (server-side)
+ *
+ * Only public http(s) hosts are fetched, redirects are followed by hand so
+ * each hop is checked, and the body is read with a running size limit so an
+ * oversized or lying Content-Length can't exhaust memory. Requests connect
+ * to the exact address that was checked, so a second DNS answer (rebinding)
+ * can't point them somewhere else.
+ */
+
+export const MAX_REMOTE_MEDIA_SIZE = 200 * 1024 * 1024 // 200MB
+
+const FETCH_TIMEOUT_MS = 60 * 1000
+const MAX_REDIRECTS = 5
+
+// Addresses that aren't on the public internet: unspecified, loopback,
+// private, carrier-grade NAT, link-local, benchmarking, multicast, reserved
+const PRIVATE_IPV4_SUBNETS: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+]
+// Unique local, link-local, multicast and documentation ranges; IPv6 forms
+// of IPv4 addresses are unwrapped and checked against the IPv4 list instead
+const PRIVATE_IPV6_SUBNETS: [string, number][] = [
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+  ['2001:db8::', 32],
+]
+
+const PRIVATE_ADDRESSES = new BlockList()
+for (const [network, prefix] of PRIVATE_IPV4_SUBNETS) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4')
+}
+for (const [network, prefix] of PRIVATE_IPV6_SUBNETS) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+}
+
+// 64:ff9b::/96, the NAT64 well-known prefix
+const NAT64_PREFIX = [0x64, 0xff_9b, 0, 0, 0, 0]
+
+const IPV6_BRACKETS_REGEX = /^\[|\]$/g
+const IPV6_ZONE_REGEX = /%.*$/
+const IPV6_DOTTED_TAIL_REGEX = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/
+const FILENAME_REGEX = /filename\*?=(?:UTF-8'')?"?([^";]+)"?/i
+const UNSAFE_FILENAME_REGEX = /[^a-zA-Z0-9._-]/g
+
+/**
+ * A URL that can't be imported; the message is safe to show to the user
+ */
+export class RemoteMediaError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RemoteMediaError'
+  }
+}
+
+export interface RemoteMedia {
+  data: Uint8Array
+  mimeType: string
+  filename: string
+}
+
+// The eight 16-bit groups of an IPv6 address, in any textual form
+function ipv6Groups(address: string): number[] {
+  let text = address.replace(IPV6_ZONE_REGEX, '')
+  const dotted = IPV6_DOTTED_TAIL_REGEX.exec(text)
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(1).map(Number)
+    const [high, low] = [a * 256 + b, c * 256 + d]
+    text = `${text.slice(0, dotted.index)}${high.toString(16)}:${low.toString(16)}`
+  }
+
+  const [head, tail] = text.split('::')
+  const headGroups = head ? head.split(':') : []
+  const tailGroups = tail ? tail.split(':') : []
+  const zeros =
+    tail === undefined ? 0 : 8 - headGroups.length - tailGroups.length
+  return [
+    ...headGroups,
+    ...new Array<string>(zeros).fill('0'),
+    ...tailGroups,
+  ].map((group) => Number.parseInt(group, 16))
+}
+
+// The IPv4 address inside an IPv4-mapped (::ffff:a.b.c.d), IPv4-compatible
+// (::a.b.c.d) or NAT64 IPv6 address
+function embeddedIpv4(groups: number[]): string | null {
+  const prefix = groups.slice(0, 6)
+  const isMapped =
+    prefix.slice(0, 5).every((group) => group === 0) &&
+    (prefix[5] === 0 || prefix[5] === 0xff_ff)
+  const isNat64 = prefix.every((group, i) => group === NAT64_PREFIX[i])
+  if (!(isMapped || isNat64)) {
+    return null
+  }
+  const [high, low] = groups.slice(6)
+  return [high, low]
+    .flatMap((group) => [Math.floor(group / 256), group % 256])
+    .join('.')
+}
+
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    return PRIVATE_ADDRESSES.check(address, 'ipv4')
+  }
+  if (isIP(address) !== 6) {
+    return true
+  }
+
+  const ipv4 = embeddedIpv4(ipv6Groups(address))
+  return ipv4
+    ? PRIVATE_ADDRESSES.check(ipv4, 'ipv4')
+    : PRIVATE_ADDRESSES.check(address.replace(IPV6_ZONE_REGEX, ''), 'ipv6')
+}
+
+/**
+ * Check that the URL points at a public host.
+ * Returns the address the request must connect to.
+ */
+async function assertPublicUrl(url: URL): Promise<string> {
+  if (!(url.protocol === 'http:' || url.protocol === 'https:')) {
+    throw new RemoteMediaError('Only http and https URLs can be imported')
+  }
+
+  const hostname = url.hostname.replace(IPV6_BRACKETS_REGEX, '')
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookup(hostname, { all: true })
+        .then((results) => results.map((result) => result.address))
+        .catch(() => {
+          throw new RemoteMediaError(`Could not resolve ${hostname}`)
+        })
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new RemoteMediaError('URLs on private networks cannot be imported')
+  }
+  return addresses[0]
+}
+
+function toResponse(message: IncomingMessage): Response {
+  const headers = new Headers()
+  for (const [name, value] of Object.entries(message.headers)) {
+    for (const item of [value ?? []].flat()) {
+      headers.append(name, item)
+    }
+  }
+  const status = message.statusCode ?? 500
+  const hasBody = ![101, 204, 205, 304].includes(status)
+  if (!hasBody) {
+    message.resume()
+  }
+  return new Response(
+    hasBody ? (Readable.toWeb(message) as ReadableStream<Uint8Array>) : null,
+    { status, headers },
+  )
+}
+
+// GET the URL over a connection to `address`, skipping a second DNS lookup
+function requestPinned(
+  url: URL,
+  address: string,
+  signal: AbortSignal,
+): Promise<Response> {
+  const family = isIP(address)
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }])
+    } else {
+      callback(null, address, family)
+    }
+  }
+
+  const request = url.protocol === 'https:' ? httpsRequest : httpRequest
+  return new Promise((resolve, reject) => {
+    request(url, { lookup: pinnedLookup, signal }, (message) =>
+      resolve(toResponse(message)),
+    )
+      .on('error', reject)
+      .end()
+  })
+}
+
+async function fetchPublic(url: string, signal: AbortSignal) {
+  let current = new URL(url)
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const address = await assertPublicUrl(current)
+    const response = await requestPinned(current, address, signal)
+    const location = response.headers.get('location')
+    if (!(response.status >= 300 && response.status < 400 && location)) {
+      return { response, finalUrl: current }
+    }
+    await response.body?.cancel()
+    current = new URL(location, current)
+  }
+  throw new RemoteMediaError('Too many redirects')
+}
+
+async function readBody(
+  response: Response,
+  maxBytes: number,
+): Promise<Uint8Array> {
+  const tooLarge = () =>
+    new RemoteMediaError(
+      `File is larger than ${Math.round(maxBytes / (1024 * 1024))}MB`,
+    )
+
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    throw tooLarge()
+  }
+  if (!response.body) {
+    return new Uint8Array(0)
+  }
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  const reader = response.body.getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+
+  const data = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    data.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return data
+}
+
+// Malformed percent-encoding keeps the segment as it was sent
+function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
+// Name from Content-Disposition, else the last path segment, with an
+// extension matching the content type when it has none
+function resolveFilename(
+  response: Response,
+  url: URL,
+  mimeType: string,
+): string {
+  const disposition = response.headers.get('content-disposition') ?? ''
+  const fromHeader = FILENAME_REGEX.exec(disposition)?.[1]
+  const fromPath = decodePathSegment(url.pathname.split('/').pop() ?? '')
+  const name = (fromHeader || fromPath || 'import').replace(
+    UNSAFE_FILENAME_REGEX,
+    '_',
+  )
+  if (name.includes('.')) {
+    return name
+  }
+  const extension = mimeType.split('/')[1]?.split('+')[0] || 'bin'
+  return `${name}.${extension}`
+}
+
+async function downloadMedia(
+  url: string,
+  maxBytes: number,
+): Promise<RemoteMedia> {
+  const { response, finalUrl } = await fetchPublic(
+    url,
+    AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  )
+  if (!response.ok) {
+    throw new RemoteMediaError(`URL responded with status ${response.status}`)
+  }
+
+  const mimeType = (response.headers.get('content-type') ?? '')
+    .split(';')[0]
+    .trim()
+    .toLowerCase()
+  if (!(mimeType.startsWith('image/') || mimeType.startsWith('video/'))) {
+    await response.body?.cancel()
+    throw new RemoteMediaError(
+      `URL is not an image or video (${mimeType || 'unknown type'})`,
+    )
+  }
+
+  return {
+    data: await readBody(response, maxBytes),
+    mimeType,
+    filename: resolveFilename(response, finalUrl, mimeType),
+  }
+}
+
+/**
+ * Download an image or video from a public URL.
+ * Throws RemoteMediaError for URLs that can't or mustn't be imported.
+ */
+export async function fetchRemoteMedia(
+  url: string,
+  { maxBytes = MAX_REMOTE_MEDIA_SIZE }: { maxBytes?: number } = {},
+): Promise<RemoteMedia> {
+  if (!URL.canParse(url)) {
+    throw new RemoteMediaError('Invalid URL')
+  }
+
+  try {
+    return await downloadMedia(url, maxBytes)
+  } catch (error) {
+    if (error instanceof RemoteMediaError) {
+      throw error
+    }
+    console.warn(`Failed to fetch ${url}:`, error)
+    throw new RemoteMediaError('Could not download the URL')
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Resumable chunked uploads to Supabase Storage over TUS (client-side)
+ *
+ * The file is sent in fixed-size chunks. After each chunk the TUS upload URL
+ * and the confirmed offset are checkpointed in IndexedDB, so a paused or
+ * interrupted upload continues where it left off, even after a page reload.
+ */
+
+import { UploadError } from '@/lib/upload'
+
+// Supabase's TUS endpoint only accepts 6MB chunks
+export const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024
+
+// Files above this size are uploaded in resumable chunks
+export const RESUMABLE_UPLOAD_THRESHOLD = 50 * 1024 * 1024
+
+const TUS_VERSION = '1.0.0'
+
+// Retries per chunk before giving up, with the delay doubling each time
+const CHUNK_RETRIES = 3
+const CHUNK_RETRY_DELAY_MS = 1000
+
+const DB_NAME = 'adstash-uploads'
+const DB_VERSION = 1
+const CHECKPOINT_STORE = 'checkpoints'
+
+export interface UploadCheckpoint {
+  fingerprint: string
+  assetId: string
+  uploadUrl: string
+  offset: number
+  updatedAt: number
+}
+
+export interface ResumableTarget {
+  assetId: string
+  bucket: string
+  path: string
+  token: string // Signed upload token from init-upload
+}
+
+/**
+ * Identify a local file across page loads
+ */
+export function fileFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}:${file.type}`
+}
+
+function openCheckpointDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(CHECKPOINT_STORE, {
+        keyPath: 'fingerprint',
+      })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withCheckpointStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  const db = await openCheckpointDb()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(
+        db.transaction(CHECKPOINT_STORE, mode).objectStore(CHECKPOINT_STORE),
+      )
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+/**
+ * Get the saved checkpoint for a file, if an earlier upload was interrupted
+ */
+export async function getUploadCheckpoint(
+  file: File,
+): Promise<UploadCheckpoint | null> {
+  const checkpoint = await withCheckpointStore<UploadCheckpoint | undefined>(
+    'readonly',
+    (store) => store.get(fileFingerprint(file)),
+  )
+  return checkpoint ?? null
+}
+
+function saveUploadCheckpoint(checkpoint: UploadCheckpoint) {
+  return withCheckpointStore<IDBValidKey>('readwrite', (store) =>
+    store.put(checkpoint),
+  )
+}
+
+/**
+ * Forget a file's checkpoint (after completion or when discarding the upload)
+ */
+export function clearUploadCheckpoint(file: File) {
+  return withCheckpointStore<undefined>('readwrite', (store) =>
+    store.delete(fileFingerprint(file)),
+  )
+}
+
+function tusEndpoint(): string {
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/upload/resumable/sign`
+}
+
+function tusHeaders(token: string): Record<string, string> {
+  return {
+    'Tus-Resumable': TUS_VERSION,
+    apikey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '',
+    'x-signature': token,
+  }
+}
+
+// TUS metadata values are base64-encoded UTF-8
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value)
+      return `${key} ${btoa(String.fromCharCode(...bytes))}`
+    })
+    .join(',')
+}
+
+async function createTusUpload(
+  file: File,
+  target: ResumableTarget,
+  signal?: AbortSignal,
+): Promise<string> {
+  const response = await fetch(tusEndpoint(), {
+    method: 'POST',
+    headers: {
+      ...tusHeaders(target.token),
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': encodeMetadata({
+        bucketName: target.bucket,
+        objectName: target.path,
+        contentType: file.type || 'application/octet-stream',
+      }),
+      'x-upsert': 'true',
+    },
+    signal,
+  })
+  const location = response.headers.get('Location')
+  if (!(response.ok && location)) {
+    throw new UploadError(
+      `Failed to start upload (status ${response.status})`,
+      response.status,
+    )
+  }
+  return new URL(location, tusEndpoint()).toString()
+}
+
+// Confirmed offset of an existing upload, or null if the server forgot it
+async function getTusOffset(
+  uploadUrl: string,
+  token: string,
+  signal?: AbortSignal,
+): Promise<number | null> {
+  const response = await fetch(uploadUrl, {
+    method: 'HEAD',
+    headers: tusHeaders(token),
+    signal,
+  })
+  const offset = response.headers.get('Upload-Offset')
+  return response.ok && offset !== null ? Number(offset) : null
+}
+
+// PATCH one chunk with XHR for byte-level progress
+function sendChunk(
+  uploadUrl: string,
+  token: string,
+  chunk: Blob,
+  offset: number,
+  {
+    signal,
+    onProgress,
+  }: { signal?: AbortSignal; onProgress?: (loaded: number) => void },
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    const abort = () => xhr.abort()
+    signal?.addEventListener('abort', abort)
+
+    xhr.upload.addEventListener('progress', (event) => {
+      onProgress?.(event.loaded)
+    })
+    xhr.addEventListener('load', () => {
+      signal?.removeEventListener('abort', abort)
+      const nextOffset = xhr.getResponseHeader('Upload-Offset')
+      if (xhr.status >= 200 && xhr.status < 300 && nextOffset !== null) {
+        resolve(Number(nextOffset))
+      } else {
+        reject(
+          new UploadError(
+            `Chunk upload failed with status ${xhr.status}`,
+            xhr.status,
+          ),
+        )
+      }
+    })
+    xhr.addEventListener('error', () => {
+      signal?.removeEventListener('abort', abort)
+      reject(new UploadError('Chunk upload failed'))
+    })
+    xhr.addEventListener('abort', () => {
+      signal?.removeEventListener('abort', abort)
+      reject(new DOMException('Upload paused', 'AbortError'))
+    })
+
+    xhr.open('PATCH', uploadUrl)
+    for (const [name, value] of Object.entries(tusHeaders(token))) {
+      xhr.setRequestHeader(name, value)
+    }
+    xhr.setRequestHeader('Upload-Offset', String(offset))
+    xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream')
+    xhr.send(chunk)
+  })
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+async function sendChunkWithRetry(
+  uploadUrl: string,
+  token: string,
+  chunk: Blob,
+  offset: number,
+  options: { signal?: AbortSignal; onProgress?: (loaded: number) => void },
+): Promise<number> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendChunk(uploadUrl, token, chunk, offset, options)
+    } catch (error) {
+      if (isAbortError(error) || attempt >= CHUNK_RETRIES) {
+        throw error
+      }
+      await wait(CHUNK_RETRY_DELAY_MS * 2 ** attempt)
+    }
+  }
+}
+
+// Continue from a saved checkpoint when the server still has the upload
+async function resumeFromCheckpoint(
+  file: File,
+  target: ResumableTarget,
+  signal?: AbortSignal,
+): Promise<{ uploadUrl: string; offset: number } | null> {
+  const checkpoint = await getUploadCheckpoint(file)
+  if (checkpoint?.assetId !== target.assetId) {
+    return null
+  }
+  const offset = await getTusOffset(checkpoint.uploadUrl, target.token, signal)
+  return offset === null ? null : { uploadUrl: checkpoint.uploadUrl, offset }
+}
+
+/**
+ * Upload a file in resumable chunks. Abort the signal to pause; calling this
+ * again with the same file and asset resumes from the last checkpoint.
+ */
+export async function uploadResumable(
+  file: File,
+  target: ResumableTarget,
+  {
+    signal,
+    onProgress,
+  }: { signal?: AbortSignal; onProgress?: (progress: number) => void } = {},
+): Promise<void> {
+  const fingerprint = fileFingerprint(file)
+  let { uploadUrl, offset } = (await resumeFromCheckpoint(
+    file,
+    target,
+    signal,
+  )) ?? { uploadUrl: await createTusUpload(file, target, signal), offset: 0 }
+
+  while (offset < file.size) {
+    signal?.throwIfAborted()
+    const chunk = file.slice(offset, offset + RESUMABLE_CHUNK_SIZE)
+    const chunkStart = offset
+    offset = await sendChunkWithRetry(uploadUrl, target.token, chunk, offset, {
+      signal,
+      onProgress: (loaded) =>
+        onProgress?.(((chunkStart + loaded) / file.size) * 100),
+    })
+    await saveUploadCheckpoint({
+      fingerprint,
+      assetId: target.assetId,
+      uploadUrl,
+      offset,
+      updatedAt: Date.now(),
+    })
+  }
+
+  await clearUploadCheckpoint(file)
+}
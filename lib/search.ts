@@ -0,0 +1,151 @@
+import {
+  eq,
+  inArray,
+  isNull,
+  type SQL,
+  type SQLWrapper,
+  sql,
+} from 'drizzle-orm'
+import { db } from '@/db'
+import { assets, assetTags } from '@/db/schema/assets'
+import { tags } from '@/db/schema/tags'
+
+/**
+ * Full-text search utilities for assets (server-side)
+ */
+
+// Matches an optionally negated quoted phrase or bare term
+const SEARCH_TOKEN_REGEX = /(-?)"([^"]*)"?|(-?)(\S+)/g
+const NON_WORD_REGEX = /[^\p{L}\p{N}]+/u
+
+const BACKFILL_BATCH_SIZE = 500
+
+/**
+ * Convert user search input into a Postgres tsquery string.
+ *
+ * Supports `"quoted phrases"`, `-exclusions` (also `-"excluded phrase"`)
+ * and prefix matching on bare included words so partial input still matches.
+ * Returns null when the input contains no searchable terms.
+ */
+export function buildTsQuery(input: string): string | null {
+  const terms: string[] = []
+
+  for (const match of input.matchAll(SEARCH_TOKEN_REGEX)) {
+    const isPhrase = match[2] !== undefined
+    const negated = (isPhrase ? match[1] : match[3]) === '-'
+    const words = (isPhrase ? match[2] : match[4])
+      .toLowerCase()
+      .split(NON_WORD_REGEX)
+      .filter(Boolean)
+
+    if (words.length === 0) {
+      continue
+    }
+
+    let term: string
+    if (words.length > 1) {
+      term = `(${words.join(' <-> ')})`
+    } else if (isPhrase || negated) {
+      term = words[0]
+    } else {
+      term = `${words[0]}:*`
+    }
+
+    terms.push(negated ? `!${term}` : term)
+  }
+
+  return terms.length > 0 ? terms.join(' & ') : null
+}
+
+/**
+ * SQL expression for a tsquery built from user input
+ */
+export function tsQuery(query: string): SQL {
+  return sql`to_tsquery('simple', ${query})`
+}
+
+/**
+ * SQL condition matching assets against a tsquery string.
+ * Assets without a search vector yet (created before full-text search and
+ * not backfilled) fall back to a substring match of the raw input on
+ * filename and notes.
+ */
+export function searchCondition(query: string, search: string): SQL {
+  const pattern = `%${search.trim()}%`
+  return sql`(${assets.searchVector} @@ ${tsQuery(query)} or (${assets.searchVector} is null and (${assets.originalFilename} ilike ${pattern} or ${assets.notes} ilike ${pattern})))`
+}
+
+/**
+ * SQL expression ranking assets against a tsquery string
+ */
+export function searchRank(query: string): SQL<number> {
+  return sql<number>`coalesce(ts_rank(${assets.searchVector}, ${tsQuery(query)}), 0)`
+}
+
+// Split URLs and filenames into words ("nike.com/ads" -> "nike com ads")
+function wordsOf(column: SQLWrapper) {
+  return sql`regexp_replace(coalesce(${column}, ''), '[^[:alnum:]]+', ' ', 'g')`
+}
+
+/**
+ * Recompute the search vector for the given assets.
+ * Call after inserting an asset or changing its filename, notes,
+ * capture URL, page title, ad context or tags.
+ */
+export async function refreshAssetSearchVectors(assetIds: string[]) {
+  if (assetIds.length === 0) {
+    return
+  }
+
+  const tagNames = sql`(
+    select string_agg(${tags.name}, ' ')
+    from ${assetTags}
+    inner join ${tags} on ${tags.id} = ${assetTags.tagId}
+    where ${assetTags.assetId} = ${assets.id}
+  )`
+
+  await db
+    .update(assets)
+    .set({
+      searchVector: sql`
+        setweight(to_tsvector('simple', ${wordsOf(assets.originalFilename)}), 'A') ||
+        setweight(to_tsvector('simple', coalesce(${tagNames}, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(${assets.pageTitle}, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(${assets.advertiserName}, '') || ' ' || coalesce(${assets.advertiserHandle}, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(${assets.postText}, '')), 'C') ||
+        setweight(to_tsvector('simple', coalesce(${assets.notes}, '')), 'C') ||
+        setweight(to_tsvector('simple', ${wordsOf(assets.captureUrl)}), 'D')
+      `,
+    })
+    .where(inArray(assets.id, assetIds))
+}
+
+/**
+ * Compute search vectors for up to `limit` assets that have none yet.
+ * Returns how many were filled in; run until it returns 0.
+ */
+export async function backfillSearchVectors(
+  limit = BACKFILL_BATCH_SIZE,
+): Promise<number> {
+  const missing = await db
+    .select({ id: assets.id })
+    .from(assets)
+    .where(isNull(assets.searchVector))
+    .limit(limit)
+
+  await refreshAssetSearchVectors(missing.map((row) => row.id))
+  return missing.length
+}
+
+/**
+ * Recompute the search vector for every asset carrying a tag
+ * (e.g. after the tag is renamed)
+ */
+export async function refreshTaggedAssetSearchVectors(tagId: string) {
+  const tagged = await db
+    .select({ assetId: assetTags.assetId })
+    .from(assetTags)
+    .where(eq(assetTags.tagId, tagId))
+
+  await refreshAssetSearchVectors(tagged.map((row) => row.assetId))
+}
@@ -0,0 +1,182 @@
+import {
+  and,
+  asc,
+  eq,
+  gt,
+  isNotNull,
+  ne,
+  type SQL,
+  type SQLWrapper,
+  sql,
+} from 'drizzle-orm'
+import { alias } from 'drizzle-orm/pg-core'
+import { db } from '@/db'
+import { type Asset, assets } from '@/db/schema/assets'
+
+/**
+ * Near-duplicate detection using perceptual hashes (server-side)
+ *
+ * Assets store a 64-bit dHash of their preview image. Re-encoded or resized
+ * copies of the same creative land within a small Hamming distance.
+ */
+
+const PHASH_REGEX = /^[0-9a-f]{16}$/
+
+// Up to 10 of 64 bits may differ for two previews to count as the same creative
+export const DEFAULT_MAX_DISTANCE = 10
+export const MAX_DISTANCE_LIMIT = 20
+
+// Caps the work for libraries with huge clusters of identical creatives
+const MAX_DUPLICATE_PAIRS = 10_000
+
+/**
+ * Validate a perceptual hash, returning it lowercased or null if malformed
+ */
+export function normalizePhash(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null
+  }
+  const phash = value.toLowerCase()
+  return PHASH_REGEX.test(phash) ? phash : null
+}
+
+/**
+ * Parse a maxDistance query param, clamped to a sensible range
+ */
+export function parseMaxDistance(value: string | null): number {
+  const distance = Number.parseInt(value || '', 10)
+  if (Number.isNaN(distance)) {
+    return DEFAULT_MAX_DISTANCE
+  }
+  return Math.min(Math.max(distance, 0), MAX_DISTANCE_LIMIT)
+}
+
+// Hamming distance between an asset's phash and the given hash or column
+function phashDistance(phash: string | SQLWrapper): SQL<number> {
+  return sql<number>`bit_count(('x' || ${assets.phash})::bit(64) # ('x' || ${phash})::bit(64))::int`
+}
+
+/**
+ * Find the owner's assets visually similar to the given asset, closest first
+ */
+export async function findSimilarAssets(
+  asset: Asset,
+  { maxDistance = DEFAULT_MAX_DISTANCE, limit = 12 } = {},
+): Promise<{ asset: Asset; distance: number }[]> {
+  if (!asset.phash) {
+    return []
+  }
+
+  const distance = phashDistance(asset.phash)
+
+  const similar = await db
+    .select({ asset: assets, distance })
+    .from(assets)
+    .where(
+      and(
+        eq(assets.ownerId, asset.ownerId),
+        eq(assets.status, 'ready'),
+        ne(assets.id, asset.id),
+        isNotNull(assets.phash),
+        sql`${distance} <= ${maxDistance}`,
+      ),
+    )
+    .orderBy(asc(distance), asc(assets.createdAt))
+    .limit(limit)
+
+  return similar
+}
+
+export interface DuplicateGroups {
+  groups: string[][]
+  // More pairs matched than MAX_DUPLICATE_PAIRS; the least similar were left out
+  truncated: boolean
+}
+
+/**
+ * Group the owner's assets into clusters of near-duplicates.
+ * Assets are linked when their hashes are within maxDistance; clusters are
+ * the connected components, largest first. Singletons are omitted.
+ */
+export async function findDuplicateGroups(
+  ownerId: string,
+  maxDistance = DEFAULT_MAX_DISTANCE,
+): Promise<DuplicateGroups> {
+  const other = alias(assets, 'other')
+  const distance = phashDistance(other.phash)
+
+  // Only the linked pairs leave the database, each listed once, closest first
+  const rows = await db
+    .select({
+      id: assets.id,
+      createdAt: assets.createdAt,
+      otherId: other.id,
+      otherCreatedAt: other.createdAt,
+    })
+    .from(assets)
+    .innerJoin(
+      other,
+      and(
+        eq(other.ownerId, assets.ownerId),
+        eq(other.status, 'ready'),
+        isNotNull(other.phash),
+        gt(other.id, assets.id),
+      ),
+    )
+    .where(
+      and(
+        eq(assets.ownerId, ownerId),
+        eq(assets.status, 'ready'),
+        isNotNull(assets.phash),
+        sql`${distance} <= ${maxDistance}`,
+      ),
+    )
+    .orderBy(asc(distance), asc(assets.id), asc(other.id))
+    .limit(MAX_DUPLICATE_PAIRS + 1)
+
+  const truncated = rows.length > MAX_DUPLICATE_PAIRS
+  const pairs = truncated ? rows.slice(0, MAX_DUPLICATE_PAIRS) : rows
+
+  const parent = new Map<string, string>()
+  const createdAt = new Map<string, Date>()
+
+  const find = (id: string): string => {
+    let root = id
+    while (parent.get(root) !== root) {
+      root = parent.get(root) as string
+    }
+    parent.set(id, root)
+    return root
+  }
+
+  const add = (id: string, created: Date) => {
+    if (!parent.has(id)) {
+      parent.set(id, id)
+      createdAt.set(id, created)
+    }
+  }
+
+  for (const pair of pairs) {
+    add(pair.id, pair.createdAt)
+    add(pair.otherId, pair.otherCreatedAt)
+    parent.set(find(pair.otherId), find(pair.id))
+  }
+
+  const groups = new Map<string, string[]>()
+  for (const id of parent.keys()) {
+    const root = find(id)
+    const group = groups.get(root) || []
+    group.push(id)
+    groups.set(root, group)
+  }
+
+  const byCreatedAt = (a: string, b: string) =>
+    (createdAt.get(a) as Date).getTime() - (createdAt.get(b) as Date).getTime()
+
+  return {
+    groups: [...groups.values()]
+      .map((group) => group.sort(byCreatedAt))
+      .sort((a, b) => b.length - a.length),
+    truncated,
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Video sprite sheets for hover scrubbing (shared by browser and server)
+ *
+ * A sprite sheet is a single WebP with N evenly spaced frames side by side,
+ * each cropped to the grid card's 16:9 shape.
+ */
+
+export const SPRITE_FRAME_COUNT = 10
+export const SPRITE_FRAME_WIDTH = 320
+export const SPRITE_FRAME_HEIGHT = 180
+
+/**
+ * Timestamps (seconds) of the frames: the middle of N equal segments,
+ * which avoids black first frames and end cards
+ */
+export function spriteFrameTimes(
+  durationSeconds: number,
+  frameCount = SPRITE_FRAME_COUNT,
+): number[] {
+  return Array.from(
+    { length: frameCount },
+    (_, i) => (durationSeconds * (i + 0.5)) / frameCount,
+  )
+}
@@ -0,0 +1,20 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Create a Supabase client with the service role key for storage operations
+ * outside a user session (extension requests, background processing).
+ */
+export function createAdminClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey =
+    process.env.SUPABASE_SERVICE_ROLE_KEY ||
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+  if (!(supabaseUrl && serviceRoleKey)) {
+    throw new Error(
+      'Missing Supabase environment variables: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY or NEXT_PUBLIC_SUPABASE_ANON_KEY must be set',
+    )
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey)
+}
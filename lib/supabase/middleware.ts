@@ -43,6 +43,7 @@ export async function updateSession(request: NextRequest) {
   const isAppRoute =
     request.nextUrl.pathname.startsWith('/assets') ||
     request.nextUrl.pathname.startsWith('/upload') ||
+    request.nextUrl.pathname.startsWith('/collections') ||
     request.nextUrl.pathname.startsWith('/tags') ||
     request.nextUrl.pathname.startsWith('/settings')
 
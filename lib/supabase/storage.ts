@@ -3,9 +3,13 @@ import type { SupabaseClient } from '@supabase/supabase-js'
 export const ASSETS_BUCKET = 'assets'
 export const PREVIEWS_BUCKET = 'previews'
 
+// Most paths a single storage remove() call accepts
+const DELETE_BATCH_SIZE = 1000
+
 interface SignedUploadUrlParams {
   bucket: string
   path: string
+  upsert?: boolean // Allow replacing an existing object
 }
 
 interface SignedDownloadUrlParams {
@@ -20,11 +24,11 @@ interface SignedDownloadUrlParams {
  */
 export async function createSignedUploadUrl(
   supabase: SupabaseClient,
-  { bucket, path }: SignedUploadUrlParams,
+  { bucket, path, upsert = false }: SignedUploadUrlParams,
 ) {
   const { data, error } = await supabase.storage
     .from(bucket)
-    .createSignedUploadUrl(path)
+    .createSignedUploadUrl(path, { upsert })
 
   if (error) {
     throw new Error(`Failed to create signed upload URL: ${error.message}`)
@@ -66,6 +70,25 @@ export async function deleteFile(
   }
 }
 
+/**
+ * Delete many files from one bucket, in batches the storage API accepts.
+ */
+export async function deleteFiles(
+  supabase: SupabaseClient,
+  bucket: string,
+  paths: string[],
+) {
+  for (let i = 0; i < paths.length; i += DELETE_BATCH_SIZE) {
+    const { error } = await supabase.storage
+      .from(bucket)
+      .remove(paths.slice(i, i + DELETE_BATCH_SIZE))
+
+    if (error) {
+      throw new Error(`Failed to delete files: ${error.message}`)
+    }
+  }
+}
+
 /**
  * Generate a unique storage path for an asset.
  */
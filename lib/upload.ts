@@ -2,26 +2,103 @@
  * Upload utilities for client-side operations
  */
 
+import type { DuplicatePolicy } from '@/lib/duplicates'
+import {
+  SPRITE_FRAME_COUNT,
+  SPRITE_FRAME_HEIGHT,
+  SPRITE_FRAME_WIDTH,
+  spriteFrameTimes,
+} from '@/lib/sprites'
+
 export interface UploadResult {
   assetId: string
   success: boolean
   error?: string
 }
 
-export interface InitUploadResponse {
-  assetId: string
-  assetUpload: {
-    signedUrl: string
-    token: string
-    path: string
+/**
+ * Upload failure, with the HTTP status when the server responded
+ */
+export class UploadError extends Error {
+  readonly status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'UploadError'
+    this.status = status
+  }
+}
+
+/**
+ * Whether an upload failure is worth retrying: network errors, timeouts,
+ * rate limits and 5xx responses
+ */
+export function isRetryableUploadError(error: unknown): boolean {
+  if (error instanceof UploadError) {
+    return (
+      error.status === undefined ||
+      error.status === 408 ||
+      error.status === 429 ||
+      error.status >= 500
+    )
   }
-  previewUpload: {
-    signedUrl: string
-    token: string
-    path: string
+  // fetch() rejects with a TypeError when the request never completed
+  return error instanceof TypeError
+}
+
+// Retry delay doubles per attempt: 1s, 2s, 4s... capped at 30s
+const RETRY_BASE_MS = 1000
+const RETRY_MAX_MS = 30 * 1000
+
+export function uploadRetryDelay(attempt: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS)
+}
+
+/**
+ * Limit how many tasks run at once. Tasks passed to the returned function
+ * wait for a free slot, so separate batches share the same limit.
+ */
+export function createConcurrencyLimit(limit: number) {
+  let running = 0
+  const waiting: (() => void)[] = []
+
+  return async <R>(task: () => Promise<R>): Promise<R> => {
+    if (running >= limit) {
+      await new Promise<void>((resolve) => waiting.push(resolve))
+    }
+    running++
+    try {
+      return await task()
+    } finally {
+      running--
+      waiting.shift()?.()
+    }
   }
 }
 
+export interface SignedUpload {
+  signedUrl: string
+  token: string
+  path: string
+}
+
+export type InitUploadResponse =
+  | {
+      assetId: string
+      duplicate: false
+      assetUpload: SignedUpload
+      previewUpload: SignedUpload
+      spriteUpload: SignedUpload | null // Videos only
+    }
+  | {
+      // An identical file is already in the library (matched by SHA-256)
+      assetId: string
+      duplicate: true
+      assetUpload: null
+      previewUpload: null
+      spriteUpload: null
+    }
+
 /**
  * Initialize an upload by getting signed URLs from the server
  */
@@ -30,6 +107,13 @@ export async function initUpload(
   options?: {
     sourcePlatform?: string
     captureUrl?: string
+    sha256?: string
+    onDuplicate?: DuplicatePolicy
+    // Merged onto the existing asset with onDuplicate: 'link'
+    tagIds?: string[]
+    notes?: string
+    // Re-sign the upload URLs of an interrupted upload instead of starting over
+    resumeAssetId?: string
   },
 ): Promise<InitUploadResponse> {
   const response = await fetch('/api/assets/init-upload', {
@@ -41,12 +125,49 @@ export async function initUpload(
       sizeBytes: file.size,
       sourcePlatform: options?.sourcePlatform,
       captureUrl: options?.captureUrl,
+      sha256: options?.sha256,
+      onDuplicate: options?.onDuplicate,
+      tagIds: options?.tagIds,
+      notes: options?.notes,
+      resumeAssetId: options?.resumeAssetId,
     }),
   })
 
   if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error || 'Failed to initialize upload')
+    const error = await response.json().catch(() => ({}))
+    throw new UploadError(
+      error.error || 'Failed to initialize upload',
+      response.status,
+    )
+  }
+
+  return response.json()
+}
+
+/**
+ * Import an image or video from a URL; the server downloads it
+ */
+export async function importFromUrl(
+  url: string,
+  options?: {
+    sourcePlatform?: string
+    tagIds?: string[]
+    notes?: string
+    onDuplicate?: DuplicatePolicy
+  },
+): Promise<{ assetId: string; duplicate: boolean }> {
+  const response = await fetch('/api/assets/import-url', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url, ...options }),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new UploadError(
+      error.error || 'Failed to import from URL',
+      response.status,
+    )
   }
 
   return response.json()
@@ -60,9 +181,12 @@ export function uploadToStorage(
   signedUrl: string,
   token: string,
   onProgress?: (progress: number) => void,
+  signal?: AbortSignal,
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     const xhr = new XMLHttpRequest()
+    const abort = () => xhr.abort()
+    signal?.addEventListener('abort', abort)
 
     xhr.upload.addEventListener('progress', (event) => {
       if (event.lengthComputable && onProgress) {
@@ -71,15 +195,27 @@ export function uploadToStorage(
     })
 
     xhr.addEventListener('load', () => {
+      signal?.removeEventListener('abort', abort)
       if (xhr.status >= 200 && xhr.status < 300) {
         resolve()
       } else {
-        reject(new Error(`Upload failed with status ${xhr.status}`))
+        reject(
+          new UploadError(
+            `Upload failed with status ${xhr.status}`,
+            xhr.status,
+          ),
+        )
       }
     })
 
     xhr.addEventListener('error', () => {
-      reject(new Error('Upload failed'))
+      signal?.removeEventListener('abort', abort)
+      reject(new UploadError('Upload failed'))
+    })
+
+    xhr.addEventListener('abort', () => {
+      signal?.removeEventListener('abort', abort)
+      reject(new DOMException('Upload aborted', 'AbortError'))
     })
 
     xhr.open('PUT', signedUrl)
@@ -102,8 +238,11 @@ export async function finalizeUpload(
     height?: number
     durationSeconds?: number
     sha256?: string
+    phash?: string
+    spriteFrames?: number
     sizeBytes?: number
     notes?: string
+    tagIds?: string[]
   },
 ): Promise<void> {
   const response = await fetch('/api/assets/finalize-upload', {
@@ -113,8 +252,11 @@ export async function finalizeUpload(
   })
 
   if (!response.ok) {
-    const error = await response.json()
-    throw new Error(error.error || 'Failed to finalize upload')
+    const error = await response.json().catch(() => ({}))
+    throw new UploadError(
+      error.error || 'Failed to finalize upload',
+      response.status,
+    )
   }
 }
 
@@ -251,6 +393,122 @@ export function generateVideoPreview(
   })
 }
 
+// Seek a video element and wait until the frame is ready to draw
+function seekVideo(video: HTMLVideoElement, seconds: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve()
+    video.onerror = () => reject(new Error('Failed to seek video'))
+    video.currentTime = seconds
+  })
+}
+
+/**
+ * Generate a sprite sheet of evenly spaced video frames for hover scrubbing.
+ * Frames are laid out left to right and cropped to fill each tile.
+ */
+export async function generateVideoSpriteSheet(
+  file: File,
+  frameCount = SPRITE_FRAME_COUNT,
+): Promise<{ blob: Blob; frames: number }> {
+  const video = document.createElement('video')
+  const url = URL.createObjectURL(file)
+  video.muted = true
+  video.preload = 'auto'
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve()
+      video.onerror = () => reject(new Error('Failed to load video'))
+      video.src = url
+      video.load()
+    })
+
+    const canvas = document.createElement('canvas')
+    canvas.width = SPRITE_FRAME_WIDTH * frameCount
+    canvas.height = SPRITE_FRAME_HEIGHT
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      throw new Error('Failed to get canvas context')
+    }
+
+    // Crop each frame to the tile's aspect ratio (like object-fit: cover)
+    const { videoWidth, videoHeight } = video
+    const scale = Math.max(
+      SPRITE_FRAME_WIDTH / videoWidth,
+      SPRITE_FRAME_HEIGHT / videoHeight,
+    )
+    const sourceWidth = SPRITE_FRAME_WIDTH / scale
+    const sourceHeight = SPRITE_FRAME_HEIGHT / scale
+    const sourceX = (videoWidth - sourceWidth) / 2
+    const sourceY = (videoHeight - sourceHeight) / 2
+
+    const times = spriteFrameTimes(video.duration, frameCount)
+    for (const [i, seconds] of times.entries()) {
+      await seekVideo(video, seconds)
+      ctx.drawImage(
+        video,
+        sourceX,
+        sourceY,
+        sourceWidth,
+        sourceHeight,
+        i * SPRITE_FRAME_WIDTH,
+        0,
+        SPRITE_FRAME_WIDTH,
+        SPRITE_FRAME_HEIGHT,
+      )
+    }
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, 'image/webp', 0.7),
+    )
+    if (!blob) {
+      throw new Error('Failed to generate sprite sheet')
+    }
+    return { blob, frames: frameCount }
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+/**
+ * Calculate a perceptual hash (64-bit dHash) of an image, as 16 hex chars.
+ * Resized or re-encoded copies of the same image produce nearby hashes.
+ */
+export async function calculatePerceptualHash(image: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(image)
+  const canvas = document.createElement('canvas')
+  canvas.width = 9
+  canvas.height = 8
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) {
+    bitmap.close()
+    throw new Error('Failed to get canvas context')
+  }
+  ctx.drawImage(bitmap, 0, 0, 9, 8)
+  bitmap.close()
+
+  const { data } = ctx.getImageData(0, 0, 9, 8)
+  return dHashFromPixels(data)
+}
+
+// Compare each pixel's brightness with its right neighbour on a 9x8 grid
+function dHashFromPixels(data: Uint8ClampedArray): string {
+  const gray = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114
+  }
+
+  let hex = ''
+  for (let y = 0; y < 8; y++) {
+    let byte = 0
+    for (let x = 0; x < 8; x++) {
+      byte = byte * 2 + (gray(x, y) > gray(x + 1, y) ? 1 : 0)
+    }
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
 /**
  * Calculate SHA-256 hash of a file
  */
@@ -284,6 +542,10 @@ export const ACCEPTED_FILE_TYPES = {
 }
 
 /**
- * Max file size (100MB)
+ * Max file size in MB, configurable with NEXT_PUBLIC_MAX_UPLOAD_SIZE_MB
+ * (default 2GB). Files over RESUMABLE_UPLOAD_THRESHOLD upload in chunks.
  */
-export const MAX_FILE_SIZE = 100 * 1024 * 1024
+export const MAX_FILE_SIZE_MB =
+  Number(process.env.NEXT_PUBLIC_MAX_UPLOAD_SIZE_MB) || 2048
+
+export const MAX_FILE_SIZE = MAX_FILE_SIZE_MB * 1024 * 1024
@@ -0,0 +1,105 @@
+import { createHash } from 'node:crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { eq } from 'drizzle-orm'
+import { db } from '@/db'
+import { type Asset, assets } from '@/db/schema/assets'
+import { detectSourceFromUrl } from '@/db/schema/sources'
+import { addAssetTags } from '@/lib/assets'
+import {
+  DEFAULT_DUPLICATE_POLICY,
+  type DuplicatePolicy,
+  resolveDuplicateAsset,
+} from '@/lib/duplicates'
+import { enqueueJob } from '@/lib/jobs'
+import { mediaUrlKey } from '@/lib/media-url'
+import { fetchRemoteMedia } from '@/lib/remote-media'
+import { refreshAssetSearchVectors } from '@/lib/search'
+import { ASSETS_BUCKET, generateAssetPath } from '@/lib/supabase/storage'
+
+/**
+ * Import a single image or video from a URL (server-side)
+ *
+ * Mirrors the browser upload flow: duplicate check, an 'uploading' asset row,
+ * the original written to storage, then finalized to ready with previews and
+ * metadata left to the processing job.
+ */
+
+export interface UrlImportOptions {
+  url: string
+  sourcePlatform?: string
+  tagIds?: string[]
+  notes?: string
+  onDuplicate?: DuplicatePolicy
+}
+
+export interface UrlImportResult {
+  asset: Asset
+  duplicate: boolean
+}
+
+export async function importFromUrl(
+  supabase: SupabaseClient,
+  ownerId: string,
+  { url, sourcePlatform, tagIds, notes, onDuplicate }: UrlImportOptions,
+): Promise<UrlImportResult> {
+  const media = await fetchRemoteMedia(url)
+  const sha256 = createHash('sha256').update(media.data).digest('hex')
+
+  const duplicate = await resolveDuplicateAsset(ownerId, {
+    sha256,
+    policy: onDuplicate ?? DEFAULT_DUPLICATE_POLICY,
+    tagIds,
+    notes,
+  })
+  if (duplicate) {
+    return { asset: duplicate, duplicate: true }
+  }
+
+  const storagePath = generateAssetPath(ownerId, media.filename)
+  const [asset] = await db
+    .insert(assets)
+    .values({
+      ownerId,
+      status: 'uploading',
+      captureMethod: 'url_import',
+      sourcePlatform: sourcePlatform || detectSourceFromUrl(url),
+      captureUrl: url,
+      mediaUrl: url,
+      mediaUrlKey: mediaUrlKey(url),
+      originalFilename: media.filename,
+      mimeType: media.mimeType,
+      sizeBytes: media.data.byteLength,
+      sha256,
+      storageBucket: ASSETS_BUCKET,
+      storagePath,
+      notes: notes?.trim() || null,
+    })
+    .returning()
+
+  const { error } = await supabase.storage
+    .from(ASSETS_BUCKET)
+    .upload(storagePath, media.data, { contentType: media.mimeType })
+  if (error) {
+    await db
+      .update(assets)
+      .set({ status: 'failed', updatedAt: new Date() })
+      .where(eq(assets.id, asset.id))
+    throw new Error(`Failed to upload file: ${error.message}`)
+  }
+
+  const [ready] = await db
+    .update(assets)
+    .set({ status: 'ready', updatedAt: new Date() })
+    .where(eq(assets.id, asset.id))
+    .returning()
+
+  if (Array.isArray(tagIds)) {
+    await addAssetTags(asset.id, ownerId, tagIds)
+  }
+  await refreshAssetSearchVectors([asset.id])
+
+  // Previews, dimensions and hashes come from the processing job
+  await enqueueJob('process_asset', { ownerId, assetId: asset.id })
+
+  return { asset: ready, duplicate: false }
+}
@@ -0,0 +1,70 @@
+import { execFile } from 'node:child_process'
+import { promisify } from 'node:util'
+
+/**
+ * Video frame extraction with ffmpeg (server-side)
+ *
+ * Uses the ffmpeg binary from FFMPEG_PATH, or `ffmpeg` on the PATH. Hosts
+ * without ffmpeg skip server-side video previews instead of failing.
+ */
+
+const execFileAsync = promisify(execFile)
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg'
+
+// Decoded frames are PNGs of the full video resolution
+const MAX_FRAME_SIZE = 64 * 1024 * 1024
+
+function isMissingBinary(error: unknown): boolean {
+  return (
+    error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOENT'
+  )
+}
+
+async function extractFrame(input: string, seconds: number): Promise<Buffer> {
+  const { stdout } = await execFileAsync(
+    FFMPEG_PATH,
+    [
+      '-v',
+      'error',
+      '-ss',
+      seconds.toFixed(3),
+      '-i',
+      input,
+      '-frames:v',
+      '1',
+      '-f',
+      'image2pipe',
+      '-c:v',
+      'png',
+      '-',
+    ],
+    { encoding: 'buffer', maxBuffer: MAX_FRAME_SIZE },
+  )
+  return stdout
+}
+
+/**
+ * Decode a PNG frame at each timestamp of the video file at `input`.
+ * Returns null when ffmpeg isn't installed.
+ */
+export async function extractVideoFrames(
+  input: string,
+  timestamps: number[],
+): Promise<Buffer[] | null> {
+  try {
+    const frames: Buffer[] = []
+    for (const seconds of timestamps) {
+      const frame = await extractFrame(input, seconds)
+      if (frame.byteLength > 0) {
+        frames.push(frame)
+      }
+    }
+    return frames
+  } catch (error) {
+    if (isMissingBinary(error)) {
+      return null
+    }
+    throw error
+  }
+}
@@ -0,0 +1,170 @@
+import { inflateSync } from 'fflate'
+
+/**
+ * Random access to the entries of a ZIP archive held in memory (server-side)
+ *
+ * The central directory is read once, so each entry can then be inflated on
+ * its own instead of rescanning the whole archive for every file. Supports
+ * stored and deflated entries and ZIP64 sizes/offsets.
+ */
+
+const EOCD_SIGNATURE = 0x06_05_4b_50
+const EOCD_SIZE = 22
+const ZIP64_LOCATOR_SIGNATURE = 0x07_06_4b_50
+const ZIP64_LOCATOR_SIZE = 20
+const ZIP64_EOCD_SIGNATURE = 0x06_06_4b_50
+const CENTRAL_HEADER_SIGNATURE = 0x02_01_4b_50
+const CENTRAL_HEADER_SIZE = 46
+const LOCAL_HEADER_SIGNATURE = 0x04_03_4b_50
+const LOCAL_HEADER_SIZE = 30
+const ZIP64_EXTRA_ID = 0x00_01
+const MAX_COMMENT_LENGTH = 0xff_ff
+const UINT16_MAX = 0xff_ff
+const UINT32_MAX = 0xff_ff_ff_ff
+
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+interface ZipEntry {
+  method: number
+  compressedSize: number
+  size: number
+  localHeaderOffset: number
+}
+
+export interface ZipReader {
+  names: string[]
+  read: (name: string) => Uint8Array
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  const last = view.byteLength - EOCD_SIZE
+  const first = Math.max(0, last - MAX_COMMENT_LENGTH)
+  for (let offset = last; offset >= first; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) {
+      return offset
+    }
+  }
+  throw new Error('Not a ZIP archive')
+}
+
+// Entry count and central directory offset, from the ZIP64 record if needed
+function readDirectoryLocation(view: DataView) {
+  const eocd = findEndOfCentralDirectory(view)
+  const count = view.getUint16(eocd + 10, true)
+  const offset = view.getUint32(eocd + 16, true)
+  if (count !== UINT16_MAX && offset !== UINT32_MAX) {
+    return { count, offset }
+  }
+
+  const locator = eocd - ZIP64_LOCATOR_SIZE
+  if (
+    locator < 0 ||
+    view.getUint32(locator, true) !== ZIP64_LOCATOR_SIGNATURE
+  ) {
+    return { count, offset }
+  }
+  const zip64Eocd = Number(view.getBigUint64(locator + 8, true))
+  if (view.getUint32(zip64Eocd, true) !== ZIP64_EOCD_SIGNATURE) {
+    throw new Error('Corrupt ZIP64 archive')
+  }
+  return {
+    count: Number(view.getBigUint64(zip64Eocd + 32, true)),
+    offset: Number(view.getBigUint64(zip64Eocd + 48, true)),
+  }
+}
+
+// Replace 32-bit placeholders with the values from the ZIP64 extra field
+function applyZip64Extra(
+  view: DataView,
+  start: number,
+  end: number,
+  entry: ZipEntry,
+) {
+  let offset = start
+  while (offset + 4 <= end) {
+    const id = view.getUint16(offset, true)
+    const size = view.getUint16(offset + 2, true)
+    if (id === ZIP64_EXTRA_ID) {
+      let field = offset + 4
+      for (const key of [
+        'size',
+        'compressedSize',
+        'localHeaderOffset',
+      ] as const) {
+        if (entry[key] === UINT32_MAX) {
+          entry[key] = Number(view.getBigUint64(field, true))
+          field += 8
+        }
+      }
+      return
+    }
+    offset += 4 + size
+  }
+}
+
+/**
+ * Read an archive's central directory
+ */
+export function readZip(archive: Uint8Array): ZipReader {
+  const view = new DataView(
+    archive.buffer,
+    archive.byteOffset,
+    archive.byteLength,
+  )
+  const decoder = new TextDecoder()
+  const entries = new Map<string, ZipEntry>()
+
+  let { count, offset } = readDirectoryLocation(view)
+  for (; count > 0; count--) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory')
+    }
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const nameStart = offset + CENTRAL_HEADER_SIZE
+    const extraStart = nameStart + nameLength
+
+    const entry: ZipEntry = {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    }
+    applyZip64Extra(view, extraStart, extraStart + extraLength, entry)
+    entries.set(decoder.decode(archive.subarray(nameStart, extraStart)), entry)
+
+    offset = extraStart + extraLength + commentLength
+  }
+
+  return {
+    names: [...entries.keys()],
+    read: (name) => {
+      const entry = entries.get(name)
+      if (!entry) {
+        throw new Error(`${name} is not in the archive`)
+      }
+      const header = entry.localHeaderOffset
+      if (view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Corrupt ZIP entry ${name}`)
+      }
+      // The local header's name and extra field can differ from the
+      // central directory's
+      const start =
+        header +
+        LOCAL_HEADER_SIZE +
+        view.getUint16(header + 26, true) +
+        view.getUint16(header + 28, true)
+      const data = archive.subarray(start, start + entry.compressedSize)
+
+      if (entry.method === METHOD_STORED) {
+        return data.slice()
+      }
+      if (entry.method === METHOD_DEFLATE) {
+        return inflateSync(data, { out: new Uint8Array(entry.size) })
+      }
+      throw new Error(`Unsupported compression in ZIP entry ${name}`)
+    },
+  }
+}